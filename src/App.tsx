@@ -9,6 +9,8 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import CreateForm from "./pages/CreateForm";
+import EditForm from "./pages/EditForm";
+import FormVersions from "./pages/FormVersions";
 import FormView from "./pages/FormView";
 import Submissions from "./pages/Submissions";
 import NotFound from "./pages/NotFound";
@@ -42,6 +44,22 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/edit/:formId"
+              element={
+                <ProtectedRoute>
+                  <EditForm />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/versions/:formId"
+              element={
+                <ProtectedRoute>
+                  <FormVersions />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/submissions/:formId"
               element={
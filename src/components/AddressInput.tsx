@@ -0,0 +1,71 @@
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ADDRESS_AUTOCOMPLETE,
+  ADDRESS_COUNTRIES,
+  ADDRESS_PART_LABELS,
+  findAddressCountry,
+  getRequiredAddressParts
+} from '@shared/addressFormats';
+import type { AddressPart, AddressValue, FormField } from '@/hooks/useForms';
+
+interface AddressInputProps {
+  field: FormField;
+  name: string;
+  value: AddressValue;
+  onChange: (value: AddressValue) => void;
+}
+
+export function AddressInput({ field, name, value, onChange }: AddressInputProps) {
+  // The default country is only written once the respondent starts filling in the address
+  const countryCode = value.country || field.address?.defaultCountry || '';
+  const country = findAddressCountry(countryCode);
+  const requiredParts = getRequiredAddressParts(field);
+
+  const setPart = (part: AddressPart, partValue: string) => {
+    const next = { ...value, [part]: partValue };
+    if (!next.country && countryCode) next.country = countryCode;
+    onChange(next);
+  };
+
+  const labelFor = (part: AddressPart) => {
+    const label =
+      part === 'region' ? country?.regionLabel || ADDRESS_PART_LABELS.region
+        : part === 'postalCode' ? country?.postalLabel || ADDRESS_PART_LABELS.postalCode
+        : ADDRESS_PART_LABELS[part];
+    return requiredParts.includes(part) ? label : `${label} (optional)`;
+  };
+
+  const renderPart = (part: AddressPart, className?: string) => (
+    <Input
+      id={part === 'street' ? name : undefined}
+      aria-label={labelFor(part)}
+      placeholder={labelFor(part)}
+      autoComplete={ADDRESS_AUTOCOMPLETE[part]}
+      value={value[part] || ''}
+      onChange={(e) => setPart(part, e.target.value)}
+      className={className}
+    />
+  );
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {renderPart('street', 'col-span-2')}
+      {renderPart('city')}
+      {renderPart('region')}
+      {renderPart('postalCode')}
+      <Select value={countryCode || undefined} onValueChange={(code) => setPart('country', code)}>
+        <SelectTrigger aria-label={labelFor('country')}>
+          <SelectValue placeholder={labelFor('country')} />
+        </SelectTrigger>
+        <SelectContent>
+          {ADDRESS_COUNTRIES.map((c) => (
+            <SelectItem key={c.code} value={c.code}>
+              {c.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Sparkles } from 'lucide-react';
+import { useAnswerThemes } from '@/hooks/useAnswerInsights';
+import { EMBEDDED_FIELD_TYPES, MIN_THEME_ANSWERS } from '@shared/answerInsights';
+import type { FormField } from '@/hooks/useForms';
+
+interface AnswerThemesProps {
+  formId: string;
+  fields: FormField[];
+}
+
+/**
+ * Groups a long-text question's answers by meaning and names each group.
+ * Runs on request since labelling calls the language model.
+ */
+export function AnswerThemes({ formId, fields }: AnswerThemesProps) {
+  const themeFields = fields.filter((field) => EMBEDDED_FIELD_TYPES.includes(field.type));
+  const [fieldId, setFieldId] = useState(themeFields[0]?.id ?? '');
+  const { findThemes } = useAnswerThemes(formId);
+  const result = findThemes.variables === fieldId ? findThemes.data : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="themes-field">Question</Label>
+          <Select value={fieldId} onValueChange={setFieldId}>
+            <SelectTrigger id="themes-field" className="w-72">
+              <SelectValue placeholder="Choose a question" />
+            </SelectTrigger>
+            <SelectContent>
+              {themeFields.map((field) => (
+                <SelectItem key={field.id} value={field.id}>{field.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={() => findThemes.mutate(fieldId)} disabled={!fieldId || findThemes.isPending}>
+          {findThemes.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+          {result ? 'Refresh themes' : 'Find themes'}
+        </Button>
+      </div>
+
+      {findThemes.error && findThemes.variables === fieldId && (
+        <p className="text-sm text-destructive">{findThemes.error.message}</p>
+      )}
+
+      {result && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {result.answerCount} answer{result.answerCount !== 1 ? 's' : ''} analyzed
+            {result.themes.length > 0 && ` · ${result.themes.length} themes`}
+            {result.labelled === false && ' · labelled by keyword because the AI service was unavailable'}
+          </p>
+          {result.remaining > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {result.remaining} older answer{result.remaining !== 1 ? 's are' : ' is'} still being indexed. Refresh to include them.
+            </p>
+          )}
+
+          {result.themes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Themes need at least {MIN_THEME_ANSWERS} answers to this question.
+            </p>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              {result.themes.map((theme, i) => {
+                const share = Math.round((theme.count / result.answerCount) * 100);
+                return (
+                  <Card key={i}>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-base">{theme.label}</CardTitle>
+                      <CardDescription>
+                        {theme.count} answer{theme.count !== 1 ? 's' : ''} · {share}%
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      <Progress value={share} className="h-2" />
+                      {theme.description && <p className="text-sm">{theme.description}</p>}
+                      {theme.keywords.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {theme.keywords.map((keyword) => (
+                            <Badge key={keyword} variant="secondary">{keyword}</Badge>
+                          ))}
+                        </div>
+                      )}
+                      <ul className="space-y-2">
+                        {theme.examples.map((example) => (
+                          <li key={example.submissionId} className="line-clamp-3 border-l-2 pl-2 text-sm text-muted-foreground">
+                            {example.content}
+                          </li>
+                        ))}
+                      </ul>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useCallback } from 'react';
 import { X, Image as ImageIcon, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { uploadToCloudinary } from '@/lib/cloudinary';
 
 interface CloudinaryUploaderProps {
   onUpload: (url: string) => void;
@@ -10,10 +11,6 @@ interface CloudinaryUploaderProps {
   className?: string;
 }
 
-// Cloudinary configuration - uses env vars with fallbacks
-const CLOUDINARY_CLOUD_NAME = import.meta.env.VITE_CLOUDINARY_CLOUD_NAME || 'dfiizqv1d';
-const CLOUDINARY_UPLOAD_PRESET = import.meta.env.VITE_CLOUDINARY_UPLOAD_PRESET || 'CentrAlignAI';
-
 export function CloudinaryUploader({ onUpload, onRemove, currentImage, className }: CloudinaryUploaderProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [preview, setPreview] = useState<string | null>(currentImage || null);
@@ -47,26 +44,9 @@ export function CloudinaryUploader({ onUpload, onRemove, currentImage, className
     }
 
     try {
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('upload_preset', CLOUDINARY_UPLOAD_PRESET);
-
-      const response = await fetch(
-        `https://api.cloudinary.com/v1_1/${CLOUDINARY_CLOUD_NAME}/auto/upload`,
-        {
-          method: 'POST',
-          body: formData
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error?.message || 'Upload failed');
-      }
-
-      const data = await response.json();
-      setPreview(data.secure_url);
-      onUpload(data.secure_url);
+      const url = await uploadToCloudinary(file);
+      setPreview(url);
+      onUpload(url);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to upload file';
       setError(errorMessage);
@@ -0,0 +1,65 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { DEFAULT_DRAFT_EXPIRY_DAYS, MAX_DRAFT_EXPIRY_DAYS } from '@shared/formDrafts';
+import { Save } from 'lucide-react';
+import type { DraftSettings } from '@/hooks/useForms';
+
+interface DraftSettingsCardProps {
+  drafts: DraftSettings | undefined;
+  onChange: (drafts: DraftSettings | undefined) => void;
+}
+
+export function DraftSettingsCard({ drafts, onChange }: DraftSettingsCardProps) {
+  const update = (updates: Partial<DraftSettings>) => {
+    const next = { ...drafts, ...updates };
+    onChange(next.resumeLinks || next.expiryDays !== undefined ? next : undefined);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Save className="h-5 w-5 text-primary" />
+          Drafts
+        </CardTitle>
+        <CardDescription>
+          Answers are always kept in the respondent's browser until they submit
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="drafts-resume-links"
+            checked={!!drafts?.resumeLinks}
+            onCheckedChange={(resumeLinks) => update({ resumeLinks: resumeLinks || undefined })}
+          />
+          <Label htmlFor="drafts-resume-links" className="text-sm">
+            Offer "Save and continue later" with a resume link
+          </Label>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="drafts-expiry" className="text-sm">Discard drafts after (days)</Label>
+          <Input
+            id="drafts-expiry"
+            type="number"
+            min={1}
+            max={MAX_DRAFT_EXPIRY_DAYS}
+            className="w-32"
+            placeholder={String(DEFAULT_DRAFT_EXPIRY_DAYS)}
+            value={drafts?.expiryDays ?? ''}
+            onChange={(e) => {
+              const days = e.target.value === '' ? undefined : Math.round(Number(e.target.value));
+              update({ expiryDays: days === undefined ? undefined : Math.min(MAX_DRAFT_EXPIRY_DAYS, Math.max(1, days)) });
+            }}
+          />
+          <p className="text-xs text-muted-foreground">
+            Counted from the last save, up to {MAX_DRAFT_EXPIRY_DAYS} days
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,6 @@
-import { useState } from 'react';
-import { useForm } from 'react-hook-form';
+import { useEffect, useRef, useState } from 'react';
+import { get, useForm, type FieldErrors, type Resolver } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -9,74 +8,169 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { CloudinaryUploader } from './CloudinaryUploader';
-import { Loader2 } from 'lucide-react';
-import type { FormSchema, FormField } from '@/hooks/useForms';
+import { ScaleInput } from './ScaleInput';
+import { MatrixInput } from './MatrixInput';
+import { RepeatingGroup } from './RepeatingGroup';
+import { PhoneInput } from './PhoneInput';
+import { AddressInput } from './AddressInput';
+import { SignaturePad } from './SignaturePad';
+import { Loader2, ArrowLeft, ArrowRight, Lock, Save } from 'lucide-react';
+import { getVisibleFieldIds, getVisibleFields } from '@shared/formConditions';
+import { getFormPages } from '@/lib/formSections';
+import { clearLocalDraft, getRestorableValues, readLocalDraft, writeLocalDraft } from '@/lib/formDrafts';
+import { formatCurrency, getCurrencyCode, getCurrencyDigits } from '@shared/fieldFormats';
+import { applyCalculations, getHiddenFieldValue } from '@shared/fieldCalculations';
+import { buildZodSchema, getEmptyGroupEntry, getEmptyValue, getGroupLimits, getValidationHint } from '@shared/formValidation';
+import type { AddressValue, FormSchema, FormField, SignatureValue } from '@/hooks/useForms';
+
+// Groups start with their minimum number of entries, and at least one to fill in
+function createGroupEntries(field: FormField): Record<string, unknown>[] {
+  return Array.from({ length: Math.max(getGroupLimits(field).min, 1) }, () => getEmptyGroupEntry(field));
+}
+
+// File answers are upload URLs; restored ones are shown in the uploader again
+function getUploadedImages(fields: FormField[], values: Record<string, unknown>): Record<string, string> {
+  const images: Record<string, string> = {};
+  for (const field of fields) {
+    const value = values[field.id];
+    if (field.type === 'file' && typeof value === 'string' && value.startsWith('http')) images[field.id] = value;
+  }
+  return images;
+}
+
+function formatCalculatedValue(field: FormField, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') {
+    return field.currency ? formatCurrency(value, getCurrencyCode(field)) : value.toLocaleString();
+  }
+  return String(value);
+}
 
 interface DynamicFormRendererProps {
   schema: FormSchema;
   onSubmit: (data: Record<string, unknown>, imageUrls: string[]) => Promise<void>;
   isSubmitting?: boolean;
+  // Answers to start from, e.g. prefilled from the link; they replace the empty defaults
+  initialValues?: Record<string, unknown>;
+  // Fields shown read-only, typically the prefilled ones
+  lockedFieldIds?: Set<string>;
+  // Keeps in-progress answers in local storage under `key` and restores them on load
+  autosave?: { key: string; expiryDays: number };
+  // Shows a "save and continue later" action that hands the current answers to the caller
+  onSaveDraft?: (data: Record<string, unknown>) => Promise<void>;
+  isSavingDraft?: boolean;
 }
 
-export function DynamicFormRenderer({ schema, onSubmit, isSubmitting }: DynamicFormRendererProps) {
-  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+export function DynamicFormRenderer({
+  schema,
+  onSubmit,
+  isSubmitting,
+  initialValues,
+  lockedFieldIds,
+  autosave,
+  onSaveDraft,
+  isSavingDraft
+}: DynamicFormRendererProps) {
+  const [restoredDraft, setRestoredDraft] = useState(() => autosave ? readLocalDraft(autosave.key, autosave.expiryDays) : null);
+  const [baseValues] = useState(() => schema.fields.reduce((acc, field) => {
+    if (field.type === 'group') acc[field.id] = createGroupEntries(field);
+    else if (field.type === 'hidden') acc[field.id] = getHiddenFieldValue(field, window.location.search);
+    else acc[field.id] = getEmptyValue(field);
+    if (initialValues && field.id in initialValues) acc[field.id] = initialValues[field.id];
+    return acc;
+  }, {} as Record<string, unknown>));
+  // Restored answers never override locked fields, which must keep the value they were given
+  const [defaultValues] = useState(() => {
+    if (!restoredDraft) return baseValues;
+    const restored = getRestorableValues(schema.fields, restoredDraft);
+    lockedFieldIds?.forEach((fieldId) => delete restored[fieldId]);
+    return { ...baseValues, ...restored };
+  });
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>(() => getUploadedImages(schema.fields, defaultValues));
+  const [currentPageId, setCurrentPageId] = useState<string | null>(restoredDraft?.pageId ?? null);
+  const cardRef = useRef<HTMLDivElement>(null);
   
-  // Build dynamic zod schema
-  const buildZodSchema = (fields: FormField[]) => {
-    const schemaObj: Record<string, z.ZodTypeAny> = {};
-    
-    fields.forEach(field => {
-      let fieldSchema: z.ZodTypeAny;
-      
-      switch (field.type) {
-        case 'email':
-          fieldSchema = z.string().email('Invalid email address');
-          break;
-        case 'number':
-          fieldSchema = z.coerce.number();
-          break;
-        case 'checkbox':
-          fieldSchema = z.array(z.string()).optional();
-          break;
-        case 'file':
-          fieldSchema = z.string().optional();
-          break;
-        default:
-          fieldSchema = z.string();
-      }
-      
-      if (field.required && field.type !== 'checkbox' && field.type !== 'file') {
-        fieldSchema = fieldSchema.refine(val => val !== undefined && val !== '', {
-          message: `${field.label} is required`
-        });
-      }
-      
-      schemaObj[field.id] = fieldSchema;
+  // Validate only the fields that are visible for the values being checked
+  const resolver: Resolver<Record<string, unknown>> = (values, context, options) => {
+    const zodSchema = buildZodSchema(getVisibleFields(schema.fields, applyCalculations(schema.fields, values)));
+    return zodResolver(zodSchema)(values, context, options);
+  };
+  
+  const form = useForm({ resolver, defaultValues });
+
+  // Only edits are saved (not submit or validation state), a moment after typing pauses
+  const pageIdRef = useRef(currentPageId);
+  pageIdRef.current = currentPageId;
+  const autosaveKey = autosave?.key;
+  useEffect(() => {
+    if (!autosaveKey) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const subscription = form.watch((values, { name }) => {
+      if (!name) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => writeLocalDraft(autosaveKey, schema.fields, values, pageIdRef.current), 500);
     });
-    
-    return z.object(schemaObj);
+    return () => {
+      clearTimeout(timer);
+      subscription.unsubscribe();
+    };
+  }, [autosaveKey, form, schema.fields]);
+
+  const startOver = () => {
+    if (autosaveKey) clearLocalDraft(autosaveKey);
+    form.reset(baseValues);
+    setImageUrls(getUploadedImages(schema.fields, baseValues));
+    setCurrentPageId(null);
+    setRestoredDraft(null);
   };
 
-  const zodSchema = buildZodSchema(schema.fields);
-  
-  const form = useForm({
-    resolver: zodResolver(zodSchema),
-    defaultValues: schema.fields.reduce((acc, field) => {
-      acc[field.id] = field.type === 'checkbox' ? [] : '';
-      return acc;
-    }, {} as Record<string, unknown>)
-  });
+  // Calculated fields are recomputed on every change so conditions and the preview stay live
+  const values = applyCalculations(schema.fields, form.watch());
+  const valueOf = (name: string) => form.getValues(name);
+  const visibleIds = getVisibleFieldIds(schema.fields, values);
+
+  // Pages whose fields are all hidden by conditions are skipped entirely; hidden-type fields never show
+  const pages = getFormPages(schema)
+    .map(page => ({ ...page, fields: page.fields.filter(field => visibleIds.has(field.id) && field.type !== 'hidden') }))
+    .filter((page, index) => index === 0 || page.fields.length > 0);
+  const isMultiPage = pages.length > 1;
+  const pageIndex = Math.max(0, pages.findIndex(page => page.id === currentPageId));
+  const currentPage = pages[pageIndex];
+  const isLastPage = pageIndex === pages.length - 1;
+
+  const goToPage = (index: number) => {
+    setCurrentPageId(pages[index].id);
+    if (autosaveKey) writeLocalDraft(autosaveKey, schema.fields, form.getValues(), pages[index].id);
+    cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const handleNext = async () => {
+    const isPageValid = await form.trigger(currentPage.fields.map(field => field.id));
+    if (isPageValid) goToPage(pageIndex + 1);
+  };
+
+  // Send the respondent back to the first page that still has errors
+  const handleInvalid = (errors: FieldErrors) => {
+    const errorPage = pages.findIndex(page => page.fields.some(field => errors[field.id]));
+    if (errorPage !== -1 && errorPage !== pageIndex) goToPage(errorPage);
+  };
 
   const handleSubmit = async (data: Record<string, unknown>) => {
+    // Hidden fields are already stripped by the zod schema; drop their uploads too
+    const visibleIds = new Set(getVisibleFields(schema.fields, data).map(field => field.id));
+    const visibleImageUrls = Object.entries(imageUrls).filter(([fieldId]) => visibleIds.has(fieldId));
+
     // Merge image URLs into the data
-    const finalData = { ...data };
-    Object.entries(imageUrls).forEach(([fieldId, url]) => {
+    const finalData = applyCalculations(schema.fields, data);
+    visibleImageUrls.forEach(([fieldId, url]) => {
       finalData[fieldId] = url;
     });
     
-    await onSubmit(finalData, Object.values(imageUrls));
+    await onSubmit(finalData, visibleImageUrls.map(([, url]) => url));
   };
 
   const handleImageUpload = (fieldId: string, url: string) => {
@@ -84,17 +178,88 @@ export function DynamicFormRenderer({ schema, onSubmit, isSubmitting }: DynamicF
     form.setValue(fieldId, url);
   };
 
-  const renderField = (field: FormField) => {
+  const renderField = (field: FormField, name: string = field.id) => {
     switch (field.type) {
       case 'text':
       case 'email':
-      case 'number':
-      case 'date':
         return (
           <Input
             type={field.type}
             placeholder={field.placeholder}
-            {...form.register(field.id)}
+            {...form.register(name)}
+          />
+        );
+      
+      case 'number':
+        return (
+          <Input
+            type="number"
+            placeholder={field.placeholder}
+            min={field.validation?.min}
+            max={field.validation?.max}
+            {...form.register(name)}
+          />
+        );
+      
+      case 'url':
+        return (
+          <Input
+            type="url"
+            inputMode="url"
+            placeholder={field.placeholder || 'https://'}
+            {...form.register(name)}
+          />
+        );
+      
+      case 'phone':
+        return (
+          <PhoneInput
+            field={field}
+            value={(valueOf(name) as string) || ''}
+            onChange={(value) => form.setValue(name, value)}
+          />
+        );
+      
+      case 'currency': {
+        const code = getCurrencyCode(field);
+        const symbol = new Intl.NumberFormat(undefined, { style: 'currency', currency: code })
+          .formatToParts(0)
+          .find((part) => part.type === 'currency')?.value;
+        return (
+          <div className="relative">
+            <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+              {symbol}
+            </span>
+            <Input
+              type="number"
+              inputMode="decimal"
+              step={1 / 10 ** getCurrencyDigits(code)}
+              min={field.validation?.min}
+              max={field.validation?.max}
+              placeholder={field.placeholder}
+              className="pl-10"
+              {...form.register(name)}
+            />
+          </div>
+        );
+      }
+      
+      case 'time':
+      case 'datetime-local':
+        return (
+          <Input
+            type={field.type}
+            {...form.register(name)}
+          />
+        );
+      
+      case 'date':
+        return (
+          <Input
+            type="date"
+            min={field.validation?.minDate}
+            max={field.validation?.maxDate}
+            {...form.register(name)}
           />
         );
       
@@ -103,13 +268,16 @@ export function DynamicFormRenderer({ schema, onSubmit, isSubmitting }: DynamicF
           <Textarea
             placeholder={field.placeholder}
             rows={4}
-            {...form.register(field.id)}
+            {...form.register(name)}
           />
         );
       
       case 'select':
         return (
-          <Select onValueChange={(value) => form.setValue(field.id, value)}>
+          <Select
+            value={(valueOf(name) as string) || undefined}
+            onValueChange={(value) => form.setValue(name, value)}
+          >
             <SelectTrigger>
               <SelectValue placeholder={field.placeholder || 'Select an option'} />
             </SelectTrigger>
@@ -125,11 +293,14 @@ export function DynamicFormRenderer({ schema, onSubmit, isSubmitting }: DynamicF
       
       case 'radio':
         return (
-          <RadioGroup onValueChange={(value) => form.setValue(field.id, value)}>
+          <RadioGroup
+            value={(valueOf(name) as string) || ''}
+            onValueChange={(value) => form.setValue(name, value)}
+          >
             {field.options?.map((option) => (
               <div key={option} className="flex items-center space-x-2">
-                <RadioGroupItem value={option} id={`${field.id}-${option}`} />
-                <Label htmlFor={`${field.id}-${option}`}>{option}</Label>
+                <RadioGroupItem value={option} id={`${name}-${option}`} />
+                <Label htmlFor={`${name}-${option}`}>{option}</Label>
               </div>
             ))}
           </RadioGroup>
@@ -141,22 +312,82 @@ export function DynamicFormRenderer({ schema, onSubmit, isSubmitting }: DynamicF
             {field.options?.map((option) => (
               <div key={option} className="flex items-center space-x-2">
                 <Checkbox
-                  id={`${field.id}-${option}`}
+                  id={`${name}-${option}`}
+                  checked={((valueOf(name) as string[]) || []).includes(option)}
                   onCheckedChange={(checked) => {
-                    const current = form.getValues(field.id) as string[] || [];
+                    const current = form.getValues(name) as string[] || [];
                     if (checked) {
-                      form.setValue(field.id, [...current, option]);
+                      form.setValue(name, [...current, option]);
                     } else {
-                      form.setValue(field.id, current.filter(v => v !== option));
+                      form.setValue(name, current.filter(v => v !== option));
                     }
                   }}
                 />
-                <Label htmlFor={`${field.id}-${option}`}>{option}</Label>
+                <Label htmlFor={`${name}-${option}`}>{option}</Label>
               </div>
             ))}
           </div>
         );
       
+      case 'rating':
+      case 'scale':
+      case 'nps':
+        return (
+          <ScaleInput
+            field={field}
+            value={typeof valueOf(name) === 'number' ? (valueOf(name) as number) : undefined}
+            onChange={(value) => form.setValue(name, value)}
+          />
+        );
+      
+      case 'matrix':
+        return (
+          <MatrixInput
+            field={field}
+            value={(valueOf(name) as Record<string, string | string[]>) || {}}
+            onChange={(value) => form.setValue(name, value)}
+          />
+        );
+      
+      case 'address':
+        return (
+          <AddressInput
+            field={field}
+            name={name}
+            value={(valueOf(name) as AddressValue) || {}}
+            onChange={(value) => form.setValue(name, value)}
+          />
+        );
+      
+      case 'group':
+        return (
+          <RepeatingGroup
+            field={field}
+            control={form.control}
+            renderField={(child, childName) => renderFieldBlock(child, childName)}
+          />
+        );
+      
+      case 'signature':
+        return (
+          <SignaturePad
+            field={field}
+            value={(valueOf(name) as SignatureValue) || undefined}
+            onChange={(value) => form.setValue(name, value)}
+          />
+        );
+      
+      case 'calculated':
+        return (
+          <div
+            id={name}
+            aria-live="polite"
+            className="flex h-10 items-center rounded-md border bg-muted px-3 text-sm font-medium"
+          >
+            {formatCalculatedValue(field, values[field.id])}
+          </div>
+        );
+      
       case 'file':
         return (
           <CloudinaryUploader
@@ -167,7 +398,7 @@ export function DynamicFormRenderer({ schema, onSubmit, isSubmitting }: DynamicF
                 delete newUrls[field.id];
                 return newUrls;
               });
-              form.setValue(field.id, '');
+              form.setValue(name, '');
             }}
             currentImage={imageUrls[field.id]}
           />
@@ -178,47 +409,138 @@ export function DynamicFormRenderer({ schema, onSubmit, isSubmitting }: DynamicF
           <Input
             type="text"
             placeholder={field.placeholder}
-            {...form.register(field.id)}
+            {...form.register(name)}
           />
         );
     }
   };
 
+  // Label, input, hint and error for one field; group children pass their nested name
+  const renderFieldBlock = (field: FormField, name: string = field.id) => {
+    const error = get(form.formState.errors, name);
+    const message = error?.message ?? error?.root?.message;
+    const hint = getValidationHint(field);
+    const isLocked = lockedFieldIds?.has(name) ?? false;
+
+    return (
+      <div key={name} className="space-y-2">
+        <Label htmlFor={name}>
+          {field.label}
+          {field.required && <span className="text-destructive ml-1">*</span>}
+          {isLocked && <Lock className="ml-1 inline h-3 w-3 text-muted-foreground" aria-label="Prefilled" />}
+        </Label>
+        {/* A disabled fieldset blocks every control inside while react-hook-form keeps the value */}
+        {isLocked ? (
+          <fieldset disabled className="min-w-0">
+            {renderField(field, name)}
+          </fieldset>
+        ) : (
+          renderField(field, name)
+        )}
+        {hint && !message && (
+          <p className="text-xs text-muted-foreground">{hint}</p>
+        )}
+        {message && (
+          <p className="text-sm text-destructive">{message as string}</p>
+        )}
+      </div>
+    );
+  };
+
   return (
-    <Card className="w-full max-w-2xl mx-auto">
+    <Card ref={cardRef} className="w-full max-w-2xl mx-auto">
       <CardHeader>
         <CardTitle>{schema.title}</CardTitle>
         {schema.description && (
           <CardDescription>{schema.description}</CardDescription>
         )}
+        {isMultiPage && (
+          <div className="space-y-2 pt-4">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>Page {pageIndex + 1} of {pages.length}</span>
+              <span>{Math.round(((pageIndex + 1) / pages.length) * 100)}%</span>
+            </div>
+            <Progress value={((pageIndex + 1) / pages.length) * 100} className="h-2" />
+          </div>
+        )}
       </CardHeader>
       <CardContent>
-        <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
-          {schema.fields.map((field) => (
-            <div key={field.id} className="space-y-2">
-              <Label htmlFor={field.id}>
-                {field.label}
-                {field.required && <span className="text-destructive ml-1">*</span>}
-              </Label>
-              {renderField(field)}
-              {form.formState.errors[field.id] && (
-                <p className="text-sm text-destructive">
-                  {form.formState.errors[field.id]?.message as string}
-                </p>
+        {restoredDraft && (
+          <div className="mb-6 flex items-center justify-between gap-4 rounded-md border bg-muted/50 px-4 py-3 text-sm">
+            <span className="text-muted-foreground">
+              We restored the answers you started on {new Date(restoredDraft.savedAt).toLocaleString()}.
+            </span>
+            <Button type="button" variant="ghost" size="sm" onClick={startOver}>
+              Start over
+            </Button>
+          </div>
+        )}
+        <form
+          onSubmit={(e) => {
+            if (isLastPage) return form.handleSubmit(handleSubmit, handleInvalid)(e);
+            e.preventDefault();
+            handleNext();
+          }}
+          className="space-y-6"
+        >
+          {isMultiPage && currentPage.title && (
+            <div className="space-y-1 border-b pb-4">
+              <h3 className="text-lg font-semibold">{currentPage.title}</h3>
+              {currentPage.description && (
+                <p className="text-sm text-muted-foreground">{currentPage.description}</p>
               )}
             </div>
-          ))}
+          )}
+
+          {currentPage.fields.map((field) => renderFieldBlock(field))}
           
-          <Button type="submit" className="w-full" disabled={isSubmitting}>
-            {isSubmitting ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Submitting...
-              </>
+          <div className="flex gap-2">
+            {pageIndex > 0 && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => goToPage(pageIndex - 1)}
+                disabled={isSubmitting}
+              >
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back
+              </Button>
+            )}
+            {isLastPage ? (
+              <Button type="submit" className="flex-1" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Submitting...
+                  </>
+                ) : (
+                  'Submit'
+                )}
+              </Button>
             ) : (
-              'Submit'
+              <Button type="submit" className="flex-1">
+                Next
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
             )}
-          </Button>
+          </div>
+
+          {onSaveDraft && (
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={() => onSaveDraft(form.getValues())}
+              disabled={isSubmitting || isSavingDraft}
+            >
+              {isSavingDraft ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Save and continue later
+            </Button>
+          )}
         </form>
       </CardContent>
     </Card>
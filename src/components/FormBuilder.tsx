@@ -0,0 +1,64 @@
+import { SchemaEditor } from './SchemaEditor';
+import { DynamicFormRenderer } from './DynamicFormRenderer';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { Undo2, Redo2, Pencil, Eye } from 'lucide-react';
+import type { SchemaHistory } from '@/hooks/useSchemaHistory';
+
+interface FormBuilderProps {
+  history: SchemaHistory;
+}
+
+export function FormBuilder({ history }: FormBuilderProps) {
+  const { schema, setSchema, undo, redo, canUndo, canRedo } = history;
+
+  if (!schema) return null;
+
+  const handlePreviewSubmit = async () => {
+    toast({
+      title: 'Preview mode',
+      description: 'This is just a preview. Save the form to enable submissions.'
+    });
+  };
+
+  return (
+    <div className="grid gap-8 lg:grid-cols-2">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Pencil className="h-5 w-5 text-primary" />
+              Edit Fields
+            </CardTitle>
+            <CardDescription>Drag to reorder, or change any field's settings</CardDescription>
+          </div>
+          <div className="flex gap-1">
+            <Button variant="outline" size="icon" onClick={undo} disabled={!canUndo} aria-label="Undo">
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={redo} disabled={!canRedo} aria-label="Redo">
+              <Redo2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <SchemaEditor schema={schema} onChange={setSchema} />
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4 lg:sticky lg:top-8 lg:self-start">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Eye className="h-5 w-5" />
+          Live Preview
+        </h2>
+        {/* Remount when fields change shape so stale values don't leak into the preview */}
+        <DynamicFormRenderer
+          key={schema.fields.map((field) => `${field.id}:${field.type}`).join('|')}
+          schema={schema}
+          onSubmit={handlePreviewSubmit}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { splitMatches } from '@/lib/searchHighlight';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+export function HighlightedText({ text, terms }: HighlightedTextProps) {
+  return (
+    <>
+      {splitMatches(text, terms).map((part, i) =>
+        part.match ? (
+          <mark key={i} className="rounded-sm bg-yellow-200 px-0.5 text-foreground">
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,88 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { isMatrixRowRequired } from '@shared/formValidation';
+import type { FormField } from '@/hooks/useForms';
+
+type MatrixValue = Record<string, string | string[]>;
+
+interface MatrixInputProps {
+  field: FormField;
+  value: MatrixValue;
+  onChange: (value: MatrixValue) => void;
+}
+
+export function MatrixInput({ field, value, onChange }: MatrixInputProps) {
+  const { rows = [], columns = [], multiple } = field.matrix || {};
+
+  const setRow = (rowId: string, answer: string | string[]) => {
+    const next = { ...value };
+    if (answer.length === 0) delete next[rowId];
+    else next[rowId] = answer;
+    onChange(next);
+  };
+
+  const toggle = (rowId: string, column: string, checked: boolean) => {
+    const current = Array.isArray(value[rowId]) ? (value[rowId] as string[]) : [];
+    setRow(rowId, checked ? [...current, column] : current.filter((c) => c !== column));
+  };
+
+  return (
+    <div id={field.id} className="overflow-x-auto">
+      <div
+        className="grid items-center gap-x-2 text-sm min-w-max"
+        style={{ gridTemplateColumns: `minmax(8rem, 1fr) repeat(${columns.length}, minmax(4rem, auto))` }}
+      >
+        <div />
+        {columns.map((column) => (
+          <div key={column} className="px-1 text-center text-xs font-medium text-muted-foreground">
+            {column}
+          </div>
+        ))}
+
+        {rows.map((row) => {
+          const labelId = `${field.id}-${row.id}-label`;
+          const rowLabel = (
+            <div id={labelId} className="border-t py-2 pr-2">
+              {row.label}
+              {isMatrixRowRequired(field, row) && <span className="text-destructive ml-1">*</span>}
+            </div>
+          );
+
+          if (multiple) {
+            return (
+              <div key={row.id} role="group" aria-labelledby={labelId} className="contents">
+                {rowLabel}
+                {columns.map((column) => (
+                  <div key={column} className="flex justify-center border-t py-2">
+                    <Checkbox
+                      aria-label={`${row.label}: ${column}`}
+                      checked={Array.isArray(value[row.id]) && (value[row.id] as string[]).includes(column)}
+                      onCheckedChange={(checked) => toggle(row.id, column, checked === true)}
+                    />
+                  </div>
+                ))}
+              </div>
+            );
+          }
+
+          return (
+            <RadioGroup
+              key={row.id}
+              aria-labelledby={labelId}
+              value={typeof value[row.id] === 'string' ? (value[row.id] as string) : ''}
+              onValueChange={(answer) => setRow(row.id, answer)}
+              className="contents"
+            >
+              {rowLabel}
+              {columns.map((column) => (
+                <div key={column} className="flex justify-center border-t py-2">
+                  <RadioGroupItem value={column} aria-label={`${row.label}: ${column}`} />
+                </div>
+              ))}
+            </RadioGroup>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PHONE_COUNTRIES, findPhoneCountry } from '@/lib/phoneCountries';
+import type { FormField } from '@/hooks/useForms';
+
+interface PhoneInputProps {
+  field: FormField;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// The stored value is "+<dial code><number>"; the zod schema strips spacing before validating
+export function PhoneInput({ field, value, onChange }: PhoneInputProps) {
+  const [countryCode, setCountryCode] = useState(() => findPhoneCountry(value)?.code ?? PHONE_COUNTRIES[0].code);
+  const country = PHONE_COUNTRIES.find((c) => c.code === countryCode) ?? PHONE_COUNTRIES[0];
+  const national = value.startsWith(`+${country.dialCode}`) ? value.slice(country.dialCode.length + 1) : value;
+
+  // Typing a leading + overrides the picker so any country can be entered
+  const update = (number: string, dialCode = country.dialCode) => {
+    const trimmed = number.trimStart();
+    if (!trimmed) onChange('');
+    else onChange(trimmed.startsWith('+') ? trimmed : `+${dialCode}${trimmed}`);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={countryCode}
+        onValueChange={(code) => {
+          setCountryCode(code);
+          const next = PHONE_COUNTRIES.find((c) => c.code === code);
+          if (next && national) update(national, next.dialCode);
+        }}
+      >
+        <SelectTrigger className="w-28 shrink-0" aria-label="Country code">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PHONE_COUNTRIES.map((c) => (
+            <SelectItem key={c.code} value={c.code}>
+              {c.code} +{c.dialCode}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        id={field.id}
+        type="tel"
+        inputMode="tel"
+        autoComplete="tel-national"
+        placeholder={field.placeholder || 'Phone number'}
+        value={national}
+        onChange={(e) => update(e.target.value)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { canPrefill } from '@/lib/formPrefill';
+import { Copy, Link2 } from 'lucide-react';
+import type { FormSchema, PrefillSettings } from '@/hooks/useForms';
+
+interface PrefillSettingsCardProps {
+  formId: string;
+  schema: FormSchema;
+  prefill: PrefillSettings | undefined;
+  onChange: (prefill: PrefillSettings | undefined) => void;
+}
+
+export function PrefillSettingsCard({ formId, schema, prefill, onChange }: PrefillSettingsCardProps) {
+  const fields = schema.fields.filter(canPrefill);
+  const selected = new Set(prefill?.fields ?? []);
+  const selectedFields = fields.filter((field) => selected.has(field.id));
+
+  // Placeholders show where the CRM should insert each value
+  const exampleQuery = selectedFields.map((field) => `${field.id}={${field.id}}`).join('&');
+  const exampleUrl = `${window.location.origin}/form/${formId}${exampleQuery ? `?${exampleQuery}` : ''}`;
+
+  const toggleField = (fieldId: string, checked: boolean) => {
+    const next = fields
+      .map((field) => field.id)
+      .filter((id) => (id === fieldId ? checked : selected.has(id)));
+    onChange(next.length > 0 ? { ...prefill, fields: next } : undefined);
+  };
+
+  const copyExample = () => {
+    navigator.clipboard.writeText(exampleUrl);
+    toast({
+      title: 'Link copied!',
+      description: 'Replace each {placeholder} with the value to prefill.'
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5 text-primary" />
+          Prefill from Link
+        </CardTitle>
+        <CardDescription>
+          Fill in answers from query parameters named after the field id, e.g. when emailing the link from a CRM
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This form has no fields that can be prefilled.</p>
+        ) : (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {fields.map((field) => (
+              <div key={field.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`prefill-${field.id}`}
+                  checked={selected.has(field.id)}
+                  onCheckedChange={(checked) => toggleField(field.id, checked === true)}
+                />
+                <Label htmlFor={`prefill-${field.id}`} className="text-sm">
+                  {field.label} <span className="font-mono text-xs text-muted-foreground">{field.id}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="prefill-lock"
+            checked={!!prefill?.lock}
+            disabled={selectedFields.length === 0}
+            onCheckedChange={(lock) => prefill && onChange({ ...prefill, lock: lock || undefined })}
+          />
+          <Label htmlFor="prefill-lock" className="text-sm">Make prefilled fields read-only</Label>
+        </div>
+
+        {selectedFields.length > 0 && (
+          <div className="flex items-center gap-2">
+            <code className="flex-1 truncate rounded-md bg-muted px-3 py-2 text-xs">{exampleUrl}</code>
+            <Button variant="outline" size="icon" onClick={copyExample} aria-label="Copy example link">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
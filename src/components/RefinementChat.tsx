@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { useForms, type ConversationTurn, type FormRefinement, type FormSchema } from '@/hooks/useForms';
+import { SchemaChangeSummary } from './SchemaChangeSummary';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { applySchemaChanges } from '@shared/schemaDiff';
+import { Loader2, MessageSquare, Send, Check, X } from 'lucide-react';
+
+interface RefinementChatProps {
+  schema: FormSchema;
+  onApply: (schema: FormSchema) => void;
+}
+
+export function RefinementChat({ schema, onApply }: RefinementChatProps) {
+  const { refineFormWithAI } = useForms();
+  const [messages, setMessages] = useState<ConversationTurn[]>([]);
+  const [instruction, setInstruction] = useState('');
+  const [isRefining, setIsRefining] = useState(false);
+  const [proposal, setProposal] = useState<FormRefinement | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const handleSend = async () => {
+    const text = instruction.trim();
+    if (!text || isRefining) return;
+
+    setMessages(prev => [...prev, { role: 'user', content: text }]);
+    setInstruction('');
+    setProposal(null);
+    setIsRefining(true);
+
+    try {
+      const result = await refineFormWithAI(text, schema, messages);
+      let reply = result.changes.length > 0
+        ? result.summary || `Proposed ${result.changes.length} change${result.changes.length !== 1 ? 's' : ''}.`
+        : 'I could not find anything to change for that request.';
+      if (result.fixes.length > 0) {
+        reply += ` (Automatically fixed ${result.fixes.length} problem${result.fixes.length !== 1 ? 's' : ''} in the AI output.)`;
+      }
+
+      setMessages(prev => [...prev, { role: 'assistant', content: reply }]);
+      if (result.changes.length > 0) {
+        setProposal(result);
+        setSelected(new Set(result.changes.map((_, i) => i)));
+      }
+    } catch (error) {
+      console.error('Refinement error:', error);
+      setMessages(prev => prev.slice(0, -1));
+      setInstruction(text);
+      toast({
+        variant: 'destructive',
+        title: 'Refinement failed',
+        description: error instanceof Error ? error.message : 'Failed to refine form'
+      });
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  // Applied on top of the current schema so manual edits made meanwhile are kept
+  const handleApply = () => {
+    if (!proposal) return;
+
+    const accepted = proposal.changes.filter((_, i) => selected.has(i));
+    onApply(applySchemaChanges(schema, proposal.schema, accepted));
+    setMessages(prev => [
+      ...prev,
+      { role: 'assistant', content: `Applied ${accepted.length} of ${proposal.changes.length} changes.` }
+    ]);
+    setProposal(null);
+  };
+
+  const toggleChange = (index: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5 text-primary" />
+          Refine with AI
+        </CardTitle>
+        <CardDescription>
+          Ask for changes like "make phone optional and add a T-shirt size dropdown"
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {messages.length > 0 && (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {messages.map((message, i) => (
+              <div
+                key={i}
+                className={cn(
+                  'rounded-lg px-3 py-2 text-sm max-w-[85%]',
+                  message.role === 'user' ? 'ml-auto bg-primary text-primary-foreground' : 'bg-muted'
+                )}
+              >
+                {message.content}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {proposal && (
+          <div className="space-y-3 rounded-lg border p-3">
+            <p className="text-sm font-medium">Choose which changes to keep</p>
+            {proposal.changes.map((change, i) => (
+              <div key={i} className="flex items-start gap-3">
+                <Checkbox
+                  id={`change-${i}`}
+                  checked={selected.has(i)}
+                  onCheckedChange={(checked) => toggleChange(i, checked === true)}
+                  className="mt-0.5"
+                />
+                <label htmlFor={`change-${i}`} className="cursor-pointer">
+                  <SchemaChangeSummary change={change} />
+                </label>
+              </div>
+            ))}
+            <div className="flex gap-2 pt-1">
+              <Button size="sm" onClick={handleApply} disabled={selected.size === 0}>
+                <Check className="mr-2 h-4 w-4" />
+                Apply {selected.size} change{selected.size !== 1 ? 's' : ''}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setProposal(null)}>
+                <X className="mr-2 h-4 w-4" />
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Textarea
+            placeholder="Describe what to change..."
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            rows={2}
+            className="resize-none"
+          />
+          <Button
+            size="icon"
+            className="shrink-0 self-end"
+            onClick={handleSend}
+            disabled={isRefining || !instruction.trim()}
+            aria-label="Send"
+          >
+            {isRefining ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,50 @@
+import { useFieldArray, type Control } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2 } from 'lucide-react';
+import { getEmptyGroupEntry, getGroupLimits } from '@shared/formValidation';
+import type { FormField } from '@/hooks/useForms';
+
+interface RepeatingGroupProps {
+  field: FormField;
+  control: Control<Record<string, unknown>>;
+  renderField: (child: FormField, name: string) => React.ReactNode;
+}
+
+export function RepeatingGroup({ field, control, renderField }: RepeatingGroupProps) {
+  // useFieldArray keys entries by a stable id, so removing one keeps the others' inputs in place
+  const { fields: entries, append, remove } = useFieldArray({ control, name: field.id as never });
+  const { min, max } = getGroupLimits(field);
+  const itemLabel = field.group?.itemLabel || 'Entry';
+
+  return (
+    <div id={field.id} className="space-y-3">
+      {entries.map((entry, index) => (
+        <div key={entry.id} className="rounded-lg border p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-muted-foreground">
+              {itemLabel} {index + 1}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-8 text-muted-foreground"
+              onClick={() => remove(index)}
+              disabled={entries.length <= Math.max(min, 1)}
+            >
+              <Trash2 className="mr-1 h-4 w-4" />
+              Remove
+            </Button>
+          </div>
+          {(field.group?.fields || []).map((child) => renderField(child, `${field.id}.${index}.${child.id}`))}
+        </div>
+      ))}
+      {(max === undefined || entries.length < max) && (
+        <Button type="button" variant="outline" size="sm" onClick={() => append(getEmptyGroupEntry(field) as never)}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add {itemLabel.toLowerCase()}
+        </Button>
+      )}
+    </div>
+  );
+}
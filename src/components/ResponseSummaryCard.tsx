@@ -0,0 +1,104 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2, RefreshCw, Sparkles } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useResponseSummary, type Sentiment } from '@/hooks/useResponseSummary';
+
+const SENTIMENT_BADGES: Record<Sentiment, BadgeProps['variant']> = {
+  positive: 'default',
+  mixed: 'secondary',
+  neutral: 'outline',
+  negative: 'destructive'
+};
+
+interface ResponseSummaryCardProps {
+  formId: string;
+  // Current number of submissions, to flag a summary that predates newer ones
+  submissionCount: number;
+}
+
+export function ResponseSummaryCard({ formId, submissionCount }: ResponseSummaryCardProps) {
+  const { summary, isLoading, refreshSummary } = useResponseSummary(formId);
+  const newResponses = summary ? submissionCount - summary.submission_count : 0;
+
+  const handleRefresh = () => {
+    refreshSummary.mutate(undefined, {
+      onError: (error) => {
+        toast({
+          title: 'Summary failed',
+          description: error instanceof Error ? error.message : 'Could not summarize responses',
+          variant: 'destructive'
+        });
+      }
+    });
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  const digest = summary?.summary;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0 pb-3">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center text-base">
+            <Sparkles className="mr-2 h-4 w-4 text-primary" />
+            AI summary
+            {digest && (
+              <Badge variant={SENTIMENT_BADGES[digest.sentiment.overall]} className="ml-2 capitalize">
+                {digest.sentiment.overall}
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            {summary
+              ? `Generated ${formatDistanceToNow(new Date(summary.generated_at), { addSuffix: true })} from ${summary.submission_count} response${summary.submission_count !== 1 ? 's' : ''}`
+              : 'A one-paragraph digest of key findings, sentiment and outliers'}
+            {newResponses > 0 && ` · ${newResponses} new since`}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleRefresh} disabled={refreshSummary.isPending}>
+          {refreshSummary.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : summary ? (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          ) : (
+            <Sparkles className="mr-2 h-4 w-4" />
+          )}
+          {summary ? 'Refresh' : 'Summarize'}
+        </Button>
+      </CardHeader>
+      {digest && (
+        <CardContent className="space-y-4 text-sm">
+          <p>{digest.summary}</p>
+          {digest.sentiment.explanation && (
+            <p className="text-muted-foreground">{digest.sentiment.explanation}</p>
+          )}
+          <div className="grid gap-4 md:grid-cols-2">
+            {digest.keyFindings.length > 0 && (
+              <div>
+                <p className="mb-1 font-medium">Key findings</p>
+                <ul className="list-disc space-y-1 pl-5 text-muted-foreground">
+                  {digest.keyFindings.map((finding, i) => <li key={i}>{finding}</li>)}
+                </ul>
+              </div>
+            )}
+            {digest.outliers.length > 0 && (
+              <div>
+                <p className="mb-1 font-medium">Notable outliers</p>
+                <ul className="list-disc space-y-1 pl-5 text-muted-foreground">
+                  {digest.outliers.map((outlier, i) => <li key={i}>{outlier}</li>)}
+                </ul>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
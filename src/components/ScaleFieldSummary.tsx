@@ -0,0 +1,56 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import type { ScaleSummary } from '@/lib/scaleStats';
+
+interface ScaleFieldSummaryProps {
+  summary: ScaleSummary;
+}
+
+export function ScaleFieldSummary({ summary }: ScaleFieldSummaryProps) {
+  const { field, responseCount, average, distribution, nps } = summary;
+  const maxValue = distribution[distribution.length - 1]?.value;
+  const percent = (count: number) => (responseCount > 0 ? Math.round((count / responseCount) * 100) : 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{field.label}</CardTitle>
+        <CardDescription>
+          {responseCount} answer{responseCount !== 1 ? 's' : ''}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {responseCount === 0 ? (
+          <p className="text-sm text-muted-foreground">No answers yet.</p>
+        ) : nps ? (
+          <div>
+            <p className="text-3xl font-bold">{nps.score > 0 ? `+${nps.score}` : nps.score}</p>
+            <p className="text-sm text-muted-foreground">
+              NPS · {percent(nps.promoters)}% promoters, {percent(nps.passives)}% passives, {percent(nps.detractors)}% detractors
+            </p>
+          </div>
+        ) : (
+          <div>
+            <p className="text-3xl font-bold">
+              {average?.toFixed(1)}
+              <span className="text-base font-normal text-muted-foreground"> / {maxValue}</span>
+            </p>
+            <p className="text-sm text-muted-foreground">Average</p>
+          </div>
+        )}
+
+        {responseCount > 0 && (
+          <div className="space-y-1">
+            {distribution.map(({ value, count }) => (
+              <div key={value} className="flex items-center gap-2 text-xs">
+                <span className="w-5 text-right text-muted-foreground">{value}</span>
+                <Progress value={percent(count)} className="h-2 flex-1" />
+                <span className="w-8 text-muted-foreground">{count}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
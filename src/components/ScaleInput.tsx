@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getScaleRange } from '@shared/fieldScales';
+import type { FormField } from '@/hooks/useForms';
+
+interface ScaleInputProps {
+  field: FormField;
+  value: number | undefined;
+  onChange: (value: number) => void;
+}
+
+export function ScaleInput({ field, value, onChange }: ScaleInputProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const { min, max, minLabel, maxLabel } = getScaleRange(field);
+  const points = Array.from({ length: max - min + 1 }, (_, i) => min + i);
+
+  const labels = (minLabel || maxLabel) && (
+    <div className="flex justify-between gap-4 text-xs text-muted-foreground">
+      <span>{minLabel}</span>
+      <span className="text-right">{maxLabel}</span>
+    </div>
+  );
+
+  if (field.type === 'rating') {
+    const shown = hovered ?? value ?? 0;
+    return (
+      <div className="space-y-1">
+        <div id={field.id} role="radiogroup" className="flex gap-1" onMouseLeave={() => setHovered(null)}>
+          {points.map((point) => (
+            <button
+              key={point}
+              type="button"
+              role="radio"
+              aria-checked={value === point}
+              aria-label={`${point} of ${max}`}
+              onClick={() => onChange(point)}
+              onMouseEnter={() => setHovered(point)}
+              className="rounded p-0.5 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              <Star
+                className={cn(
+                  'h-7 w-7 transition-colors',
+                  point <= shown ? 'fill-primary text-primary' : 'text-muted-foreground'
+                )}
+              />
+            </button>
+          ))}
+        </div>
+        {labels}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div id={field.id} role="radiogroup" className="flex flex-wrap gap-1">
+        {points.map((point) => (
+          <button
+            key={point}
+            type="button"
+            role="radio"
+            aria-checked={value === point}
+            onClick={() => onChange(point)}
+            className={cn(
+              'h-9 min-w-9 flex-1 rounded-md border text-sm font-medium transition-colors',
+              'focus:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+              value === point
+                ? 'border-primary bg-primary text-primary-foreground'
+                : 'border-input bg-background hover:bg-accent hover:text-accent-foreground'
+            )}
+          >
+            {point}
+          </button>
+        ))}
+      </div>
+      {labels}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { Badge } from '@/components/ui/badge';
+import type { SchemaChange, SchemaChangeKind } from '@shared/schemaDiff';
+
+const CHANGE_BADGES: Record<SchemaChangeKind, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  added: { label: 'Added', variant: 'default' },
+  removed: { label: 'Removed', variant: 'destructive' },
+  modified: { label: 'Changed', variant: 'secondary' },
+  reordered: { label: 'Moved', variant: 'outline' }
+};
+
+interface SchemaChangeSummaryProps {
+  change: SchemaChange;
+}
+
+export function SchemaChangeSummary({ change }: SchemaChangeSummaryProps) {
+  return (
+    <div className="flex items-start gap-3">
+      <Badge variant={CHANGE_BADGES[change.kind].variant} className="shrink-0">
+        {CHANGE_BADGES[change.kind].label}
+      </Badge>
+      <div>
+        <p className="font-medium text-sm">
+          {change.label}
+          {change.fieldId && (
+            <span className="text-muted-foreground font-normal"> ({change.fieldId})</span>
+          )}
+        </p>
+        {change.details.map((detail, i) => (
+          <p key={i} className="text-sm text-muted-foreground">{detail}</p>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,677 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GripVertical, Plus, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  FIELD_TYPES,
+  GROUP_CHILD_TYPES,
+  OPTION_FIELD_TYPES,
+  addField,
+  assignFieldToSection,
+  changeFieldType,
+  createUniqueFieldId,
+  findExpressionProblem,
+  moveField,
+  removeField,
+  updateField
+} from '@/lib/schemaEditing';
+import { getScaleRange, isScaleField } from '@shared/fieldScales';
+import { getCurrencyCode } from '@shared/fieldFormats';
+import { EXPRESSION_FUNCTIONS } from '@shared/expressions';
+import { ADDRESS_COUNTRIES, ADDRESS_PARTS, ADDRESS_PART_LABELS, getRequiredAddressParts } from '@shared/addressFormats';
+import type { AddressSettings, FormSchema, FormField, GroupSettings, HiddenSettings, MatrixRow, MatrixSettings, ScaleSettings } from '@/hooks/useForms';
+
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'JPY', 'CHF', 'CNY', 'INR', 'SGD', 'BRL', 'MXN', 'SEK', 'NOK', 'DKK', 'ZAR'];
+
+// Types whose inputs have no placeholder text to edit
+const NO_PLACEHOLDER_TYPES: FormField['type'][] = ['file', 'checkbox', 'radio', 'matrix', 'group', 'time', 'datetime-local', 'address', 'signature', 'hidden', 'calculated'];
+
+type FieldUpdater = (updates: Partial<FormField>, coalesceKey?: string) => void;
+
+interface SchemaEditorProps {
+  schema: FormSchema;
+  onChange: (schema: FormSchema, coalesceKey?: string) => void;
+}
+
+export function SchemaEditor({ schema, onChange }: SchemaEditorProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  // Only the grip makes a row draggable, so text inside the inputs stays selectable
+  const [armedIndex, setArmedIndex] = useState<number | null>(null);
+
+  const handleDrop = (toIndex: number) => {
+    if (dragIndex !== null) onChange(moveField(schema, dragIndex, toIndex));
+    setDragIndex(null);
+    setDragOverIndex(null);
+    setArmedIndex(null);
+  };
+
+  const handleGripKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (e.key === 'ArrowUp' && index > 0) {
+      e.preventDefault();
+      onChange(moveField(schema, index, index - 1));
+    } else if (e.key === 'ArrowDown' && index < schema.fields.length - 1) {
+      e.preventDefault();
+      onChange(moveField(schema, index, index + 1));
+    }
+  };
+
+  const sectionOf = (fieldId: string) =>
+    schema.sections?.find((section) => section.fields.includes(fieldId))?.id ?? schema.sections?.[schema.sections.length - 1]?.id;
+
+  const updaterFor = (fieldId: string): FieldUpdater => (updates, coalesceKey) =>
+    onChange(updateField(schema, fieldId, updates), coalesceKey);
+
+  const renderOptions = (field: FormField, update: FieldUpdater) => {
+    const options = field.options || [];
+    const setOptions = (next: string[], coalesceKey?: string) => update({ options: next }, coalesceKey);
+
+    return (
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Options</Label>
+        {options.map((option, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <Input
+              value={option}
+              onChange={(e) => setOptions(options.map((o, j) => (j === i ? e.target.value : o)), `${field.id}.options.${i}`)}
+              className="h-8"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => setOptions(options.filter((_, j) => j !== i))}
+              disabled={options.length <= 1}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setOptions([...options, `Option ${options.length + 1}`])}
+        >
+          <Plus className="mr-1 h-3 w-3" />
+          Add option
+        </Button>
+      </div>
+    );
+  };
+
+  const renderScale = (field: FormField, update: FieldUpdater) => {
+    const range = getScaleRange(field);
+    const setScale = (updates: Partial<ScaleSettings>, coalesceKey?: string) =>
+      update({ scale: { ...field.scale, ...updates } }, coalesceKey);
+
+    return (
+      <div className="grid grid-cols-2 gap-2">
+        {field.type !== 'nps' && (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">From</Label>
+              {field.type === 'scale' ? (
+                <Select value={String(range.min)} onValueChange={(min) => setScale({ min: Number(min) })}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">0</SelectItem>
+                    <SelectItem value="1">1</SelectItem>
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input value={range.min} disabled className="h-8" />
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">To</Label>
+              <Select value={String(range.max)} onValueChange={(max) => setScale({ max: Number(max) })}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: field.type === 'rating' ? 8 : 9 }, (_, i) => (field.type === 'rating' ? 3 : 2) + i).map((max) => (
+                    <SelectItem key={max} value={String(max)}>
+                      {max}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+        <Input
+          value={field.scale?.minLabel || ''}
+          onChange={(e) => setScale({ minLabel: e.target.value || undefined }, `${field.id}.scale.minLabel`)}
+          placeholder={range.minLabel || 'Low end label'}
+          className="h-8"
+        />
+        <Input
+          value={field.scale?.maxLabel || ''}
+          onChange={(e) => setScale({ maxLabel: e.target.value || undefined }, `${field.id}.scale.maxLabel`)}
+          placeholder={range.maxLabel || 'High end label'}
+          className="h-8"
+        />
+      </div>
+    );
+  };
+
+  const renderMatrix = (field: FormField, update: FieldUpdater) => {
+    const matrix: MatrixSettings = field.matrix || { rows: [], columns: [] };
+    const setMatrix = (updates: Partial<MatrixSettings>, coalesceKey?: string) =>
+      update({ matrix: { ...matrix, ...updates } }, coalesceKey);
+    const setRow = (rowId: string, updates: Partial<MatrixRow>, coalesceKey?: string) =>
+      setMatrix({ rows: matrix.rows.map((row) => (row.id === rowId ? { ...row, ...updates } : row)) }, coalesceKey);
+    const addRow = () => {
+      const label = `Statement ${matrix.rows.length + 1}`;
+      const id = createUniqueFieldId(label, matrix.rows.map((row) => row.id));
+      setMatrix({ rows: [...matrix.rows, { id, label }] });
+    };
+
+    return (
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Rows</Label>
+          {matrix.rows.map((row) => (
+            <div key={row.id} className="flex items-center gap-2">
+              <Input
+                value={row.label}
+                onChange={(e) => setRow(row.id, { label: e.target.value }, `${field.id}.matrix.${row.id}`)}
+                className="h-8"
+              />
+              <Checkbox
+                aria-label={`${row.label} required`}
+                title="Required"
+                checked={row.required ?? field.required}
+                onCheckedChange={(checked) => setRow(row.id, { required: checked === true })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => setMatrix({ rows: matrix.rows.filter((r) => r.id !== row.id) })}
+                disabled={matrix.rows.length <= 1}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button type="button" variant="outline" size="sm" onClick={addRow}>
+            <Plus className="mr-1 h-3 w-3" />
+            Add row
+          </Button>
+        </div>
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Columns</Label>
+          {matrix.columns.map((column, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <Input
+                value={column}
+                onChange={(e) =>
+                  setMatrix({ columns: matrix.columns.map((c, j) => (j === i ? e.target.value : c)) }, `${field.id}.matrix.columns.${i}`)
+                }
+                className="h-8"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => setMatrix({ columns: matrix.columns.filter((_, j) => j !== i) })}
+                disabled={matrix.columns.length <= 1}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setMatrix({ columns: [...matrix.columns, `Column ${matrix.columns.length + 1}`] })}
+          >
+            <Plus className="mr-1 h-3 w-3" />
+            Add column
+          </Button>
+          <div className="flex items-center gap-2 pt-1">
+            <Switch
+              id={`${field.id}-multiple`}
+              checked={!!matrix.multiple}
+              onCheckedChange={(multiple) => setMatrix({ multiple: multiple || undefined })}
+            />
+            <Label htmlFor={`${field.id}-multiple`} className="text-sm">Allow several per row</Label>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderAddress = (field: FormField, update: FieldUpdater) => {
+    const requiredParts = getRequiredAddressParts(field);
+    const setAddress = (updates: Partial<AddressSettings>) => update({ address: { ...field.address, ...updates } });
+
+    return (
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Required parts</Label>
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {ADDRESS_PARTS.map((part) => (
+            <div key={part} className="flex items-center gap-2">
+              <Checkbox
+                id={`${field.id}-address-${part}`}
+                checked={requiredParts.includes(part)}
+                onCheckedChange={(checked) =>
+                  setAddress({
+                    requiredParts: ADDRESS_PARTS.filter((p) => (p === part ? checked === true : requiredParts.includes(p)))
+                  })
+                }
+              />
+              <Label htmlFor={`${field.id}-address-${part}`} className="text-sm font-normal">
+                {ADDRESS_PART_LABELS[part]}
+              </Label>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Label className="text-xs text-muted-foreground">Default country</Label>
+          <Select
+            value={field.address?.defaultCountry || 'none'}
+            onValueChange={(code) => setAddress({ defaultCountry: code === 'none' ? undefined : code })}
+          >
+            <SelectTrigger className="h-8 w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              {ADDRESS_COUNTRIES.map((country) => (
+                <SelectItem key={country.code} value={country.code}>
+                  {country.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    );
+  };
+
+  const renderHidden = (field: FormField, update: FieldUpdater) => {
+    const setHidden = (updates: Partial<HiddenSettings>, coalesceKey: string) =>
+      update({ hidden: { ...field.hidden, ...updates } }, coalesceKey);
+
+    return (
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">URL parameter</Label>
+          <Input
+            value={field.hidden?.param || ''}
+            onChange={(e) => setHidden({ param: e.target.value || undefined }, `${field.id}.hidden.param`)}
+            placeholder={field.id}
+            className="h-8"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Default value</Label>
+          <Input
+            value={field.hidden?.defaultValue || ''}
+            onChange={(e) => setHidden({ defaultValue: e.target.value || undefined }, `${field.id}.hidden.defaultValue`)}
+            placeholder="Used when the parameter is missing"
+            className="h-8"
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const renderCalculation = (field: FormField, update: FieldUpdater) => {
+    const calculation = field.calculation || { expression: '' };
+    const error = findExpressionProblem(field, schema.fields);
+
+    return (
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Expression</Label>
+        <Textarea
+          value={calculation.expression}
+          onChange={(e) => update({ calculation: { ...calculation, expression: e.target.value } }, `${field.id}.calculation`)}
+          placeholder="price * quantity"
+          rows={2}
+          className={cn('font-mono text-sm resize-none', error && 'border-destructive')}
+        />
+        {error ? (
+          <p className="text-xs text-destructive">{error}</p>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Use field ids with + - * / %, comparisons, <code>cond ? a : b</code> and {EXPRESSION_FUNCTIONS.join(', ')}.
+          </p>
+        )}
+        <div className="flex items-center gap-2">
+          <Label className="text-xs text-muted-foreground">Decimals</Label>
+          <Select
+            value={String(calculation.decimals ?? 2)}
+            onValueChange={(decimals) => update({ calculation: { ...calculation, decimals: Number(decimals) } })}
+          >
+            <SelectTrigger className="h-8 w-16">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[0, 1, 2, 3, 4].map((decimals) => (
+                <SelectItem key={decimals} value={String(decimals)}>
+                  {decimals}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Label className="text-xs text-muted-foreground ml-2">Show as</Label>
+          <Select
+            value={field.currency || 'number'}
+            onValueChange={(currency) => update({ currency: currency === 'number' ? undefined : currency })}
+          >
+            <SelectTrigger className="h-8 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="number">Number</SelectItem>
+              {CURRENCIES.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    );
+  };
+
+  const renderTypeSettings = (field: FormField, update: FieldUpdater) => (
+    <>
+      {OPTION_FIELD_TYPES.includes(field.type) && renderOptions(field, update)}
+      {isScaleField(field) && renderScale(field, update)}
+      {field.type === 'matrix' && renderMatrix(field, update)}
+      {field.type === 'address' && renderAddress(field, update)}
+      {field.type === 'hidden' && renderHidden(field, update)}
+      {field.type === 'calculated' && renderCalculation(field, update)}
+      {field.type === 'currency' && (
+        <div className="flex items-center gap-2">
+          <Label className="text-xs text-muted-foreground">Currency</Label>
+          <Select value={getCurrencyCode(field)} onValueChange={(currency) => update({ currency })}>
+            <SelectTrigger className="h-8 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from(new Set([getCurrencyCode(field), ...CURRENCIES])).map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </>
+  );
+
+  const renderGroup = (field: FormField) => {
+    const group: GroupSettings = field.group || { fields: [] };
+    const setGroup = (updates: Partial<GroupSettings>, coalesceKey?: string) =>
+      onChange(updateField(schema, field.id, { group: { ...group, ...updates } }), coalesceKey);
+    // Children reuse the top-level helpers by treating the group as a schema of its own
+    const asSchema = { ...schema, fields: group.fields, sections: undefined };
+    const setChildren = (next: FormSchema, coalesceKey?: string) => setGroup({ fields: next.fields }, coalesceKey);
+    const childUpdater = (childId: string): FieldUpdater => (updates, coalesceKey) =>
+      setChildren(updateField(asSchema, childId, updates), coalesceKey);
+    const parseLimit = (value: string) => (value === '' ? undefined : Math.max(0, Math.floor(Number(value))));
+
+    return (
+      <div className="space-y-3 rounded-md bg-muted/40 p-3">
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Entry name</Label>
+            <Input
+              value={group.itemLabel || ''}
+              onChange={(e) => setGroup({ itemLabel: e.target.value || undefined }, `${field.id}.group.itemLabel`)}
+              placeholder="Entry"
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Min entries</Label>
+            <Input
+              type="number"
+              min={0}
+              value={group.minItems ?? ''}
+              onChange={(e) => setGroup({ minItems: parseLimit(e.target.value) }, `${field.id}.group.minItems`)}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Max entries</Label>
+            <Input
+              type="number"
+              min={1}
+              value={group.maxItems ?? ''}
+              onChange={(e) => setGroup({ maxItems: parseLimit(e.target.value) || undefined }, `${field.id}.group.maxItems`)}
+              className="h-8"
+            />
+          </div>
+        </div>
+
+        <Label className="text-xs text-muted-foreground">Fields in each entry</Label>
+        {group.fields.map((child) => (
+          <div key={child.id} className="rounded-md border bg-card p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Input
+                value={child.label}
+                onChange={(e) => childUpdater(child.id)({ label: e.target.value }, `${field.id}.${child.id}.label`)}
+                placeholder="Field label"
+                className="h-8 flex-1"
+              />
+              <Select
+                value={child.type}
+                onValueChange={(type) => setChildren(changeFieldType(asSchema, child.id, type as FormField['type']))}
+              >
+                <SelectTrigger className="h-8 w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GROUP_CHILD_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Checkbox
+                aria-label={`${child.label} required`}
+                title="Required"
+                checked={child.required}
+                onCheckedChange={(checked) => childUpdater(child.id)({ required: checked === true })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => setChildren(removeField(asSchema, child.id))}
+                disabled={group.fields.length <= 1}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            {renderTypeSettings(child, childUpdater(child.id))}
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={() => setChildren(addField(asSchema))}>
+          <Plus className="mr-1 h-3 w-3" />
+          Add field to group
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="schema-title">Title</Label>
+          <Input
+            id="schema-title"
+            value={schema.title}
+            onChange={(e) => onChange({ ...schema, title: e.target.value }, 'title')}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="schema-description">Description</Label>
+          <Textarea
+            id="schema-description"
+            value={schema.description}
+            onChange={(e) => onChange({ ...schema, description: e.target.value }, 'description')}
+            rows={2}
+            className="resize-none"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {schema.fields.map((field, index) => (
+          <div
+            key={field.id}
+            draggable={armedIndex === index}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDragIndex(index);
+            }}
+            onDragOver={(e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              setDragOverIndex(index);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(index);
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDragOverIndex(null);
+              setArmedIndex(null);
+            }}
+            className={cn(
+              'rounded-lg border bg-card p-4 space-y-3 transition-colors',
+              dragIndex === index && 'opacity-50',
+              dragOverIndex === index && dragIndex !== index && 'border-primary'
+            )}
+          >
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                aria-label={`Reorder ${field.label}`}
+                className="cursor-grab text-muted-foreground hover:text-foreground active:cursor-grabbing"
+                onMouseDown={() => setArmedIndex(index)}
+                onMouseUp={() => setArmedIndex(null)}
+                onKeyDown={(e) => handleGripKeyDown(e, index)}
+              >
+                <GripVertical className="h-5 w-5" />
+              </button>
+              <Input
+                value={field.label}
+                onChange={(e) => onChange(updateField(schema, field.id, { label: e.target.value }), `${field.id}.label`)}
+                placeholder="Field label"
+                className="flex-1"
+              />
+              <Select
+                value={field.type}
+                onValueChange={(type) => onChange(changeFieldType(schema, field.id, type as FormField['type']))}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FIELD_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="text-destructive shrink-0"
+                onClick={() => onChange(removeField(schema, field.id))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-4">
+              {!NO_PLACEHOLDER_TYPES.includes(field.type) && !isScaleField(field) && (
+                <Input
+                  value={field.placeholder || ''}
+                  onChange={(e) =>
+                    onChange(updateField(schema, field.id, { placeholder: e.target.value || undefined }), `${field.id}.placeholder`)
+                  }
+                  placeholder="Placeholder (optional)"
+                  className="flex-1 h-8"
+                />
+              )}
+              <div className="flex items-center gap-2 ml-auto">
+                <Switch
+                  id={`${field.id}-required`}
+                  checked={field.required}
+                  onCheckedChange={(required) => onChange(updateField(schema, field.id, { required }))}
+                />
+                <Label htmlFor={`${field.id}-required`} className="text-sm">Required</Label>
+              </div>
+            </div>
+
+            {schema.sections && schema.sections.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Label className="text-xs text-muted-foreground">Page</Label>
+                <Select
+                  value={sectionOf(field.id)}
+                  onValueChange={(sectionId) => onChange(assignFieldToSection(schema, field.id, sectionId))}
+                >
+                  <SelectTrigger className="h-8 flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {schema.sections.map((section) => (
+                      <SelectItem key={section.id} value={section.id}>
+                        {section.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {renderTypeSettings(field, updaterFor(field.id))}
+            {field.type === 'group' && renderGroup(field)}
+
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>id: {field.id}</span>
+              {field.visibleWhen && <Badge variant="secondary">Conditional</Badge>}
+              {field.validation && <Badge variant="secondary">Validated</Badge>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Button type="button" variant="outline" className="w-full" onClick={() => onChange(addField(schema))}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Field
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Eraser, Loader2, PenLine, Redo2, Undo2 } from 'lucide-react';
+import { uploadToCloudinary } from '@/lib/cloudinary';
+import type { FormField, SignatureValue } from '@/hooks/useForms';
+
+type Point = { x: number; y: number };
+type Stroke = Point[];
+
+interface SignaturePadProps {
+  field: FormField;
+  value: SignatureValue | undefined;
+  onChange: (value: SignatureValue | '') => void;
+}
+
+const PAD_HEIGHT = 160;
+
+export function SignaturePad({ field, value, onChange }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef<Stroke | null>(null);
+  const [strokes, setStrokes] = useState<Stroke[]>([]);
+  const [undone, setUndone] = useState<Stroke[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Strokes are kept in CSS pixels and redrawn at the device pixel ratio
+  const redraw = useCallback((extra?: Stroke) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const ratio = window.devicePixelRatio || 1;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = getComputedStyle(canvas).color;
+    for (const stroke of extra ? [...strokes, extra] : strokes) {
+      ctx.beginPath();
+      stroke.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+      if (stroke.length === 1) ctx.lineTo(stroke[0].x + 0.1, stroke[0].y);
+      ctx.stroke();
+    }
+  }, [strokes]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const resize = () => {
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = canvas.clientWidth * ratio;
+      canvas.height = PAD_HEIGHT * ratio;
+      redraw();
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [redraw, value]);
+
+  const pointFrom = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = [pointFrom(e)];
+    redraw(drawingRef.current);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current.push(pointFrom(e));
+    redraw(drawingRef.current);
+  };
+
+  const handlePointerUp = () => {
+    const stroke = drawingRef.current;
+    drawingRef.current = null;
+    if (!stroke) return;
+    setStrokes((prev) => [...prev, stroke]);
+    setUndone([]);
+  };
+
+  const undo = () => {
+    setUndone((prev) => [...prev, strokes[strokes.length - 1]]);
+    setStrokes((prev) => prev.slice(0, -1));
+  };
+
+  const redo = () => {
+    setStrokes((prev) => [...prev, undone[undone.length - 1]]);
+    setUndone((prev) => prev.slice(0, -1));
+  };
+
+  const clear = () => {
+    setStrokes([]);
+    setUndone([]);
+  };
+
+  const save = async () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    setError(null);
+    setIsUploading(true);
+    try {
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) throw new Error('Could not capture the signature');
+      const url = await uploadToCloudinary(blob, `${field.id}-signature.png`);
+      onChange({ url, signedAt: new Date().toISOString() });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save signature');
+      console.error('Signature upload error:', err);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (value?.url) {
+    return (
+      <div className="space-y-2">
+        <div className="rounded-lg border bg-background p-2">
+          <img src={value.url} alt={`${field.label} signature`} className="h-40 w-full object-contain" />
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">Signed {new Date(value.signedAt).toLocaleString()}</p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              clear();
+              onChange('');
+            }}
+          >
+            <PenLine className="mr-1 h-4 w-4" />
+            Sign again
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        id={field.id}
+        ref={canvasRef}
+        aria-label={`${field.label} signature pad`}
+        className="w-full touch-none rounded-lg border border-dashed bg-background text-foreground cursor-crosshair"
+        style={{ height: PAD_HEIGHT }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={undo} disabled={strokes.length === 0 || isUploading}>
+          <Undo2 className="mr-1 h-4 w-4" />
+          Undo
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={redo} disabled={undone.length === 0 || isUploading}>
+          <Redo2 className="mr-1 h-4 w-4" />
+          Redo
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={clear} disabled={strokes.length === 0 || isUploading}>
+          <Eraser className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+        <Button type="button" size="sm" className="ml-auto" onClick={save} disabled={strokes.length === 0 || isUploading}>
+          {isUploading && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+          Save signature
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">Sign above with your mouse or finger, then save.</p>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2, Sparkles } from 'lucide-react';
+import { useSimilarAnswers } from '@/hooks/useAnswerInsights';
+
+interface SimilarAnswersProps {
+  formId: string;
+  fieldId: string;
+  submissionId: string;
+}
+
+// Other answers to the same question that mean roughly the same thing
+export function SimilarAnswers({ formId, fieldId, submissionId }: SimilarAnswersProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { matches, remaining, isLoading, error } = useSimilarAnswers(formId, fieldId, isOpen ? submissionId : null);
+
+  if (!isOpen) {
+    return (
+      <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setIsOpen(true)}>
+        <Sparkles className="mr-1 h-3 w-3" />
+        Find similar answers
+      </Button>
+    );
+  }
+
+  return (
+    <div className="mt-2 space-y-2 rounded-md bg-muted/50 p-3 text-sm">
+      <p className="text-xs font-medium">Similar answers</p>
+      {isLoading ? (
+        <p className="flex items-center text-xs text-muted-foreground">
+          <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+          Searching...
+        </p>
+      ) : error ? (
+        <p className="text-xs text-destructive">{error.message}</p>
+      ) : matches && matches.length > 0 ? (
+        <ul className="space-y-2">
+          {matches.map((match) => (
+            <li key={match.submissionId} className="border-l-2 pl-2">
+              <p className="line-clamp-3 text-foreground">{match.content}</p>
+              <p className="text-xs text-muted-foreground">
+                {Math.round(match.similarity * 100)}% similar · {new Date(match.submittedAt).toLocaleDateString()}
+              </p>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-muted-foreground">No similar answers yet.</p>
+      )}
+      {remaining > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {remaining} older answer{remaining !== 1 ? 's are' : ' is'} still being indexed and may be missing.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { endOfDay, format, startOfDay, subDays } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScaleFieldSummary } from './ScaleFieldSummary';
+import { summarizeScaleField } from '@/lib/scaleStats';
+import {
+  NUMBER_CHART_TYPES,
+  OPTION_CHART_TYPES,
+  getFieldCompletion,
+  getResponseTimeline,
+  summarizeNumberField,
+  summarizeOptionField,
+  type DateRange,
+  type NumberSummary,
+  type OptionSummary
+} from '@/lib/submissionStats';
+import { isScaleField } from '@shared/fieldScales';
+import { formatCurrency, getCurrencyCode } from '@shared/fieldFormats';
+import { fetchAllSubmissions } from '@/hooks/useSubmissions';
+import type { FormField } from '@/hooks/useForms';
+
+type RangePreset = '7' | '30' | '90' | 'all' | 'custom';
+
+const chartConfig = {
+  count: { label: 'Responses', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+function getPresetRange(preset: RangePreset, from: string, to: string): DateRange {
+  if (preset === 'all') return {};
+  if (preset === 'custom') {
+    return {
+      from: from ? startOfDay(new Date(`${from}T00:00`)) : undefined,
+      to: to ? endOfDay(new Date(`${to}T00:00`)) : undefined
+    };
+  }
+  return { from: startOfDay(subDays(new Date(), Number(preset) - 1)), to: endOfDay(new Date()) };
+}
+
+function formatNumber(field: FormField, value: number | null): string {
+  if (value === null) return '-';
+  if (field.type === 'currency' || field.currency) return formatCurrency(value, getCurrencyCode(field));
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function answerCount(count: number): string {
+  return `${count} answer${count !== 1 ? 's' : ''}`;
+}
+
+function OptionChartCard({ summary }: { summary: OptionSummary }) {
+  const data = summary.options.map(({ option, count, retired }) => ({
+    option: retired ? `${option} (retired)` : option,
+    count
+  }));
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{summary.field.label}</CardTitle>
+        <CardDescription>
+          {answerCount(summary.responseCount)}
+          {summary.field.type === 'checkbox' && ' · respondents may pick several'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {summary.responseCount === 0 ? (
+          <p className="text-sm text-muted-foreground">No answers yet.</p>
+        ) : (
+          <ChartContainer config={chartConfig} className="aspect-auto" style={{ height: Math.max(120, data.length * 36) }}>
+            <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+              <XAxis type="number" allowDecimals={false} hide />
+              <YAxis type="category" dataKey="option" width={120} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent hideIndicator />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function NumberChartCard({ summary }: { summary: NumberSummary }) {
+  const { field } = summary;
+  const stats = [
+    { label: 'Average', value: summary.average },
+    { label: 'Median', value: summary.median },
+    { label: 'Min', value: summary.min },
+    { label: 'Max', value: summary.max }
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{field.label}</CardTitle>
+        <CardDescription>{answerCount(summary.responseCount)}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {summary.responseCount === 0 ? (
+          <p className="text-sm text-muted-foreground">No answers yet.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-4 gap-2">
+              {stats.map((stat) => (
+                <div key={stat.label}>
+                  <p className="truncate text-lg font-bold">{formatNumber(field, stat.value)}</p>
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                </div>
+              ))}
+            </div>
+            <ChartContainer config={chartConfig} className="aspect-auto h-40">
+              <BarChart data={summary.histogram}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} />
+                <YAxis allowDecimals={false} width={28} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent hideIndicator />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface SubmissionAnalyticsProps {
+  formId: string;
+  fields: FormField[];
+}
+
+/**
+ * Charts for the current schema's fields, picked per field type. Answers are read
+ * against today's fields, so options removed since are shown as retired.
+ */
+export function SubmissionAnalytics({ formId, fields }: SubmissionAnalyticsProps) {
+  const [preset, setPreset] = useState<RangePreset>('30');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+
+  const range = getPresetRange(preset, customFrom, customTo);
+  const from = range.from && format(range.from, 'yyyy-MM-dd');
+  const to = range.to && format(range.to, 'yyyy-MM-dd');
+
+  // Charts need every answer in the range, so this reads all pages rather than one
+  const { data: inRange = [], isLoading } = useQuery({
+    queryKey: ['submissions', formId, 'analytics', from, to],
+    queryFn: () => fetchAllSubmissions(formId, { filters: [], from, to, descending: true })
+  });
+  const responses = inRange.map((submission) => submission.responses as Record<string, unknown>);
+
+  const timeline = getResponseTimeline(inRange, range);
+  const completion = getFieldCompletion(fields, responses);
+  const averageCompletion = completion.length > 0
+    ? completion.reduce((sum, entry) => sum + entry.rate, 0) / completion.length
+    : 0;
+  const lastSubmission = inRange.reduce<string | null>(
+    (latest, submission) => (!latest || submission.submitted_at > latest ? submission.submitted_at : latest),
+    null
+  );
+
+  const fieldCharts = fields.flatMap((field) => {
+    if (OPTION_CHART_TYPES.includes(field.type)) {
+      return [<OptionChartCard key={field.id} summary={summarizeOptionField(field, responses)} />];
+    }
+    if (NUMBER_CHART_TYPES.includes(field.type)) {
+      return [<NumberChartCard key={field.id} summary={summarizeNumberField(field, responses)} />];
+    }
+    if (isScaleField(field)) {
+      return [<ScaleFieldSummary key={field.id} summary={summarizeScaleField(field, responses)} />];
+    }
+    return [];
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="analytics-range">Date range</Label>
+          <Select value={preset} onValueChange={(value) => setPreset(value as RangePreset)}>
+            <SelectTrigger id="analytics-range" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+              <SelectItem value="all">All time</SelectItem>
+              <SelectItem value="custom">Custom</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {preset === 'custom' && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="analytics-from">From</Label>
+              <Input id="analytics-from" type="date" value={customFrom} max={customTo || undefined} onChange={(e) => setCustomFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="analytics-to">To</Label>
+              <Input id="analytics-to" type="date" value={customTo} min={customFrom || undefined} onChange={(e) => setCustomTo(e.target.value)} />
+            </div>
+          </>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Responses</CardDescription>
+                <CardTitle className="text-3xl">{inRange.length}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Average field completion</CardDescription>
+                <CardTitle className="text-3xl">{inRange.length > 0 ? `${Math.round(averageCompletion * 100)}%` : '-'}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Latest response</CardDescription>
+                <CardTitle className="text-3xl">
+                  {lastSubmission ? new Date(lastSubmission).toLocaleDateString() : '-'}
+                </CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Responses over time</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {timeline.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No responses in this range.</p>
+              ) : (
+                <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+                  <BarChart data={timeline}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis allowDecimals={false} width={28} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent hideIndicator />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          {fieldCharts.length > 0 && (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {fieldCharts}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Completion by field</CardTitle>
+              <CardDescription>
+                Share of respondents who answered each field when it was shown, in form order
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {completion.map(({ field, shown, answered, rate }, index) => {
+                // Drop-off: how far this field's rate falls below the one before it
+                const previous = completion[index - 1];
+                const dropOff = previous && previous.shown > 0 && shown > 0 ? Math.round((previous.rate - rate) * 100) : 0;
+
+                return (
+                  <div key={field.id} className="flex items-center gap-3 text-sm">
+                    <span className="w-1/3 truncate" title={field.label}>{field.label}</span>
+                    <Progress value={rate * 100} className="h-2 flex-1" />
+                    <span className="w-12 text-right">{shown > 0 ? `${Math.round(rate * 100)}%` : '-'}</span>
+                    <span className="w-24 text-right text-xs text-muted-foreground">
+                      {answered}/{shown} shown
+                    </span>
+                    <span className="w-14 text-right text-xs text-destructive">
+                      {dropOff > 0 ? `−${dropOff}%` : ''}
+                    </span>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, Filter, Search, X } from 'lucide-react';
+import {
+  FILTER_OPERATORS,
+  NUMBER_VALUE,
+  getFilterKind,
+  type FilterOperator,
+  type SubmissionFilter,
+  type SubmissionQuery
+} from '@/lib/submissionQuery';
+import type { FormField } from '@/hooks/useForms';
+
+const SUBMITTED_SORT = '__submitted';
+
+interface SubmissionFiltersProps {
+  fields: FormField[];
+  query: SubmissionQuery;
+  // Receives the new query with paging reset
+  onChange: (query: SubmissionQuery) => void;
+}
+
+function getValueInputType(field: FormField): string {
+  if (field.type === 'date' || field.type === 'time' || field.type === 'datetime-local') return field.type;
+  return getFilterKind(field) === 'number' ? 'number' : 'text';
+}
+
+function describeFilter(filter: SubmissionFilter, field: FormField | undefined): string {
+  const label = FILTER_OPERATORS[filter.kind].find((operator) => operator.op === filter.op)?.label ?? filter.op;
+  const value = Array.isArray(filter.value) ? filter.value.join(', ') : filter.value;
+  return `${field?.label ?? filter.field} ${label} ${value}`;
+}
+
+export function SubmissionFilters({ fields, query, onChange }: SubmissionFiltersProps) {
+  const filterableFields = fields.filter((field) => getFilterKind(field));
+  const fieldsById = new Map(fields.map((field) => [field.id, field]));
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [draftFieldId, setDraftFieldId] = useState('');
+  const [draftOp, setDraftOp] = useState<FilterOperator>('eq');
+  const [draftValue, setDraftValue] = useState('');
+  const [draftOptions, setDraftOptions] = useState<string[]>([]);
+  const [search, setSearch] = useState(query.search ?? '');
+
+  // Follow the URL when the search changes elsewhere (back button, "Clear all")
+  useEffect(() => {
+    setSearch(query.search ?? '');
+  }, [query.search]);
+
+  const draftField = fieldsById.get(draftFieldId);
+  const draftKind = draftField ? getFilterKind(draftField) : null;
+  const canApply = !!draftField && !!draftKind && (
+    draftKind === 'option'
+      ? draftOptions.length > 0
+      : draftValue.trim() !== '' && (draftKind !== 'number' || NUMBER_VALUE.test(draftValue.trim()))
+  );
+
+  const update = (changes: Partial<SubmissionQuery>) => {
+    onChange({ ...query, ...changes, cursor: undefined, backward: undefined });
+  };
+
+  const selectDraftField = (fieldId: string) => {
+    const field = fieldsById.get(fieldId);
+    const kind = field && getFilterKind(field);
+    setDraftFieldId(fieldId);
+    setDraftOp(kind ? FILTER_OPERATORS[kind][0].op : 'eq');
+    setDraftValue('');
+    setDraftOptions([]);
+  };
+
+  const applyDraft = () => {
+    if (!canApply || !draftField || !draftKind) return;
+    const filter: SubmissionFilter = {
+      field: draftField.id,
+      kind: draftKind,
+      op: draftOp,
+      value: draftKind === 'option' ? draftOptions : draftValue.trim()
+    };
+    // One filter per field and operator; a new one replaces the old
+    update({
+      filters: [...query.filters.filter((f) => f.field !== filter.field || f.op !== filter.op), filter]
+    });
+    setIsAdding(false);
+    selectDraftField('');
+  };
+
+  const submitSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    update({ search: search.trim() || undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={submitSearch} className="relative max-w-xl">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder='Search answers, e.g. invoice 4471 or "late delivery"'
+          aria-label="Search answers"
+          className="pl-9"
+        />
+      </form>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="submissions-from" className="text-xs">From</Label>
+          <Input
+            id="submissions-from"
+            type="date"
+            className="w-40"
+            value={query.from ?? ''}
+            max={query.to}
+            onChange={(e) => update({ from: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="submissions-to" className="text-xs">To</Label>
+          <Input
+            id="submissions-to"
+            type="date"
+            className="w-40"
+            value={query.to ?? ''}
+            min={query.from}
+            onChange={(e) => update({ to: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="submissions-sort" className="text-xs">Sort by</Label>
+          <div className="flex gap-1">
+            <Select
+              value={query.sort ?? SUBMITTED_SORT}
+              onValueChange={(value) => update({ sort: value === SUBMITTED_SORT ? undefined : value })}
+            >
+              <SelectTrigger id="submissions-sort" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SUBMITTED_SORT}>Submitted</SelectItem>
+                {filterableFields.map((field) => (
+                  <SelectItem key={field.id} value={field.id}>{field.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => update({ descending: !query.descending })}
+              aria-label={query.descending ? 'Sorted descending' : 'Sorted ascending'}
+            >
+              {query.descending ? <ArrowDownWideNarrow className="h-4 w-4" /> : <ArrowUpNarrowWide className="h-4 w-4" />}
+            </Button>
+          </div>
+        </div>
+
+        <Popover open={isAdding} onOpenChange={setIsAdding}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" disabled={filterableFields.length === 0}>
+              <Filter className="mr-2 h-4 w-4" />
+              Add filter
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-80 space-y-3">
+            <Select value={draftFieldId} onValueChange={selectDraftField}>
+              <SelectTrigger aria-label="Field">
+                <SelectValue placeholder="Choose a field" />
+              </SelectTrigger>
+              <SelectContent>
+                {filterableFields.map((field) => (
+                  <SelectItem key={field.id} value={field.id}>{field.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {draftField && draftKind && (
+              <>
+                {FILTER_OPERATORS[draftKind].length > 1 && (
+                  <Select value={draftOp} onValueChange={(value) => setDraftOp(value as FilterOperator)}>
+                    <SelectTrigger aria-label="Condition">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FILTER_OPERATORS[draftKind].map(({ op, label }) => (
+                        <SelectItem key={op} value={op}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                {draftKind === 'option' ? (
+                  <div className="max-h-48 space-y-2 overflow-y-auto">
+                    {(draftField.options || []).map((option) => (
+                      <div key={option} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`filter-option-${option}`}
+                          checked={draftOptions.includes(option)}
+                          onCheckedChange={(checked) =>
+                            setDraftOptions((prev) => (checked ? [...prev, option] : prev.filter((o) => o !== option)))
+                          }
+                        />
+                        <Label htmlFor={`filter-option-${option}`} className="text-sm font-normal">{option}</Label>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <Input
+                    type={getValueInputType(draftField)}
+                    value={draftValue}
+                    placeholder="Value"
+                    onChange={(e) => setDraftValue(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && applyDraft()}
+                  />
+                )}
+              </>
+            )}
+
+            <Button className="w-full" onClick={applyDraft} disabled={!canApply}>
+              Apply
+            </Button>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {(query.filters.length > 0 || query.search) && (
+        <div className="flex flex-wrap items-center gap-2">
+          {query.search && (
+            <Badge variant="secondary" className="gap-1 pr-1">
+              Matching “{query.search}”
+              <button
+                type="button"
+                className="rounded-sm p-0.5 hover:bg-muted-foreground/20"
+                onClick={() => update({ search: undefined })}
+                aria-label="Clear search"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )}
+          {query.filters.map((filter) => (
+            <Badge key={`${filter.field}.${filter.op}`} variant="secondary" className="gap-1 pr-1">
+              {describeFilter(filter, fieldsById.get(filter.field))}
+              <button
+                type="button"
+                className="rounded-sm p-0.5 hover:bg-muted-foreground/20"
+                onClick={() => update({ filters: query.filters.filter((f) => f !== filter) })}
+                aria-label="Remove filter"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <Button variant="ghost" size="sm" onClick={() => update({ filters: [], from: undefined, to: undefined, search: undefined })}>
+            Clear all
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
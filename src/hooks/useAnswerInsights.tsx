@@ -0,0 +1,70 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface SimilarAnswer {
+  submissionId: string;
+  content: string;
+  similarity: number;
+  submittedAt: string;
+}
+
+export interface AnswerTheme {
+  label: string;
+  description: string;
+  keywords: string[];
+  count: number;
+  submissionIds: string[];
+  examples: { submissionId: string; content: string }[];
+}
+
+export interface AnswerThemes {
+  themes: AnswerTheme[];
+  answerCount: number;
+  // False when the labels are keywords because the model wasn't available
+  labelled?: boolean;
+  // Older answers still waiting to be embedded; they're picked up on the next request
+  remaining: number;
+}
+
+// Answer embeddings are written with the service role, so everything goes through answer-insights
+async function invokeInsights<T>(body: Record<string, unknown>, fallbackMessage: string): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('answer-insights', { body });
+
+  if (error) {
+    console.error('Answer insights error:', error);
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message || fallbackMessage);
+  }
+
+  if (data.error) throw new Error(data.error);
+  return data as T;
+}
+
+export function useSimilarAnswers(formId: string | undefined, fieldId: string, submissionId: string | null) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['similar-answers', formId, fieldId, submissionId],
+    queryFn: () =>
+      invokeInsights<{ matches: SimilarAnswer[]; remaining: number }>(
+        { action: 'similar', formId, fieldId, submissionId },
+        'Failed to find similar answers'
+      ),
+    enabled: !!formId && !!submissionId,
+    retry: false
+  });
+
+  return {
+    matches: data?.matches,
+    remaining: data?.remaining ?? 0,
+    isLoading,
+    error
+  };
+}
+
+export function useAnswerThemes(formId: string | undefined) {
+  const findThemes = useMutation({
+    mutationFn: (fieldId: string) =>
+      invokeInsights<AnswerThemes>({ action: 'themes', formId, fieldId }, 'Failed to find themes')
+  });
+
+  return { findThemes };
+}
@@ -0,0 +1,48 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface SavedDraft {
+  draftId: string;
+  expiresAt: string;
+}
+
+export interface LoadedDraft extends SavedDraft {
+  responses: Record<string, unknown>;
+}
+
+// Drafts are anonymous and go through the form-drafts edge function, which owns the table
+async function invokeDrafts<T>(body: Record<string, unknown>, fallbackMessage: string): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('form-drafts', { body });
+
+  if (error) {
+    console.error('Form drafts error:', error);
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message || fallbackMessage);
+  }
+
+  if (data.error) throw new Error(data.error);
+  return data as T;
+}
+
+export function useFormDraft(formId: string | undefined, draftId: string | null) {
+  const { data: draft, isLoading, error } = useQuery({
+    queryKey: ['form-draft', formId, draftId],
+    queryFn: () => invokeDrafts<LoadedDraft>({ action: 'load', formId, draftId }, 'Failed to load draft'),
+    enabled: !!formId && !!draftId,
+    retry: false,
+    // The respondent's edits live in the form from here on
+    staleTime: Infinity
+  });
+
+  const saveDraft = useMutation({
+    mutationFn: (data: { formId: string; responses: Record<string, unknown>; draftId?: string }) =>
+      invokeDrafts<SavedDraft>({ action: 'save', ...data }, 'Failed to save draft')
+  });
+
+  return {
+    draft,
+    isLoading,
+    error,
+    saveDraft
+  };
+}
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type FormVersion = Tables<'form_versions'>;
+
+export function useFormVersions(formId: string | undefined) {
+  const { data: versions, isLoading, error } = useQuery({
+    queryKey: ['form-versions', formId],
+    queryFn: async () => {
+      if (!formId) return [];
+
+      const { data, error } = await supabase
+        .from('form_versions')
+        .select('*')
+        .eq('form_id', formId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+      return data as FormVersion[];
+    },
+    enabled: !!formId
+  });
+
+  return {
+    versions,
+    isLoading,
+    error
+  };
+}
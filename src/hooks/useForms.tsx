@@ -3,28 +3,63 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import { toast } from '@/hooks/use-toast';
 import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import type { FormSchema } from '@shared/formTypes';
+import type { SchemaChange } from '@shared/schemaDiff';
+import { findSchemaProblem, parseFormSchema, type SchemaFix } from '@shared/formSchema';
+import { parsePartialSchema, readServerSentEvents } from '@/lib/generationStream';
 
 export type Form = Tables<'forms'>;
 export type FormInsert = TablesInsert<'forms'>;
 
-export interface FormSchema {
-  title: string;
-  description: string;
-  fields: FormField[];
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
 }
 
-export interface FormField {
-  id: string;
-  type: 'text' | 'email' | 'number' | 'textarea' | 'select' | 'checkbox' | 'radio' | 'date' | 'file';
-  label: string;
-  placeholder?: string;
-  required: boolean;
-  options?: string[];
-  validation?: {
-    min?: number;
-    max?: number;
-    pattern?: string;
-  };
+export interface GeneratedForm {
+  schema: FormSchema;
+  // Problems in the AI output that were repaired automatically
+  fixes: SchemaFix[];
+}
+
+export interface FormRefinement extends GeneratedForm {
+  changes: SchemaChange[];
+  summary: string;
+}
+
+export type {
+  FormSchema,
+  FormSection,
+  FormField,
+  FieldValidation,
+  ScaleSettings,
+  MatrixRow,
+  MatrixSettings,
+  GroupSettings,
+  AddressPart,
+  AddressSettings,
+  AddressValue,
+  SignatureValue,
+  HiddenSettings,
+  CalculationSettings,
+  PrefillSettings,
+  DraftSettings,
+  FormSettings,
+  FieldCondition,
+  ConditionOperator,
+  VisibilityRule
+} from '@shared/formTypes';
+export type { SchemaFix } from '@shared/formSchema';
+
+function assertValidSchema(schema: unknown) {
+  const problem = findSchemaProblem(schema);
+  if (problem) throw new Error(problem);
+}
+
+// Server fixes come first; the client pass normally finds nothing more to repair
+function parseGeneratedSchema(data: { schema: unknown; fixes?: SchemaFix[] }): GeneratedForm {
+  const { schema, fixes } = parseFormSchema(data.schema);
+  return { schema, fixes: [...(data.fixes || []), ...fixes] };
 }
 
 export function useForms() {
@@ -51,6 +86,7 @@ export function useForms() {
   const createForm = useMutation({
     mutationFn: async (formData: { title: string; description: string; schema: FormSchema }) => {
       if (!user) throw new Error('Not authenticated');
+      assertValidSchema(formData.schema);
       
       const { data, error } = await supabase
         .from('forms')
@@ -93,6 +129,8 @@ export function useForms() {
 
   const updateForm = useMutation({
     mutationFn: async ({ id, ...updates }: Partial<Form> & { id: string }) => {
+      if ('schema' in updates) assertValidSchema(updates.schema);
+
       const { data, error } = await supabase
         .from('forms')
         .update(updates)
@@ -103,8 +141,16 @@ export function useForms() {
       if (error) throw error;
       return data;
     },
-    onSuccess: () => {
+    onSuccess: (data, variables) => {
       queryClient.invalidateQueries({ queryKey: ['forms'] });
+      queryClient.invalidateQueries({ queryKey: ['form', data.id] });
+      queryClient.invalidateQueries({ queryKey: ['form-versions', data.id] });
+      
+      // Content changes make the stored embedding stale
+      const contentChanged = 'title' in variables || 'description' in variables || 'schema' in variables;
+      if (contentChanged && session?.access_token && user) {
+        generateEmbedding(data.id, `${data.title} ${data.description}`, user.id);
+      }
     }
   });
 
@@ -126,9 +172,10 @@ export function useForms() {
     }
   });
 
-  const generateFormWithAI = async (prompt: string): Promise<FormSchema> => {
+  const generateFormWithAI = async (prompt: string, signal?: AbortSignal): Promise<GeneratedForm> => {
     const { data, error } = await supabase.functions.invoke('generate-form', {
-      body: { prompt, userId: user?.id }
+      body: { prompt, userId: user?.id },
+      signal
     });
     
     if (error) {
@@ -139,7 +186,92 @@ export function useForms() {
     if (data.error) throw new Error(data.error);
     
     console.log('Context used:', data.contextUsed ? 'Yes' : 'No');
-    return data.schema;
+    return parseGeneratedSchema(data);
+  };
+
+  /**
+   * Generates a form over a streamed response, reporting partial schemas as
+   * fields arrive. Falls back to generateFormWithAI when streaming can't be
+   * used; aborting the signal cancels the request.
+   */
+  const streamFormWithAI = async (
+    prompt: string,
+    { onPartial, signal }: { onPartial: (schema: FormSchema) => void; signal?: AbortSignal }
+  ): Promise<GeneratedForm> => {
+    if (typeof TextDecoderStream === 'undefined') return generateFormWithAI(prompt, signal);
+    const anonKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+    let response: Response;
+    try {
+      response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-form`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session?.access_token || anonKey}`,
+          'apikey': anonKey,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ prompt, userId: user?.id, stream: true }),
+        signal
+      });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.warn('Streaming unavailable, falling back:', err);
+      return generateFormWithAI(prompt, signal);
+    }
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (!contentType.includes('text/event-stream') || !response.body) {
+      // Deployments without streaming answer with the regular JSON payload
+      const data = await response.json().catch(() => null);
+      if (data?.error) throw new Error(data.error);
+      if (!response.ok || !data) throw new Error(`Failed to generate form (${response.status})`);
+      return parseGeneratedSchema(data);
+    }
+
+    let text = '';
+    let previewFieldCount = -1;
+    for await (const { event, data } of readServerSentEvents(response.body)) {
+      const payload = JSON.parse(data);
+
+      if (event === 'delta') {
+        text += payload.text;
+        const partial = parsePartialSchema(text);
+        if (partial && partial.fields.length !== previewFieldCount) {
+          previewFieldCount = partial.fields.length;
+          onPartial(partial);
+        }
+      } else if (event === 'done') {
+        console.log('Context used:', payload.contextUsed ? 'Yes' : 'No');
+        return parseGeneratedSchema(payload);
+      } else if (event === 'error') {
+        throw new Error(payload.error || 'Failed to generate form');
+      }
+    }
+
+    throw new Error('The generation stream ended unexpectedly');
+  };
+
+  const refineFormWithAI = async (
+    instruction: string,
+    currentSchema: FormSchema,
+    conversation: ConversationTurn[] = []
+  ): Promise<FormRefinement> => {
+    const { data, error } = await supabase.functions.invoke('generate-form', {
+      body: { prompt: instruction, userId: user?.id, currentSchema, conversation }
+    });
+    
+    if (error) {
+      console.error('Refine form error:', error);
+      throw new Error(error.message || 'Failed to refine form');
+    }
+    
+    if (data.error) throw new Error(data.error);
+    
+    return {
+      ...parseGeneratedSchema(data),
+      changes: data.changes || [],
+      summary: data.summary || ''
+    };
   };
 
   return {
@@ -149,7 +281,9 @@ export function useForms() {
     createForm,
     updateForm,
     deleteForm,
-    generateFormWithAI
+    generateFormWithAI,
+    streamFormWithAI,
+    refineFormWithAI
   };
 }
 
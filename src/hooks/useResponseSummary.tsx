@@ -0,0 +1,61 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Sentiment = 'positive' | 'mixed' | 'negative' | 'neutral';
+
+export interface ResponseDigest {
+  summary: string;
+  keyFindings: string[];
+  sentiment: { overall: Sentiment; explanation: string };
+  outliers: string[];
+}
+
+export type ResponseSummary = Omit<Tables<'response_summaries'>, 'summary'> & { summary: ResponseDigest };
+
+// The cached digest is read straight from the table; only refreshing calls the model
+export function useResponseSummary(formId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const { data: summary, isLoading, error } = useQuery({
+    queryKey: ['response-summary', formId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('response_summaries')
+        .select('*')
+        .eq('form_id', formId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as unknown as ResponseSummary | null;
+    },
+    enabled: !!formId
+  });
+
+  const refreshSummary = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('summarize-responses', {
+        body: { formId }
+      });
+
+      if (error) {
+        console.error('Summarize responses error:', error);
+        const details = await error.context?.json?.().catch(() => null);
+        throw new Error(details?.error || error.message || 'Failed to summarize responses');
+      }
+
+      if (data.error) throw new Error(data.error);
+      return data.summary as ResponseSummary;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['response-summary', formId], data);
+    }
+  });
+
+  return {
+    summary,
+    isLoading,
+    error,
+    refreshSummary
+  };
+}
@@ -0,0 +1,82 @@
+import { useCallback, useRef, useState } from 'react';
+import type { FormSchema } from '@/hooks/useForms';
+
+const MAX_HISTORY = 100;
+const COALESCE_WINDOW_MS = 1000;
+
+interface HistoryState {
+  past: FormSchema[];
+  present: FormSchema | null;
+  future: FormSchema[];
+}
+
+export interface SchemaHistory {
+  schema: FormSchema | null;
+  setSchema: (schema: FormSchema, coalesceKey?: string) => void;
+  reset: (schema: FormSchema | null) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Undo/redo stack for the schema editor. Edits sharing a `coalesceKey` within a short
+ * window (e.g. typing into one label) collapse into a single undo step.
+ */
+export function useSchemaHistory(initial: FormSchema | null = null): SchemaHistory {
+  const [history, setHistory] = useState<HistoryState>({ past: [], present: initial, future: [] });
+  const lastEdit = useRef<{ key: string; at: number } | null>(null);
+
+  const setSchema = useCallback((schema: FormSchema, coalesceKey?: string) => {
+    const now = Date.now();
+    const previous = lastEdit.current;
+    const coalesce = !!coalesceKey && previous?.key === coalesceKey && now - previous.at < COALESCE_WINDOW_MS;
+    lastEdit.current = coalesceKey ? { key: coalesceKey, at: now } : null;
+
+    setHistory(({ past, present }) => ({
+      past: coalesce || !present ? past : [...past, present].slice(-MAX_HISTORY),
+      present: schema,
+      future: []
+    }));
+  }, []);
+
+  const reset = useCallback((schema: FormSchema | null) => {
+    lastEdit.current = null;
+    setHistory({ past: [], present: schema, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastEdit.current = null;
+    setHistory(({ past, present, future }) => {
+      if (past.length === 0 || !present) return { past, present, future };
+      return {
+        past: past.slice(0, -1),
+        present: past[past.length - 1],
+        future: [present, ...future]
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastEdit.current = null;
+    setHistory(({ past, present, future }) => {
+      if (future.length === 0 || !present) return { past, present, future };
+      return {
+        past: [...past, present],
+        present: future[0],
+        future: future.slice(1)
+      };
+    });
+  }, []);
+
+  return {
+    schema: history.present,
+    setSchema,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+}
@@ -1,48 +1,122 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import {
+  SUBMISSIONS_PAGE_SIZE,
+  getFilterArgs,
+  getSortArgs,
+  type SubmissionQuery
+} from '@/lib/submissionQuery';
 
 export type Submission = Tables<'submissions'>;
 export type SubmissionInsert = TablesInsert<'submissions'>;
 
-export function useSubmissions(formId: string | undefined) {
-  const queryClient = useQueryClient();
+export interface SubmissionPage {
+  submissions: Submission[];
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+const EXPORT_BATCH_SIZE = 1000;
+
+async function fetchSubmissionPage(formId: string, query: SubmissionQuery, limit: number): Promise<SubmissionPage> {
+  // One extra row tells whether there is another page in the direction of travel
+  const { data, error } = await supabase.rpc('list_submissions', {
+    p_form_id: formId,
+    ...getFilterArgs(query),
+    ...getSortArgs(query),
+    p_cursor: query.cursor,
+    p_backward: query.backward,
+    p_limit: limit + 1
+  });
+
+  if (error) throw error;
+  const rows = (data as Submission[]).slice(0, limit);
+  const hasMore = data.length > limit;
+
+  // Paging back returns rows nearest the cursor first
+  return query.backward
+    ? { submissions: rows.reverse(), hasNextPage: true, hasPreviousPage: hasMore }
+    : { submissions: rows, hasNextPage: hasMore, hasPreviousPage: !!query.cursor };
+}
+
+// Every submission matching the query's filters and sort, fetched in batches
+export async function fetchAllSubmissions(formId: string, query: SubmissionQuery): Promise<Submission[]> {
+  const all: Submission[] = [];
+  let cursor: string | undefined;
 
-  const { data: submissions, isLoading, error } = useQuery({
-    queryKey: ['submissions', formId],
+  for (;;) {
+    const page = await fetchSubmissionPage(formId, { ...query, cursor, backward: false }, EXPORT_BATCH_SIZE);
+    all.push(...page.submissions);
+    if (!page.hasNextPage) return all;
+    cursor = page.submissions[page.submissions.length - 1].id;
+  }
+}
+
+// How many submissions hold a non-empty answer for each field, keyed by field id
+export async function countFieldAnswers(formId: string, fieldIds: string[]): Promise<Record<string, number>> {
+  if (fieldIds.length === 0) return {};
+
+  const { data, error } = await supabase.rpc('count_field_answers', {
+    p_form_id: formId,
+    p_field_ids: fieldIds
+  });
+
+  if (error) throw error;
+  return Object.fromEntries(data.map((row) => [row.field_id, Number(row.answer_count)]));
+}
+
+export function useSubmissionCount(formId: string | undefined, query?: Pick<SubmissionQuery, 'filters' | 'from' | 'to' | 'search'>) {
+  return useQuery({
+    queryKey: ['submission-count', formId, query ? getFilterArgs(query) : null],
     queryFn: async () => {
-      if (!formId) return [];
-      
-      const { data, error } = await supabase
-        .from('submissions')
-        .select('*')
-        .eq('form_id', formId)
-        .order('submitted_at', { ascending: false });
-      
+      const { data, error } = await supabase.rpc('count_submissions', {
+        p_form_id: formId!,
+        ...(query ? getFilterArgs(query) : {})
+      });
+
       if (error) throw error;
-      return data as Submission[];
+      return Number(data);
     },
     enabled: !!formId
   });
+}
+
+/**
+ * One page of a form's submissions for `query`; pass no query to only submit.
+ * Filtering, sorting and paging all happen in the database.
+ */
+export function useSubmissions(formId: string | undefined, query?: SubmissionQuery) {
+  const queryClient = useQueryClient();
+
+  const { data: page, isLoading, isFetching, error } = useQuery({
+    queryKey: ['submissions', formId, query],
+    queryFn: () => fetchSubmissionPage(formId!, query!, SUBMISSIONS_PAGE_SIZE),
+    enabled: !!formId && !!query,
+    // Keep the current page on screen while the next one loads
+    placeholderData: keepPreviousData
+  });
 
   const createSubmission = useMutation({
-    mutationFn: async (data: { formId: string; responses: Record<string, unknown>; imageUrls?: string[] }) => {
-      const { data: submission, error } = await supabase
-        .from('submissions')
-        .insert({
-          form_id: data.formId,
-          responses: JSON.parse(JSON.stringify(data.responses)),
-          image_urls: data.imageUrls || []
-        })
-        .select()
-        .single();
+    mutationFn: async (data: { formId: string; responses: Record<string, unknown>; draftId?: string }) => {
+      // submit-form validates against the stored schema and is the only insert path
+      const { data: result, error } = await supabase.functions.invoke('submit-form', {
+        body: { formId: data.formId, responses: data.responses, draftId: data.draftId }
+      });
       
-      if (error) throw error;
-      return submission;
+      if (error) {
+        console.error('Submit form error:', error);
+        const details = await error.context?.json?.().catch(() => null);
+        throw new Error(details?.error || error.message || 'Failed to submit form');
+      }
+      
+      if (result.error) throw new Error(result.error);
+      return result.submission as Submission;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['submissions'] });
+      queryClient.invalidateQueries({ queryKey: ['submission-count'] });
       toast({
         title: 'Form submitted',
         description: 'Your response has been recorded successfully.'
@@ -51,8 +125,11 @@ export function useSubmissions(formId: string | undefined) {
   });
 
   return {
-    submissions,
+    submissions: page?.submissions,
+    hasNextPage: page?.hasNextPage ?? false,
+    hasPreviousPage: page?.hasPreviousPage ?? false,
     isLoading,
+    isFetching,
     error,
     createSubmission
   };
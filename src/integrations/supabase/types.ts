@@ -14,14 +14,134 @@ export type Database = {
   }
   public: {
     Tables: {
+      answer_embeddings: {
+        Row: {
+          content: string
+          created_at: string
+          embedding: string
+          field_id: string
+          form_id: string
+          id: string
+          submission_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          embedding: string
+          field_id: string
+          form_id: string
+          id?: string
+          submission_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          embedding?: string
+          field_id?: string
+          form_id?: string
+          id?: string
+          submission_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answer_embeddings_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "answer_embeddings_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      form_drafts: {
+        Row: {
+          created_at: string
+          expires_at: string
+          form_id: string
+          id: string
+          responses: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          form_id: string
+          id?: string
+          responses?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          form_id?: string
+          id?: string
+          responses?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "form_drafts_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      form_versions: {
+        Row: {
+          created_at: string
+          description: string | null
+          form_id: string
+          id: string
+          schema: Json
+          title: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          form_id: string
+          id?: string
+          schema: Json
+          title: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          form_id?: string
+          id?: string
+          schema?: Json
+          title?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "form_versions_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       forms: {
         Row: {
           created_at: string
+          current_version: number
           description: string | null
           embedding: string | null
           id: string
           is_published: boolean | null
           schema: Json
+          settings: Json
           summary: string | null
           title: string
           updated_at: string
@@ -29,11 +149,13 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          current_version?: number
           description?: string | null
           embedding?: string | null
           id?: string
           is_published?: boolean | null
           schema: Json
+          settings?: Json
           summary?: string | null
           title: string
           updated_at?: string
@@ -41,11 +163,13 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          current_version?: number
           description?: string | null
           embedding?: string | null
           id?: string
           is_published?: boolean | null
           schema?: Json
+          settings?: Json
           summary?: string | null
           title?: string
           updated_at?: string
@@ -80,9 +204,39 @@ export type Database = {
         }
         Relationships: []
       }
+      response_summaries: {
+        Row: {
+          form_id: string
+          generated_at: string
+          submission_count: number
+          summary: Json
+        }
+        Insert: {
+          form_id: string
+          generated_at?: string
+          submission_count: number
+          summary: Json
+        }
+        Update: {
+          form_id?: string
+          generated_at?: string
+          submission_count?: number
+          summary?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "response_summaries_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: true
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       submissions: {
         Row: {
           form_id: string
+          form_version: number | null
           id: string
           image_urls: string[] | null
           responses: Json
@@ -90,6 +244,7 @@ export type Database = {
         }
         Insert: {
           form_id: string
+          form_version?: number | null
           id?: string
           image_urls?: string[] | null
           responses: Json
@@ -97,6 +252,7 @@ export type Database = {
         }
         Update: {
           form_id?: string
+          form_version?: number | null
           id?: string
           image_urls?: string[] | null
           responses?: Json
@@ -117,6 +273,37 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      count_field_answers: {
+        Args: { p_field_ids: string[]; p_form_id: string }
+        Returns: {
+          answer_count: number
+          field_id: string
+        }[]
+      }
+      count_submissions: {
+        Args: {
+          p_filters?: Json
+          p_form_id: string
+          p_from?: string
+          p_search?: string
+          p_to?: string
+        }
+        Returns: number
+      }
+      find_similar_answers: {
+        Args: {
+          match_count?: number
+          match_threshold?: number
+          p_field_id: string
+          p_submission_id: string
+        }
+        Returns: {
+          content: string
+          similarity: number
+          submission_id: string
+          submitted_at: string
+        }[]
+      }
       find_similar_forms: {
         Args: {
           match_count?: number
@@ -131,6 +318,41 @@ export type Database = {
           title: string
         }[]
       }
+      list_submissions: {
+        Args: {
+          p_backward?: boolean
+          p_cursor?: string
+          p_descending?: boolean
+          p_filters?: Json
+          p_form_id: string
+          p_from?: string
+          p_limit?: number
+          p_search?: string
+          p_sort_field?: string
+          p_sort_kind?: string
+          p_to?: string
+        }
+        Returns: {
+          form_id: string
+          form_version: number | null
+          id: string
+          image_urls: string[] | null
+          responses: Json
+          submitted_at: string
+        }[]
+      }
+      submission_filter_sql: {
+        Args: { p_filters: Json }
+        Returns: string
+      }
+      submission_search_sql: {
+        Args: { p_search: string }
+        Returns: string
+      }
+      submission_sort_sql: {
+        Args: { p_field: string; p_kind: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
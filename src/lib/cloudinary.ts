@@ -0,0 +1,27 @@
+// Cloudinary configuration - uses env vars with fallbacks
+const CLOUDINARY_CLOUD_NAME = import.meta.env.VITE_CLOUDINARY_CLOUD_NAME || 'dfiizqv1d';
+const CLOUDINARY_UPLOAD_PRESET = import.meta.env.VITE_CLOUDINARY_UPLOAD_PRESET || 'CentrAlignAI';
+
+// Unsigned upload through the shared preset; resolves to the hosted https URL
+export async function uploadToCloudinary(file: Blob, fileName?: string): Promise<string> {
+  const formData = new FormData();
+  if (fileName) formData.append('file', file, fileName);
+  else formData.append('file', file);
+  formData.append('upload_preset', CLOUDINARY_UPLOAD_PRESET);
+
+  const response = await fetch(
+    `https://api.cloudinary.com/v1_1/${CLOUDINARY_CLOUD_NAME}/auto/upload`,
+    {
+      method: 'POST',
+      body: formData
+    }
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error?.message || 'Upload failed');
+  }
+
+  const data = await response.json();
+  return data.secure_url;
+}
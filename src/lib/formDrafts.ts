@@ -0,0 +1,65 @@
+import type { FormField } from '@/hooks/useForms';
+
+export interface LocalDraft {
+  values: Record<string, unknown>;
+  pageId: string | null;
+  // Field types when saved, so answers aren't restored into a field whose type has since changed
+  fieldTypes: Record<string, FormField['type']>;
+  savedAt: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getLocalDraftKey(formId: string, draftId?: string | null): string {
+  return draftId ? `form-draft:${formId}:${draftId}` : `form-draft:${formId}`;
+}
+
+// Storage can be unavailable (private mode, quota); drafts are a convenience, so failures are ignored
+export function readLocalDraft(key: string, expiryDays: number): LocalDraft | null {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+
+    const draft = JSON.parse(raw) as LocalDraft;
+    if (!draft?.values || typeof draft.savedAt !== 'number' || Date.now() - draft.savedAt > expiryDays * DAY_MS) {
+      localStorage.removeItem(key);
+      return null;
+    }
+    return draft;
+  } catch {
+    return null;
+  }
+}
+
+export function writeLocalDraft(key: string, fields: FormField[], values: Record<string, unknown>, pageId: string | null) {
+  const draft: LocalDraft = {
+    values,
+    pageId,
+    fieldTypes: Object.fromEntries(fields.map((field) => [field.id, field.type])),
+    savedAt: Date.now()
+  };
+  try {
+    localStorage.setItem(key, JSON.stringify(draft));
+  } catch {
+    // See readLocalDraft
+  }
+}
+
+export function clearLocalDraft(key: string) {
+  try {
+    localStorage.removeItem(key);
+  } catch {
+    // See readLocalDraft
+  }
+}
+
+// The saved answers for fields that still exist with the same type
+export function getRestorableValues(fields: FormField[], draft: LocalDraft): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (field.type === 'calculated' || !(field.id in draft.values)) continue;
+    if (draft.fieldTypes?.[field.id] !== field.type) continue;
+    values[field.id] = draft.values[field.id];
+  }
+  return values;
+}
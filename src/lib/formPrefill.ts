@@ -0,0 +1,95 @@
+import { buildFieldSchema } from '@shared/formValidation';
+import { normalizePhone } from '@shared/fieldFormats';
+import type { Json } from '@/integrations/supabase/types';
+import type { FormField, FormSettings, PrefillSettings } from '@/hooks/useForms';
+
+// Types whose answer fits in a query parameter; checkbox selections may repeat the parameter or use commas
+export const PREFILL_FIELD_TYPES: FormField['type'][] = [
+  'text',
+  'email',
+  'number',
+  'textarea',
+  'select',
+  'checkbox',
+  'radio',
+  'date',
+  'rating',
+  'scale',
+  'nps',
+  'phone',
+  'url',
+  'time',
+  'datetime-local',
+  'currency'
+];
+
+export interface PrefillResult {
+  values: Record<string, unknown>;
+  // Prefilled fields the respondent can't edit; only values that already pass validation are locked
+  lockedIds: Set<string>;
+}
+
+export function readFormSettings(settings: Json | null | undefined): FormSettings {
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) return {};
+  return settings as unknown as FormSettings;
+}
+
+export function canPrefill(field: FormField): boolean {
+  return PREFILL_FIELD_TYPES.includes(field.type);
+}
+
+// Option values match case-insensitively so CRM merge tags don't have to copy the exact casing
+function matchOption(field: FormField, value: string): string | undefined {
+  const wanted = value.trim().toLowerCase();
+  return field.options?.find((option) => option.toLowerCase() === wanted);
+}
+
+function coercePrefillValue(field: FormField, params: string[]): unknown {
+  const value = params[0]?.trim() ?? '';
+
+  switch (field.type) {
+    case 'checkbox': {
+      const selected = params
+        .flatMap((param) => param.split(','))
+        .map((param) => matchOption(field, param))
+        .filter((option): option is string => !!option);
+      return selected.length > 0 ? [...new Set(selected)] : undefined;
+    }
+    case 'select':
+    case 'radio':
+      return matchOption(field, value);
+    case 'rating':
+    case 'scale':
+    case 'nps':
+      return value && Number.isFinite(Number(value)) ? Number(value) : undefined;
+    case 'phone':
+      // An unencoded leading + arrives as a space
+      return value ? normalizePhone(params[0].startsWith(' ') ? `+${value}` : value) : undefined;
+    default:
+      return value || undefined;
+  }
+}
+
+/**
+ * Reads initial answers for the allowlisted fields from a query string.
+ * Parameters are matched by field id; unknown, unlisted or unusable values are ignored.
+ */
+export function getPrefillValues(fields: FormField[], search: string, prefill: PrefillSettings | undefined): PrefillResult {
+  const result: PrefillResult = { values: {}, lockedIds: new Set() };
+  if (!prefill?.fields.length) return result;
+
+  const params = new URLSearchParams(search);
+  const allowed = new Set(prefill.fields);
+
+  for (const field of fields) {
+    if (!allowed.has(field.id) || !canPrefill(field) || !params.has(field.id)) continue;
+
+    const value = coercePrefillValue(field, params.getAll(field.id));
+    if (value === undefined) continue;
+
+    result.values[field.id] = value;
+    if (prefill.lock && buildFieldSchema(field).safeParse(value).success) result.lockedIds.add(field.id);
+  }
+
+  return result;
+}
@@ -0,0 +1,45 @@
+import type { FormField, FormSchema } from '@/hooks/useForms';
+
+export interface FormPage {
+  id: string;
+  title?: string;
+  description?: string;
+  fields: FormField[];
+}
+
+/**
+ * Splits a schema into its ordered pages. Forms without sections render as a single
+ * page, and any field no section claims is appended to the last page so it is never lost.
+ */
+export function getFormPages(schema: FormSchema): FormPage[] {
+  if (!schema.sections || schema.sections.length === 0) {
+    return [{ id: 'main', fields: schema.fields }];
+  }
+
+  const fieldsById = new Map(schema.fields.map((field) => [field.id, field]));
+  const assigned = new Set<string>();
+
+  const pages: FormPage[] = schema.sections.map((section) => {
+    const fields = (section.fields || [])
+      .filter((fieldId) => fieldsById.has(fieldId) && !assigned.has(fieldId))
+      .map((fieldId) => {
+        assigned.add(fieldId);
+        return fieldsById.get(fieldId)!;
+      });
+
+    return {
+      id: section.id,
+      title: section.title,
+      description: section.description,
+      fields
+    };
+  });
+
+  const unassigned = schema.fields.filter((field) => !assigned.has(field.id));
+  if (unassigned.length > 0) {
+    pages[pages.length - 1].fields.push(...unassigned);
+  }
+
+  const populated = pages.filter((page) => page.fields.length > 0);
+  return populated.length > 0 ? populated : [{ id: 'main', fields: [] }];
+}
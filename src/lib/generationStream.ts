@@ -0,0 +1,98 @@
+import { repairFormSchema } from '@shared/formSchema';
+import type { FormSchema } from '@/hooks/useForms';
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Parses a text/event-stream body into events as they arrive
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value.replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+      if (data.length > 0) yield { event, data: data.join('\n') };
+    }
+  }
+}
+
+/**
+ * Parses the longest prefix of an unfinished JSON object that ends on a closed
+ * object or array, closing whatever is still open. Returns null until the first
+ * nested value completes.
+ */
+export function parsePartialJSON(text: string): unknown {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let safeEnd = -1;
+  let safeClosers: string[] = [];
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      closers.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      closers.pop();
+      safeEnd = i + 1;
+      safeClosers = [...closers];
+      if (closers.length === 0) break;
+    }
+  }
+
+  if (safeEnd === -1) return null;
+  try {
+    return JSON.parse(text.slice(start, safeEnd) + safeClosers.reverse().join(''));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds a renderable preview from streamed model text. Only fields that
+ * already have an id, type and label are shown, so half-written fields don't
+ * flash in with placeholder values.
+ */
+export function parsePartialSchema(text: string): FormSchema | null {
+  const partial = parsePartialJSON(text) as { fields?: unknown } | null;
+  if (!partial || !Array.isArray(partial.fields)) return null;
+
+  const fields = partial.fields.filter((field) =>
+    typeof field === 'object' && field !== null && 'id' in field && 'type' in field && 'label' in field
+  );
+
+  try {
+    return repairFormSchema({ ...partial, fields, sections: undefined }).schema;
+  } catch {
+    return null;
+  }
+}
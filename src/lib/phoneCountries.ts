@@ -0,0 +1,47 @@
+export interface PhoneCountry {
+  code: string;
+  name: string;
+  dialCode: string;
+}
+
+// Shown in the phone field's country picker; numbers from elsewhere can be typed with a leading +
+export const PHONE_COUNTRIES: PhoneCountry[] = [
+  { code: 'US', name: 'United States', dialCode: '1' },
+  { code: 'CA', name: 'Canada', dialCode: '1' },
+  { code: 'GB', name: 'United Kingdom', dialCode: '44' },
+  { code: 'IE', name: 'Ireland', dialCode: '353' },
+  { code: 'AU', name: 'Australia', dialCode: '61' },
+  { code: 'NZ', name: 'New Zealand', dialCode: '64' },
+  { code: 'DE', name: 'Germany', dialCode: '49' },
+  { code: 'FR', name: 'France', dialCode: '33' },
+  { code: 'ES', name: 'Spain', dialCode: '34' },
+  { code: 'IT', name: 'Italy', dialCode: '39' },
+  { code: 'NL', name: 'Netherlands', dialCode: '31' },
+  { code: 'BE', name: 'Belgium', dialCode: '32' },
+  { code: 'CH', name: 'Switzerland', dialCode: '41' },
+  { code: 'SE', name: 'Sweden', dialCode: '46' },
+  { code: 'NO', name: 'Norway', dialCode: '47' },
+  { code: 'DK', name: 'Denmark', dialCode: '45' },
+  { code: 'PL', name: 'Poland', dialCode: '48' },
+  { code: 'PT', name: 'Portugal', dialCode: '351' },
+  { code: 'BR', name: 'Brazil', dialCode: '55' },
+  { code: 'MX', name: 'Mexico', dialCode: '52' },
+  { code: 'AR', name: 'Argentina', dialCode: '54' },
+  { code: 'IN', name: 'India', dialCode: '91' },
+  { code: 'CN', name: 'China', dialCode: '86' },
+  { code: 'JP', name: 'Japan', dialCode: '81' },
+  { code: 'KR', name: 'South Korea', dialCode: '82' },
+  { code: 'SG', name: 'Singapore', dialCode: '65' },
+  { code: 'AE', name: 'United Arab Emirates', dialCode: '971' },
+  { code: 'ZA', name: 'South Africa', dialCode: '27' },
+  { code: 'NG', name: 'Nigeria', dialCode: '234' },
+  { code: 'KE', name: 'Kenya', dialCode: '254' }
+];
+
+// Picks the country whose dial code is the longest prefix of an E.164-style value
+export function findPhoneCountry(value: string): PhoneCountry | undefined {
+  if (!value.startsWith('+')) return undefined;
+  return PHONE_COUNTRIES
+    .filter((country) => value.startsWith(`+${country.dialCode}`))
+    .sort((a, b) => b.dialCode.length - a.dialCode.length)[0];
+}
@@ -0,0 +1,98 @@
+import { ADDRESS_PARTS, ADDRESS_PART_LABELS, formatAddressLines, readAddress } from '@shared/addressFormats';
+import type { FormField, SignatureValue } from '@/hooks/useForms';
+
+export interface ExportColumn {
+  header: string;
+  getValue: (responses: Record<string, unknown>) => string;
+}
+
+export function formatAnswer(value: unknown): string {
+  if (Array.isArray(value)) return value.join(', ');
+  if (value === undefined || value === null) return '';
+  return String(value);
+}
+
+function matrixAnswers(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+// Matrix answers are stored as { [rowId]: column | column[] }
+export function formatMatrixRows(field: FormField, value: unknown): { label: string; answer: string }[] {
+  const answers = matrixAnswers(value);
+  return (field.matrix?.rows || []).map((row) => ({ label: row.label, answer: formatAnswer(answers[row.id]) }));
+}
+
+export function readSignature(value: unknown): SignatureValue | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { url, signedAt } = value as Partial<SignatureValue>;
+  return typeof url === 'string' && typeof signedAt === 'string' ? { url, signedAt } : null;
+}
+
+// Group answers are stored as one { [childId]: value } object per entry
+export function getGroupEntries(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter((entry) => typeof entry === 'object' && entry !== null) : [];
+}
+
+// A single-cell rendering of any answer, used for group children and exports
+export function formatFieldAnswer(field: FormField, value: unknown): string {
+  if (field.type === 'address') return formatAddressLines(value).join(', ');
+  if (field.type === 'signature') return readSignature(value)?.url ?? '';
+  if (field.type === 'matrix') {
+    return formatMatrixRows(field, value)
+      .filter((row) => row.answer !== '')
+      .map((row) => `${row.label}: ${row.answer}`)
+      .join('; ');
+  }
+  return formatAnswer(value);
+}
+
+export function summarizeGroupAnswer(value: unknown): string {
+  const count = getGroupEntries(value).length;
+  return count === 0 ? '' : `${count} ${count === 1 ? 'entry' : 'entries'}`;
+}
+
+export function summarizeMatrixAnswer(field: FormField, value: unknown): string {
+  const rows = formatMatrixRows(field, value);
+  const answered = rows.filter((row) => row.answer !== '').length;
+  return answered === 0 ? '' : `${answered}/${rows.length} rows`;
+}
+
+/**
+ * One CSV column per field, except matrix fields which get one column per row,
+ * addresses which get one column per part, signatures which add a signing
+ * time column, and groups which get one column per child for as many entries as the
+ * longest answer in `responses`.
+ */
+export function getExportColumns(fields: FormField[], responses: Record<string, unknown>[]): ExportColumn[] {
+  return fields.flatMap((field): ExportColumn[] => {
+    if (field.type === 'matrix') {
+      return (field.matrix?.rows || []).map((row) => ({
+        header: `${field.label} - ${row.label}`,
+        getValue: (response) => formatAnswer(matrixAnswers(response[field.id])[row.id])
+      }));
+    }
+    if (field.type === 'address') {
+      return ADDRESS_PARTS.map((part) => ({
+        header: `${field.label} - ${ADDRESS_PART_LABELS[part]}`,
+        getValue: (response) => readAddress(response[field.id])[part] || ''
+      }));
+    }
+    if (field.type === 'signature') {
+      return [
+        { header: field.label, getValue: (response) => readSignature(response[field.id])?.url ?? '' },
+        { header: `${field.label} - Signed at`, getValue: (response) => readSignature(response[field.id])?.signedAt ?? '' }
+      ];
+    }
+    if (field.type === 'group') {
+      const entryCount = Math.max(1, ...responses.map((response) => getGroupEntries(response[field.id]).length));
+      return Array.from({ length: entryCount }, (_, index) =>
+        (field.group?.fields || []).map((child) => ({
+          header: `${field.label} ${index + 1} - ${child.label}`,
+          getValue: (response: Record<string, unknown>) =>
+            formatFieldAnswer(child, getGroupEntries(response[field.id])[index]?.[child.id])
+        }))
+      ).flat();
+    }
+    return [{ header: field.label, getValue: (response) => formatAnswer(response[field.id]) }];
+  });
+}
@@ -0,0 +1,56 @@
+import { getScaleRange } from '@shared/fieldScales';
+import type { FormField } from '@/hooks/useForms';
+
+export interface NpsBreakdown {
+  // -100 to 100: percentage of promoters minus percentage of detractors
+  score: number;
+  promoters: number;
+  passives: number;
+  detractors: number;
+}
+
+export interface ScaleSummary {
+  field: FormField;
+  responseCount: number;
+  average: number | null;
+  distribution: { value: number; count: number }[];
+  nps?: NpsBreakdown;
+}
+
+/**
+ * Aggregates the answers to a rating, scale or nps field. Answers outside the
+ * field's current range (e.g. from an older version) are left out.
+ */
+export function summarizeScaleField(field: FormField, responses: Record<string, unknown>[]): ScaleSummary {
+  const { min, max } = getScaleRange(field);
+  const answers = responses
+    .map((response) => response[field.id])
+    .filter((value) => value !== undefined && value !== null && value !== '')
+    .map(Number)
+    .filter((value) => Number.isInteger(value) && value >= min && value <= max);
+
+  const distribution = Array.from({ length: max - min + 1 }, (_, i) => ({
+    value: min + i,
+    count: answers.filter((answer) => answer === min + i).length
+  }));
+
+  const summary: ScaleSummary = {
+    field,
+    responseCount: answers.length,
+    average: answers.length > 0 ? answers.reduce((sum, answer) => sum + answer, 0) / answers.length : null,
+    distribution
+  };
+
+  if (field.type === 'nps' && answers.length > 0) {
+    const promoters = answers.filter((answer) => answer >= 9).length;
+    const detractors = answers.filter((answer) => answer <= 6).length;
+    summary.nps = {
+      score: Math.round(((promoters - detractors) / answers.length) * 100),
+      promoters,
+      passives: answers.length - promoters - detractors,
+      detractors
+    };
+  }
+
+  return summary;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { findSchemaProblem } from '@shared/formSchema';
+import type { FormSchema } from '@/hooks/useForms';
+import { removeField } from './schemaEditing';
+
+const schema: FormSchema = {
+  title: 'Order',
+  description: '',
+  fields: [
+    { id: 'price', type: 'number', label: 'Price', required: true },
+    { id: 'quantity', type: 'number', label: 'Quantity', required: true },
+    { id: 'total', type: 'calculated', label: 'Total', required: false, calculation: { expression: 'price * quantity', decimals: 0 } },
+    { id: 'shipping', type: 'calculated', label: 'Shipping', required: false, calculation: { expression: 'if(total > 50, 0, 5)' } },
+    {
+      id: 'notes',
+      type: 'textarea',
+      label: 'Notes',
+      required: false,
+      visibleWhen: {
+        combinator: 'or',
+        conditions: [
+          { field: 'quantity', operator: 'greater_than', value: 10 },
+          { field: 'price', operator: 'greater_than', value: 100 }
+        ]
+      }
+    }
+  ],
+  sections: [
+    { id: 'items', title: 'Items', fields: ['price', 'quantity'] },
+    { id: 'summary', title: 'Summary', fields: ['total', 'shipping', 'notes'] }
+  ]
+};
+
+describe('removeField', () => {
+  it('drops conditions, section entries and calculations that reference the field', () => {
+    const result = removeField(schema, 'quantity');
+
+    expect(result.fields.map((field) => field.id)).toEqual(['price', 'total', 'shipping', 'notes']);
+    expect(result.fields[1].calculation).toEqual({ expression: '0', decimals: 0 });
+    expect(result.fields[2].calculation).toEqual({ expression: 'if(total > 50, 0, 5)' });
+    expect(result.fields[3].visibleWhen).toEqual({
+      combinator: 'or',
+      conditions: [{ field: 'price', operator: 'greater_than', value: 100 }]
+    });
+    expect(result.sections?.[0].fields).toEqual(['price']);
+    expect(findSchemaProblem(result)).toBeNull();
+  });
+});
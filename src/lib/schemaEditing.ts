@@ -0,0 +1,185 @@
+import type { FieldCondition, FormField, FormSchema, VisibilityRule } from '@/hooks/useForms';
+import { createUniqueFieldId, OPTION_FIELD_TYPES } from '@shared/formSchema';
+import { getExpressionFields } from '@shared/expressions';
+
+export {
+  FIELD_TYPES,
+  GROUP_CHILD_TYPES,
+  OPTION_FIELD_TYPES,
+  slugifyFieldId,
+  createUniqueFieldId
+} from '@shared/formSchema';
+
+export function addField(schema: FormSchema, type: FormField['type'] = 'text'): FormSchema {
+  const id = createUniqueFieldId('new_field', schema.fields.map((f) => f.id));
+  const field: FormField = {
+    id,
+    type,
+    label: 'New field',
+    required: false,
+    ...(OPTION_FIELD_TYPES.includes(type) ? { options: ['Option 1', 'Option 2'] } : {})
+  };
+  return { ...schema, fields: [...schema.fields, field] };
+}
+
+export function updateField(schema: FormSchema, fieldId: string, updates: Partial<FormField>): FormSchema {
+  return {
+    ...schema,
+    fields: schema.fields.map((field) => (field.id === fieldId ? { ...field, ...updates } : field))
+  };
+}
+
+// Type changes reset options and constraints that would not make sense for the new type
+export function changeFieldType(schema: FormSchema, fieldId: string, type: FormField['type']): FormSchema {
+  return {
+    ...schema,
+    fields: schema.fields.map((field) => {
+      if (field.id !== fieldId || field.type === type) return field;
+      const {
+        options,
+        validation: _validation,
+        scale: _scale,
+        matrix: _matrix,
+        group: _group,
+        currency: _currency,
+        address: _address,
+        hidden: _hidden,
+        calculation: _calculation,
+        ...rest
+      } = field;
+      const needsOptions = OPTION_FIELD_TYPES.includes(type);
+      return {
+        ...rest,
+        type,
+        ...(needsOptions ? { options: options?.length ? options : ['Option 1', 'Option 2'] } : {}),
+        ...(type === 'matrix'
+          ? {
+              matrix: {
+                rows: [{ id: 'statement_1', label: 'Statement 1' }],
+                columns: options?.length ? options : ['Disagree', 'Neutral', 'Agree']
+              }
+            }
+          : {}),
+        ...(type === 'group' ? { group: { fields: [{ id: 'name', type: 'text' as const, label: 'Name', required: true }] } } : {}),
+        ...(type === 'calculated' ? { calculation: { expression: '0' } } : {})
+      };
+    })
+  };
+}
+
+// Checked while typing so the editor can flag a formula before the schema is saved
+export function findExpressionProblem(field: FormField, fields: FormField[]): string | null {
+  try {
+    const unknown = getExpressionFields(field.calculation?.expression || '')
+      .filter((id) => id === field.id || !fields.some((other) => other.id === id));
+    return unknown.length > 0 ? `Unknown field${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}` : null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid expression';
+  }
+}
+
+function stripConditionsOn(rule: VisibilityRule, fieldId: string): VisibilityRule | null {
+  const conditions = rule.conditions
+    .map((condition) =>
+      'conditions' in condition ? stripConditionsOn(condition, fieldId) : (condition as FieldCondition)
+    )
+    .filter((condition): condition is FieldCondition | VisibilityRule =>
+      condition !== null && ('conditions' in condition || condition.field !== fieldId)
+    );
+  return conditions.length > 0 ? { ...rule, conditions } : null;
+}
+
+function readsField(field: FormField, fieldId: string): boolean {
+  try {
+    return getExpressionFields(field.calculation?.expression || '').includes(fieldId);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Removes the field along with any section membership and visibility conditions that
+ * reference it. Calculations that read it are reset to 0, as schema repair does.
+ */
+export function removeField(schema: FormSchema, fieldId: string): FormSchema {
+  const fields = schema.fields
+    .filter((field) => field.id !== fieldId)
+    .map((field) => (readsField(field, fieldId) ? { ...field, calculation: { ...field.calculation, expression: '0' } } : field))
+    .map((field) => {
+      if (!field.visibleWhen) return field;
+      const { visibleWhen, ...rest } = field;
+      const rule = stripConditionsOn(visibleWhen, fieldId);
+      return rule ? { ...rest, visibleWhen: rule } : rest;
+    });
+
+  const sections = schema.sections?.map((section) => ({
+    ...section,
+    fields: section.fields.filter((id) => id !== fieldId)
+  }));
+
+  return { ...schema, fields, ...(sections ? { sections } : {}) };
+}
+
+// Moves a field and keeps each section's field list in the same relative order
+export function moveField(schema: FormSchema, fromIndex: number, toIndex: number): FormSchema {
+  if (fromIndex === toIndex || fromIndex < 0 || toIndex < 0) return schema;
+  if (fromIndex >= schema.fields.length || toIndex >= schema.fields.length) return schema;
+
+  const fields = [...schema.fields];
+  const [moved] = fields.splice(fromIndex, 1);
+  fields.splice(toIndex, 0, moved);
+
+  const order = new Map(fields.map((field, index) => [field.id, index]));
+  const sections = schema.sections?.map((section) => ({
+    ...section,
+    fields: [...section.fields].sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0))
+  }));
+
+  return { ...schema, fields, ...(sections ? { sections } : {}) };
+}
+
+export function assignFieldToSection(schema: FormSchema, fieldId: string, sectionId: string): FormSchema {
+  if (!schema.sections) return schema;
+
+  const order = new Map(schema.fields.map((field, index) => [field.id, index]));
+  return {
+    ...schema,
+    sections: schema.sections.map((section) => {
+      const fields = section.fields.filter((id) => id !== fieldId);
+      if (section.id === sectionId) {
+        fields.push(fieldId);
+        fields.sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0));
+      }
+      return { ...section, fields };
+    })
+  };
+}
+
+export interface OrphanedField {
+  id: string;
+  label: string;
+  submissionCount: number;
+}
+
+// Ids of fields the edit removes
+export function getRemovedFieldIds(original: FormSchema, edited: FormSchema): string[] {
+  const remaining = new Set(edited.fields.map((field) => field.id));
+  return original.fields.filter((field) => !remaining.has(field.id)).map((field) => field.id);
+}
+
+// Removed fields that existing submissions still hold answers for, given answer counts per field id
+export function findOrphanedFields(
+  answerCounts: Record<string, number>,
+  original: FormSchema,
+  edited: FormSchema
+): OrphanedField[] {
+  const labels = new Map(original.fields.map((field) => [field.id, field.label]));
+
+  return getRemovedFieldIds(original, edited)
+    .filter((id) => (answerCounts[id] || 0) > 0)
+    .map((id) => ({
+      id,
+      label: labels.get(id) || id,
+      submissionCount: answerCounts[id]
+    }));
+}
@@ -0,0 +1,54 @@
+export interface TextPart {
+  text: string;
+  match: boolean;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The words to highlight for a search in the syntax list_submissions accepts:
+ * quotes are dropped, `-excluded` words and the `or` keyword are skipped.
+ */
+export function getSearchTerms(search: string | undefined): string[] {
+  const tokens = (search || '').match(/-?"[^"]*"?|\S+/g) || [];
+  const words = tokens
+    .filter((token) => !token.startsWith('-'))
+    .flatMap((token) => token.toLowerCase().split(/[^\p{L}\p{N}]+/u))
+    .filter((word) => word && word !== 'or');
+  return [...new Set(words)];
+}
+
+// The database matches word stems, so this highlights where the typed words appear
+// and may miss other forms of the same word (e.g. "invoices" for "invoice").
+function getTermPattern(terms: string[], flags: string): RegExp | null {
+  if (terms.length === 0) return null;
+  // Longest first so a longer word wins over its own prefix
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  return new RegExp(`(${alternatives.join('|')})`, flags);
+}
+
+export function splitMatches(text: string, terms: string[]): TextPart[] {
+  const pattern = getTermPattern(terms, 'giu');
+  if (!pattern || !text) return [{ text, match: false }];
+
+  return text
+    .split(pattern)
+    .filter((part) => part !== '')
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
+
+// Whether any string or number in an answer (however deeply nested) contains a term
+export function answerMatches(value: unknown, terms: string[]): boolean {
+  const pattern = getTermPattern(terms, 'iu');
+  if (!pattern) return false;
+
+  const visit = (item: unknown): boolean => {
+    if (typeof item === 'string' || typeof item === 'number') return pattern.test(String(item));
+    if (Array.isArray(item)) return item.some(visit);
+    if (item && typeof item === 'object') return Object.values(item).some(visit);
+    return false;
+  };
+  return visit(value);
+}
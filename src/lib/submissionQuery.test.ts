@@ -0,0 +1,132 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { PGlite } from '@electric-sql/pglite';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { FormField } from '@/hooks/useForms';
+import { getSortArgs, parseSubmissionQuery, writeSubmissionQuery, type SubmissionQuery } from './submissionQuery';
+
+const fields: FormField[] = [
+  { id: 'name', type: 'text', label: 'Name', required: false },
+  { id: 'score', type: 'number', label: 'Score', required: false }
+];
+
+describe('submission query URL state', () => {
+  it.each([
+    ['after', false],
+    ['before', true]
+  ])('keeps the sort and the %s cursor through a round trip', (param, backward) => {
+    const query = parseSubmissionQuery(new URLSearchParams({ sort: 'score', order: 'asc', [param]: 'row-id' }), fields);
+
+    expect(query).toMatchObject({ sort: 'score', sortKind: 'number', descending: false, cursor: 'row-id', backward });
+    expect(parseSubmissionQuery(writeSubmissionQuery(new URLSearchParams(), query), fields)).toEqual(query);
+  });
+
+  it('drops a sort on a field that is not in the form but keeps the page', () => {
+    const query = parseSubmissionQuery(new URLSearchParams({ sort: 'removed', after: 'row-id' }), fields);
+
+    expect(query).toMatchObject({ sort: undefined, sortKind: undefined, descending: true, cursor: 'row-id', backward: false });
+  });
+});
+
+// list_submissions runs against an in-process Postgres loaded with the repo's migrations
+const FORM_ID = '11111111-1111-4111-8111-111111111111';
+const rowId = (n: number) => `00000000-0000-4000-8000-00000000000${n}`;
+
+// Missing or null scores, a score stored as text and a missing or blank name all sort as empty
+const ROWS: Record<string, unknown>[] = [
+  { name: 'Bea', score: 7 },
+  { name: 'al' },
+  { name: 'Cy', score: 3 },
+  { score: 7 },
+  { name: 'Dee' },
+  { name: 'bea', score: '9' },
+  { name: 'Eve', score: 10 },
+  { name: '', score: null }
+];
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = new PGlite();
+  await db.exec(`
+    CREATE TABLE public.submissions (
+      id UUID PRIMARY KEY,
+      form_id UUID NOT NULL,
+      responses JSONB NOT NULL DEFAULT '{}'::jsonb,
+      submitted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+  `);
+  const migrations = new URL('../../supabase/migrations/', import.meta.url);
+  for (const file of readdirSync(migrations).sort()) {
+    const sql = readFileSync(new URL(file, migrations), 'utf8');
+    if (/FUNCTION public\.(list_submissions|submission_sort_sql)/.test(sql)) await db.exec(sql);
+  }
+  for (const [index, responses] of ROWS.entries()) {
+    await db.query(
+      'INSERT INTO public.submissions (id, form_id, responses, submitted_at) VALUES ($1, $2, $3, $4)',
+      [rowId(index + 1), FORM_ID, JSON.stringify(responses), `2025-01-0${index + 1}T12:00:00Z`]
+    );
+  }
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+async function listSubmissions(query: SubmissionQuery, limit: number): Promise<string[]> {
+  const args: Record<string, unknown> = {
+    p_form_id: FORM_ID,
+    ...getSortArgs(query),
+    p_cursor: query.cursor,
+    p_backward: !!query.backward,
+    p_limit: limit
+  };
+  const names = Object.keys(args);
+  const { rows } = await db.query<{ id: string }>(
+    `SELECT id FROM public.list_submissions(${names.map((name, i) => `${name} => $${i + 1}`).join(', ')})`,
+    names.map((name) => args[name] ?? null)
+  );
+  return rows.map((row) => row.id);
+}
+
+// Pages forward from the start, then back again from the last page, the way the table does
+async function walkPages(query: SubmissionQuery, pageSize: number) {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await listSubmissions({ ...query, cursor, backward: false }, pageSize);
+    if (page.length === 0) break;
+    pages.push(page);
+    cursor = page[page.length - 1];
+  }
+
+  const backPages: string[][] = [pages[pages.length - 1]];
+  for (;;) {
+    const page = await listSubmissions({ ...query, cursor: backPages[0][0], backward: true }, pageSize);
+    if (page.length === 0) break;
+    backPages.unshift(page.reverse());
+  }
+  return { pages, backPages };
+}
+
+const sortQuery = (params: Record<string, string>) => parseSubmissionQuery(new URLSearchParams(params), fields);
+
+describe('list_submissions keyset paging', () => {
+  it.each([
+    ['newest first', {}, [8, 7, 6, 5, 4, 3, 2, 1]],
+    ['oldest first', { order: 'asc' }, [1, 2, 3, 4, 5, 6, 7, 8]],
+    ['score, highest first', { sort: 'score' }, [7, 4, 1, 3, 8, 6, 5, 2]],
+    ['score, lowest first', { sort: 'score', order: 'asc' }, [3, 1, 4, 7, 2, 5, 6, 8]],
+    ['name, A to Z', { sort: 'name', order: 'asc' }, [2, 1, 6, 3, 5, 7, 4, 8]],
+    ['name, Z to A', { sort: 'name' }, [7, 5, 3, 6, 1, 2, 8, 4]]
+  ])('pages through %s without skipping or repeating rows', async (_name, params, expected) => {
+    const query = sortQuery(params);
+    const order = expected.map(rowId);
+
+    expect(await listSubmissions(query, 100)).toEqual(order);
+    for (const pageSize of [1, 2, 3]) {
+      const { pages, backPages } = await walkPages(query, pageSize);
+      expect(pages.flat()).toEqual(order);
+      expect(backPages).toEqual(pages);
+    }
+  });
+});
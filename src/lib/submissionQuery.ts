@@ -0,0 +1,172 @@
+import { endOfDay, startOfDay } from 'date-fns';
+import type { FormField } from '@/hooks/useForms';
+
+// `date` covers dates and times, which are stored as ISO strings and compared as text
+export type FilterKind = 'text' | 'date' | 'number' | 'option';
+export type FilterOperator = 'eq' | 'contains' | 'gte' | 'lte' | 'in';
+
+export interface SubmissionFilter {
+  field: string;
+  kind: FilterKind;
+  op: FilterOperator;
+  // A list of options for `in`, otherwise a single value
+  value: string | string[];
+}
+
+export interface SubmissionQuery {
+  filters: SubmissionFilter[];
+  // Submission dates (yyyy-mm-dd), inclusive in the viewer's time zone
+  from?: string;
+  to?: string;
+  // Full-text search over all answers, in web search syntax
+  search?: string;
+  // A field id; unset sorts by submission time
+  sort?: string;
+  // Derived from the sort field when parsing
+  sortKind?: 'text' | 'number';
+  descending: boolean;
+  // Id of the row to page after, or before when `backward` is set
+  cursor?: string;
+  backward?: boolean;
+}
+
+export const SUBMISSIONS_PAGE_SIZE = 25;
+
+const FILTER_KINDS: Partial<Record<FormField['type'], FilterKind>> = {
+  text: 'text',
+  email: 'text',
+  textarea: 'text',
+  phone: 'text',
+  url: 'text',
+  hidden: 'text',
+  date: 'date',
+  time: 'date',
+  'datetime-local': 'date',
+  number: 'number',
+  currency: 'number',
+  rating: 'number',
+  scale: 'number',
+  nps: 'number',
+  calculated: 'number',
+  select: 'option',
+  radio: 'option',
+  checkbox: 'option'
+};
+
+export const FILTER_OPERATORS: Record<FilterKind, { op: FilterOperator; label: string }[]> = {
+  text: [
+    { op: 'contains', label: 'contains' },
+    { op: 'eq', label: 'is' }
+  ],
+  date: [
+    { op: 'eq', label: 'is' },
+    { op: 'gte', label: 'on or after' },
+    { op: 'lte', label: 'on or before' }
+  ],
+  number: [
+    { op: 'eq', label: '=' },
+    { op: 'gte', label: '≥' },
+    { op: 'lte', label: '≤' }
+  ],
+  option: [{ op: 'in', label: 'is any of' }]
+};
+
+// Matrix, group, address, signature and file answers can't be filtered or sorted on
+export function getFilterKind(field: FormField): FilterKind | null {
+  return FILTER_KINDS[field.type] ?? null;
+}
+
+const FILTER_PARAM = /^f\.([A-Za-z0-9_]+)\.(eq|contains|gte|lte|in)$/;
+// Plain decimals only, as list_submissions accepts
+export const NUMBER_VALUE = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Reads the table state from the URL: `f.<field>.<op>=value` per filter (repeated for
+ * each option of `in`), `from`/`to`, `q` for search, `sort`/`order`, and `after`/`before`
+ * for the page.
+ * Anything that doesn't fit the current fields is ignored.
+ */
+export function parseSubmissionQuery(params: URLSearchParams, fields: FormField[]): SubmissionQuery {
+  const fieldsById = new Map(fields.map((field) => [field.id, field]));
+  const filters: SubmissionFilter[] = [];
+
+  for (const key of new Set(params.keys())) {
+    const match = FILTER_PARAM.exec(key);
+    const field = match && fieldsById.get(match[1]);
+    const kind = field && getFilterKind(field);
+    const op = match?.[2] as FilterOperator;
+    if (!field || !kind || !FILTER_OPERATORS[kind].some((operator) => operator.op === op)) continue;
+
+    const values = params.getAll(key).filter((value) => value !== '');
+    if (values.length === 0) continue;
+    if (kind === 'number' && !values.every((value) => NUMBER_VALUE.test(value))) continue;
+    filters.push({ field: field.id, kind, op, value: op === 'in' ? values : values[0] });
+  }
+
+  const sortField = fieldsById.get(params.get('sort') || '');
+  const sortKind = sortField && getFilterKind(sortField);
+  const after = params.get('after');
+  const before = params.get('before');
+
+  return {
+    filters,
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+    search: params.get('q')?.trim() || undefined,
+    sort: sortKind ? sortField.id : undefined,
+    sortKind: sortKind ? (sortKind === 'number' ? 'number' : 'text') : undefined,
+    descending: params.get('order') !== 'asc',
+    cursor: after || before || undefined,
+    backward: !after && !!before
+  };
+}
+
+const QUERY_PARAMS = ['from', 'to', 'q', 'sort', 'order', 'after', 'before'];
+
+// Writes the query over `params`, keeping any unrelated parameters
+export function writeSubmissionQuery(params: URLSearchParams, query: SubmissionQuery): URLSearchParams {
+  const next = new URLSearchParams(params);
+  for (const key of [...next.keys()]) {
+    if (QUERY_PARAMS.includes(key) || FILTER_PARAM.test(key)) next.delete(key);
+  }
+
+  for (const filter of query.filters) {
+    const values = Array.isArray(filter.value) ? filter.value : [filter.value];
+    values.forEach((value) => next.append(`f.${filter.field}.${filter.op}`, value));
+  }
+  if (query.from) next.set('from', query.from);
+  if (query.to) next.set('to', query.to);
+  if (query.search) next.set('q', query.search);
+  if (query.sort) next.set('sort', query.sort);
+  if (!query.descending) next.set('order', 'asc');
+  if (query.cursor) next.set(query.backward ? 'before' : 'after', query.cursor);
+
+  return next;
+}
+
+export function hasActiveFilters(query: SubmissionQuery): boolean {
+  return query.filters.length > 0 || !!query.from || !!query.to || !!query.search;
+}
+
+// Arguments shared by list_submissions and count_submissions
+export function getFilterArgs(query: Pick<SubmissionQuery, 'filters' | 'from' | 'to' | 'search'>) {
+  return {
+    p_filters: query.filters.map(({ field, kind, op, value }) => ({
+      field,
+      op,
+      kind: kind === 'date' ? 'text' : kind,
+      value
+    })),
+    p_from: query.from ? startOfDay(new Date(`${query.from}T00:00`)).toISOString() : undefined,
+    p_to: query.to ? endOfDay(new Date(`${query.to}T00:00`)).toISOString() : undefined,
+    p_search: query.search
+  };
+}
+
+export function getSortArgs(query: SubmissionQuery) {
+  return {
+    p_sort_field: query.sort,
+    p_sort_kind: query.sortKind ?? 'text',
+    p_descending: query.descending
+  };
+}
@@ -0,0 +1,168 @@
+import {
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  eachWeekOfInterval,
+  format,
+  startOfDay,
+  startOfWeek
+} from 'date-fns';
+import { getVisibleFieldIds } from '@shared/formConditions';
+import { isEmptyAnswer } from '@shared/formValidation';
+import type { FormField } from '@/hooks/useForms';
+import type { Submission } from '@/hooks/useSubmissions';
+
+export const OPTION_CHART_TYPES: FormField['type'][] = ['select', 'radio', 'checkbox'];
+export const NUMBER_CHART_TYPES: FormField['type'][] = ['number', 'currency'];
+
+// Inclusive bounds; either side may be open
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+export interface TimelinePoint {
+  label: string;
+  count: number;
+}
+
+export interface OptionSummary {
+  field: FormField;
+  responseCount: number;
+  // Current options first, then answers no longer offered (e.g. from an older version)
+  options: { option: string; count: number; retired?: boolean }[];
+}
+
+export interface NumberSummary {
+  field: FormField;
+  responseCount: number;
+  average: number | null;
+  median: number | null;
+  min: number | null;
+  max: number | null;
+  histogram: { label: string; count: number }[];
+}
+
+export interface FieldCompletion {
+  field: FormField;
+  // Submissions where the field was shown, after conditions
+  shown: number;
+  answered: number;
+  rate: number;
+}
+
+const HISTOGRAM_BINS = 8;
+// Longer ranges are bucketed by week so the chart stays readable
+const DAILY_TIMELINE_LIMIT = 92;
+
+/**
+ * Counts submissions per day (or per week for long ranges) with empty buckets
+ * filled in. An open range starts at the first submission and ends today.
+ */
+export function getResponseTimeline(submissions: Submission[], range: DateRange): TimelinePoint[] {
+  const dates = submissions.map((submission) => new Date(submission.submitted_at));
+  if (dates.length === 0 && !range.from) return [];
+
+  const start = startOfDay(range.from ?? new Date(Math.min(...dates.map(Number))));
+  const end = startOfDay(range.to ?? new Date());
+  if (start > end) return [];
+
+  const weekly = differenceInCalendarDays(end, start) > DAILY_TIMELINE_LIMIT;
+  const bucketOf = (date: Date) => (weekly ? startOfWeek(date) : startOfDay(date)).getTime();
+  const buckets = weekly ? eachWeekOfInterval({ start, end }) : eachDayOfInterval({ start, end });
+
+  const counts = new Map<number, number>();
+  for (const date of dates) counts.set(bucketOf(date), (counts.get(bucketOf(date)) ?? 0) + 1);
+
+  return buckets.map((bucket) => ({
+    label: weekly ? `Week of ${format(bucket, 'MMM d')}` : format(bucket, 'MMM d'),
+    count: counts.get(bucket.getTime()) ?? 0
+  }));
+}
+
+export function summarizeOptionField(field: FormField, responses: Record<string, unknown>[]): OptionSummary {
+  const counts = new Map<string, number>((field.options || []).map((option) => [option, 0]));
+  let responseCount = 0;
+
+  for (const response of responses) {
+    const value = response[field.id];
+    const answers = (Array.isArray(value) ? value : [value]).filter((answer) => !isEmptyAnswer(answer)).map(String);
+    if (answers.length === 0) continue;
+    responseCount += 1;
+    for (const answer of answers) counts.set(answer, (counts.get(answer) ?? 0) + 1);
+  }
+
+  const current = new Set(field.options || []);
+  return {
+    field,
+    responseCount,
+    options: [...counts.entries()].map(([option, count]) => ({
+      option,
+      count,
+      ...(current.has(option) ? {} : { retired: true })
+    }))
+  };
+}
+
+function formatBinBound(value: number): string {
+  return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+export function summarizeNumberField(field: FormField, responses: Record<string, unknown>[]): NumberSummary {
+  const answers = responses
+    .map((response) => response[field.id])
+    .filter((value) => !isEmptyAnswer(value))
+    .map(Number)
+    .filter(Number.isFinite)
+    .sort((a, b) => a - b);
+
+  if (answers.length === 0) {
+    return { field, responseCount: 0, average: null, median: null, min: null, max: null, histogram: [] };
+  }
+
+  const min = answers[0];
+  const max = answers[answers.length - 1];
+  const middle = Math.floor(answers.length / 2);
+  const median = answers.length % 2 === 0 ? (answers[middle - 1] + answers[middle]) / 2 : answers[middle];
+
+  // Equal-width bins; a single distinct value gets a single bar
+  const binCount = min === max ? 1 : Math.min(HISTOGRAM_BINS, new Set(answers).size);
+  const width = (max - min) / binCount || 1;
+  const histogram = Array.from({ length: binCount }, (_, i) => {
+    const low = min + i * width;
+    const high = i === binCount - 1 ? max : low + width;
+    return { label: min === max ? formatBinBound(min) : `${formatBinBound(low)}–${formatBinBound(high)}`, count: 0 };
+  });
+  for (const answer of answers) {
+    histogram[Math.min(binCount - 1, Math.floor((answer - min) / width))].count += 1;
+  }
+
+  return {
+    field,
+    responseCount: answers.length,
+    average: answers.reduce((sum, answer) => sum + answer, 0) / answers.length,
+    median,
+    min,
+    max,
+    histogram
+  };
+}
+
+/**
+ * How often each field was answered when it was shown. Fields hidden by their
+ * conditions don't count against them, and computed fields are left out.
+ */
+export function getFieldCompletion(fields: FormField[], responses: Record<string, unknown>[]): FieldCompletion[] {
+  const inputFields = fields.filter((field) => field.type !== 'hidden' && field.type !== 'calculated');
+  const completion = inputFields.map((field) => ({ field, shown: 0, answered: 0, rate: 0 }));
+
+  for (const response of responses) {
+    const visibleIds = getVisibleFieldIds(fields, response);
+    completion.forEach((entry) => {
+      if (!visibleIds.has(entry.field.id)) return;
+      entry.shown += 1;
+      if (!isEmptyAnswer(response[entry.field.id])) entry.answered += 1;
+    });
+  }
+
+  return completion.map((entry) => ({ ...entry, rate: entry.shown > 0 ? entry.answered / entry.shown : 0 }));
+}
@@ -1,25 +1,32 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useForms, FormSchema } from '@/hooks/useForms';
+import { useForms, type FormSchema, type SchemaFix } from '@/hooks/useForms';
+import { useSchemaHistory } from '@/hooks/useSchemaHistory';
 import { Navbar } from '@/components/Navbar';
+import { FormBuilder } from '@/components/FormBuilder';
+import { RefinementChat } from '@/components/RefinementChat';
 import { DynamicFormRenderer } from '@/components/DynamicFormRenderer';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { toast } from '@/hooks/use-toast';
-import { Loader2, Sparkles, Save, Eye, ArrowLeft } from 'lucide-react';
+import { Loader2, Sparkles, Save, ArrowLeft, Wrench, X, Eye } from 'lucide-react';
 
 export default function CreateForm() {
   const [prompt, setPrompt] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
-  const [generatedSchema, setGeneratedSchema] = useState<FormSchema | null>(null);
   const [isSaving, setIsSaving] = useState(false);
-  const [showPreview, setShowPreview] = useState(false);
+  const [fixes, setFixes] = useState<SchemaFix[]>([]);
+  const [streamingSchema, setStreamingSchema] = useState<FormSchema | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const history = useSchemaHistory();
+  const generatedSchema = history.schema;
   
   const navigate = useNavigate();
-  const { generateFormWithAI, createForm } = useForms();
+  const { streamFormWithAI, createForm } = useForms();
 
   const handleGenerate = async () => {
     if (!prompt.trim()) {
@@ -31,15 +38,25 @@ export default function CreateForm() {
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsGenerating(true);
     try {
-      const schema = await generateFormWithAI(prompt);
-      setGeneratedSchema(schema);
+      const { schema, fixes } = await streamFormWithAI(prompt, {
+        onPartial: setStreamingSchema,
+        signal: controller.signal
+      });
+      history.reset(schema);
+      setFixes(fixes);
       toast({
         title: 'Form generated!',
         description: 'Review your form and save it when ready.'
       });
     } catch (error) {
+      if (controller.signal.aborted) {
+        toast({ title: 'Generation cancelled' });
+        return;
+      }
       console.error('Generation error:', error);
       toast({
         variant: 'destructive',
@@ -47,7 +64,9 @@ export default function CreateForm() {
         description: error instanceof Error ? error.message : 'Failed to generate form'
       });
     } finally {
+      abortRef.current = null;
       setIsGenerating(false);
+      setStreamingSchema(null);
     }
   };
 
@@ -78,13 +97,6 @@ export default function CreateForm() {
     }
   };
 
-  const handlePreviewSubmit = async () => {
-    toast({
-      title: 'Preview mode',
-      description: 'This is just a preview. Save the form to enable submissions.'
-    });
-  };
-
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
@@ -125,116 +137,101 @@ export default function CreateForm() {
                   />
                 </div>
                 
-                <Button 
-                  onClick={handleGenerate} 
-                  disabled={isGenerating || !prompt.trim()}
-                  className="w-full"
-                >
-                  {isGenerating ? (
-                    <>
+                {isGenerating ? (
+                  <div className="flex gap-2">
+                    <Button disabled className="flex-1">
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Generating...
-                    </>
-                  ) : (
-                    <>
-                      <Sparkles className="mr-2 h-4 w-4" />
-                      Generate Form
-                    </>
-                  )}
-                </Button>
-              </CardContent>
-            </Card>
-
-            {/* Example Prompts */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-sm">Example Prompts</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                {[
-                  "Create a customer feedback form with rating, comments, and optional contact info",
-                  "Build an event registration form with name, email, number of guests, and dietary preferences",
-                  "Make a bug report form with title, description, severity level, and screenshot upload"
-                ].map((example, i) => (
+                      Generating{streamingSchema ? ` · ${streamingSchema.fields.length} fields so far` : '...'}
+                    </Button>
+                    <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+                      <X className="mr-2 h-4 w-4" />
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
                   <Button
-                    key={i}
-                    variant="outline"
-                    size="sm"
-                    className="w-full justify-start text-left h-auto py-2 text-xs"
-                    onClick={() => setPrompt(example)}
+                    onClick={handleGenerate}
+                    disabled={!prompt.trim()}
+                    className="w-full"
                   >
-                    {example}
+                    <Sparkles className="mr-2 h-4 w-4" />
+                    Generate Form
                   </Button>
-                ))}
+                )}
               </CardContent>
             </Card>
-          </div>
 
-          {/* Preview Panel */}
-          <div className="space-y-6">
+            {/* Refinement chat once there is a form, example prompts until then */}
             {generatedSchema ? (
-              <>
-                <div className="flex items-center justify-between">
-                  <h2 className="text-xl font-semibold">Generated Form</h2>
-                  <div className="flex gap-2">
+              <RefinementChat schema={generatedSchema} onApply={(schema) => history.setSchema(schema)} />
+            ) : (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Example Prompts</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {[
+                    "Create a customer feedback form with rating, comments, and optional contact info",
+                    "Build an event registration form with name, email, number of guests, and dietary preferences",
+                    "Make a bug report form with title, description, severity level, and screenshot upload"
+                  ].map((example, i) => (
                     <Button
+                      key={i}
                       variant="outline"
-                      onClick={() => setShowPreview(!showPreview)}
+                      size="sm"
+                      className="w-full justify-start text-left h-auto py-2 text-xs"
+                      onClick={() => setPrompt(example)}
                     >
-                      <Eye className="mr-2 h-4 w-4" />
-                      {showPreview ? 'Edit Schema' : 'Preview Form'}
-                    </Button>
-                    <Button onClick={handleSave} disabled={isSaving}>
-                      {isSaving ? (
-                        <>
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Saving...
-                        </>
-                      ) : (
-                        <>
-                          <Save className="mr-2 h-4 w-4" />
-                          Save Form
-                        </>
-                      )}
+                      {example}
                     </Button>
-                  </div>
-                </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
 
-                {showPreview ? (
-                  <DynamicFormRenderer
-                    schema={generatedSchema}
-                    onSubmit={handlePreviewSubmit}
-                  />
-                ) : (
-                  <Card>
-                    <CardHeader>
-                      <CardTitle>{generatedSchema.title}</CardTitle>
-                      <CardDescription>{generatedSchema.description}</CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-4">
-                        <h3 className="font-medium">Fields ({generatedSchema.fields.length})</h3>
-                        <div className="space-y-2">
-                          {generatedSchema.fields.map((field, index) => (
-                            <div
-                              key={field.id}
-                              className="flex items-center justify-between p-3 bg-muted rounded-lg"
-                            >
-                              <div>
-                                <p className="font-medium">{field.label}</p>
-                                <p className="text-sm text-muted-foreground">
-                                  Type: {field.type} {field.required && '• Required'}
-                                </p>
-                              </div>
-                              <span className="text-sm text-muted-foreground">#{index + 1}</span>
-                            </div>
+          {/* Status Panel */}
+          <div className="space-y-6">
+            {generatedSchema ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle>{generatedSchema.title || 'Untitled form'}</CardTitle>
+                  <CardDescription>
+                    {generatedSchema.fields.length} field{generatedSchema.fields.length !== 1 ? 's' : ''} ·
+                    {' '}edit them below, then save when ready
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {fixes.length > 0 && (
+                    <Alert>
+                      <Wrench className="h-4 w-4" />
+                      <AlertTitle>
+                        Fixed {fixes.length} problem{fixes.length !== 1 ? 's' : ''} in the AI output
+                      </AlertTitle>
+                      <AlertDescription>
+                        <ul className="list-disc pl-4 text-xs space-y-0.5">
+                          {fixes.map((fix, i) => (
+                            <li key={i}>{fix.message}</li>
                           ))}
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                )}
-              </>
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  <Button onClick={handleSave} disabled={isSaving || !generatedSchema.title.trim()} className="w-full">
+                    {isSaving ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      <>
+                        <Save className="mr-2 h-4 w-4" />
+                        Save Form
+                      </>
+                    )}
+                  </Button>
+                </CardContent>
+              </Card>
             ) : (
               <Card className="h-[400px] flex items-center justify-center">
                 <CardContent className="text-center">
@@ -243,11 +240,40 @@ export default function CreateForm() {
                   <p className="text-muted-foreground">
                     Describe your form and click "Generate Form" to get started
                   </p>
+                  <Button
+                    variant="link"
+                    className="mt-2"
+                    onClick={() => {
+                      history.reset({ title: 'Untitled form', description: '', fields: [] });
+                      setFixes([]);
+                    }}
+                  >
+                    or start from a blank form
+                  </Button>
                 </CardContent>
               </Card>
             )}
           </div>
         </div>
+
+        {streamingSchema ? (
+          <div className="mt-8 space-y-4 lg:w-1/2">
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              <Eye className="h-5 w-5" />
+              Preview
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </h2>
+            <DynamicFormRenderer
+              key={streamingSchema.fields.map((field) => field.id).join('|')}
+              schema={streamingSchema}
+              onSubmit={async () => {}}
+            />
+          </div>
+        ) : generatedSchema && (
+          <div className="mt-8">
+            <FormBuilder history={history} />
+          </div>
+        )}
       </main>
     </div>
   );
@@ -6,7 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Plus, FileText, Eye, Trash2, BarChart3, ExternalLink, Copy } from 'lucide-react';
+import { Plus, FileText, Eye, Trash2, BarChart3, ExternalLink, Copy, Pencil } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import {
   AlertDialog,
@@ -113,6 +113,12 @@ export default function Dashboard() {
                     </Button>
                   </Link>
                   
+                  <Link to={`/edit/${form.id}`}>
+                    <Button variant="ghost" size="icon" aria-label="Edit form">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </Link>
+                  
                   <Button
                     variant="ghost"
                     size="icon"
@@ -0,0 +1,252 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useForm, useForms } from '@/hooks/useForms';
+import { countFieldAnswers, useSubmissionCount } from '@/hooks/useSubmissions';
+import { useAuth } from '@/hooks/useAuth';
+import { useSchemaHistory } from '@/hooks/useSchemaHistory';
+import { Navbar } from '@/components/Navbar';
+import { FormBuilder } from '@/components/FormBuilder';
+import { PrefillSettingsCard } from '@/components/PrefillSettingsCard';
+import { DraftSettingsCard } from '@/components/DraftSettingsCard';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from '@/hooks/use-toast';
+import { findOrphanedFields, getRemovedFieldIds, type OrphanedField } from '@/lib/schemaEditing';
+import { readFormSettings } from '@/lib/formPrefill';
+import { repairFormSchema } from '@shared/formSchema';
+import { ArrowLeft, AlertCircle, Loader2, Save, History } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { FormSchema, FormSettings } from '@/hooks/useForms';
+
+export default function EditForm() {
+  const { formId } = useParams<{ formId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { data: form, isLoading, error } = useForm(formId);
+  const { data: submissionCount = 0 } = useSubmissionCount(formId);
+  const { updateForm } = useForms();
+  const history = useSchemaHistory();
+  const [isSaving, setIsSaving] = useState(false);
+  const [orphanedFields, setOrphanedFields] = useState<OrphanedField[]>([]);
+  const [settings, setSettings] = useState<FormSettings>({});
+  const loadedFormId = useRef<string | null>(null);
+
+  const originalSchema = form?.schema as unknown as FormSchema | undefined;
+  const { reset } = history;
+
+  // Seed the editor once per form so background refetches don't wipe unsaved edits
+  useEffect(() => {
+    if (!form || loadedFormId.current === form.id) return;
+    loadedFormId.current = form.id;
+    const schema = form.schema as unknown as FormSchema;
+    // Older forms may predate strict validation; repair them so they can be saved again
+    const { schema: repaired } = repairFormSchema({
+      ...schema,
+      title: form.title,
+      description: form.description || schema.description || ''
+    });
+    reset(repaired);
+    setSettings(readFormSettings(form.settings));
+  }, [form, reset]);
+
+  const saveSchema = async () => {
+    if (!formId || !history.schema) return;
+
+    // Drop allowlisted ids whose fields were removed or renamed while editing
+    const fieldIds = new Set(history.schema.fields.map((field) => field.id));
+    const prefillFields = settings.prefill?.fields.filter((fieldId) => fieldIds.has(fieldId)) ?? [];
+    const savedSettings: FormSettings = {
+      ...settings,
+      prefill: prefillFields.length > 0 ? { ...settings.prefill, fields: prefillFields } : undefined
+    };
+
+    setIsSaving(true);
+    try {
+      await updateForm.mutateAsync({
+        id: formId,
+        title: history.schema.title,
+        description: history.schema.description,
+        schema: JSON.parse(JSON.stringify(history.schema)),
+        settings: JSON.parse(JSON.stringify(savedSettings))
+      });
+      toast({
+        title: 'Form updated',
+        description: 'Your changes have been saved.'
+      });
+      navigate('/dashboard');
+    } catch (error) {
+      console.error('Update error:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Save failed',
+        description: error instanceof Error ? error.message : 'Failed to save form'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!formId || !history.schema || !originalSchema) return;
+
+    let answerCounts: Record<string, number>;
+    try {
+      answerCounts = await countFieldAnswers(formId, getRemovedFieldIds(originalSchema, history.schema));
+    } catch (error) {
+      console.error('Answer count error:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Save failed',
+        description: 'Could not check existing submissions for removed fields'
+      });
+      return;
+    }
+
+    const orphaned = findOrphanedFields(answerCounts, originalSchema, history.schema);
+    if (orphaned.length > 0) {
+      setOrphanedFields(orphaned);
+      return;
+    }
+    saveSchema();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <main className="container mx-auto px-4 py-8">
+          <Skeleton className="h-8 w-48 mb-6" />
+          <Skeleton className="h-[400px] w-full" />
+        </main>
+      </div>
+    );
+  }
+
+  if (error || !form || form.user_id !== user?.id) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <main className="container mx-auto px-4 py-16 text-center">
+          <AlertCircle className="h-12 w-12 mx-auto text-destructive mb-4" />
+          <h1 className="text-xl font-semibold mb-2">Form not found</h1>
+          <p className="text-muted-foreground mb-6">
+            This form may have been deleted or you don't have access to edit it.
+          </p>
+          <Button onClick={() => navigate('/dashboard')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main className="container mx-auto px-4 py-8">
+        <Button
+          variant="ghost"
+          className="mb-6"
+          onClick={() => navigate('/dashboard')}
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Dashboard
+        </Button>
+
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Edit Form</h1>
+            <p className="text-muted-foreground mt-1">
+              {submissionCount} existing submission{submissionCount !== 1 ? 's' : ''}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Link to={`/versions/${formId}`}>
+              <Button variant="outline">
+                <History className="mr-2 h-4 w-4" />
+                Version {form.current_version}
+              </Button>
+            </Link>
+            <Button onClick={handleSave} disabled={isSaving || !history.schema?.title.trim()}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+
+        <FormBuilder history={history} />
+
+        {history.schema && formId && (
+          <div className="mt-8 grid gap-8 lg:grid-cols-2">
+            <PrefillSettingsCard
+              formId={formId}
+              schema={history.schema}
+              prefill={settings.prefill}
+              onChange={(prefill) => setSettings((prev) => ({ ...prev, prefill }))}
+            />
+            <DraftSettingsCard
+              drafts={settings.drafts}
+              onChange={(drafts) => setSettings((prev) => ({ ...prev, drafts }))}
+            />
+          </div>
+        )}
+
+        <AlertDialog open={orphanedFields.length > 0} onOpenChange={(open) => !open && setOrphanedFields([])}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Remove fields with existing answers?</AlertDialogTitle>
+              <AlertDialogDescription asChild>
+                <div className="space-y-2">
+                  <p>
+                    These fields have answers in existing submissions. After saving, those answers
+                    will no longer appear as table columns or in the CSV export, though each
+                    submission's details still show them against the version it was filled in.
+                  </p>
+                  <ul className="list-disc pl-5">
+                    {orphanedFields.map((field) => (
+                      <li key={field.id}>
+                        {field.label} ({field.submissionCount} submission{field.submissionCount !== 1 ? 's' : ''})
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Editing</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  setOrphanedFields([]);
+                  saveSchema();
+                }}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Save Anyway
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </main>
+    </div>
+  );
+}
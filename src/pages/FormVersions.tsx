@@ -0,0 +1,284 @@
+import { useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useForm, useForms } from '@/hooks/useForms';
+import { useFormVersions, type FormVersion } from '@/hooks/useFormVersions';
+import { Navbar } from '@/components/Navbar';
+import { SchemaChangeSummary } from '@/components/SchemaChangeSummary';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { toast } from '@/hooks/use-toast';
+import { diffSchemas } from '@shared/schemaDiff';
+import { parseFormSchema, type SchemaFix } from '@shared/formSchema';
+import { AlertCircle, ArrowLeft, ArrowRight, History, RotateCcw, Wrench } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import type { FormSchema } from '@/hooks/useForms';
+
+interface RestorePlan {
+  schema: FormSchema | null;
+  fixes: SchemaFix[];
+  problem: string | null;
+}
+
+// Older snapshots may predate strict validation, so they are repaired the way the
+// editor repairs a form it loads; only a snapshot that is still invalid is refused
+function planRestore(version: FormVersion): RestorePlan {
+  try {
+    const { schema, fixes } = parseFormSchema({
+      ...(version.schema as unknown as FormSchema),
+      title: version.title,
+      description: version.description || ''
+    });
+    return { schema, fixes, problem: null };
+  } catch (error) {
+    return { schema: null, fixes: [], problem: error instanceof Error ? error.message : 'Invalid form schema' };
+  }
+}
+
+export default function FormVersions() {
+  const { formId } = useParams<{ formId: string }>();
+  const navigate = useNavigate();
+  const { data: form, isLoading: formLoading } = useForm(formId);
+  const { versions, isLoading: versionsLoading } = useFormVersions(formId);
+  const { updateForm } = useForms();
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+
+  const currentVersion = form?.current_version;
+  const sorted = versions || [];
+
+  // Default to comparing the previous version against the live one
+  const toNumber = toVersion ?? sorted[0]?.version;
+  const fromNumber = fromVersion ?? sorted.find((v) => v.version < (toNumber ?? 0))?.version;
+  const from = sorted.find((v) => v.version === fromNumber);
+  const to = sorted.find((v) => v.version === toNumber);
+
+  const changes = from && to
+    ? diffSchemas(
+        { ...(from.schema as unknown as FormSchema), title: from.title, description: from.description || '' },
+        { ...(to.schema as unknown as FormSchema), title: to.title, description: to.description || '' }
+      )
+    : [];
+
+  const restorePlans = useMemo(
+    () => new Map((versions || []).map((version) => [version.id, planRestore(version)])),
+    [versions]
+  );
+
+  const handleRestore = async (version: FormVersion, plan: RestorePlan) => {
+    if (!formId || !plan.schema) return;
+
+    try {
+      const updated = await updateForm.mutateAsync({
+        id: formId,
+        title: version.title,
+        description: version.description,
+        schema: JSON.parse(JSON.stringify(plan.schema))
+      });
+      setFromVersion(null);
+      setToVersion(null);
+      const fixed = plan.fixes.length > 0
+        ? ` Fixed ${plan.fixes.length} problem${plan.fixes.length !== 1 ? 's' : ''} in the old version.`
+        : '';
+      toast({
+        title: 'Version restored',
+        description: `Version ${version.version} is now live as version ${updated.current_version}.${fixed}`
+      });
+    } catch (error) {
+      console.error('Restore error:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Restore failed',
+        description: error instanceof Error ? error.message : 'Failed to restore version'
+      });
+    }
+  };
+
+  if (formLoading || versionsLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <main className="container mx-auto px-4 py-8">
+          <Skeleton className="h-8 w-48 mb-6" />
+          <Skeleton className="h-[400px] w-full" />
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main className="container mx-auto px-4 py-8">
+        <Button
+          variant="ghost"
+          className="mb-6"
+          onClick={() => navigate(`/edit/${formId}`)}
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Editor
+        </Button>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
+            <History className="h-7 w-7" />
+            Version History
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            {form?.title} · {sorted.length} version{sorted.length !== 1 ? 's' : ''}
+          </p>
+        </div>
+
+        <div className="grid gap-8 lg:grid-cols-[1fr_2fr]">
+          <div className="space-y-3">
+            {sorted.map((version) => {
+              const fieldCount = (version.schema as unknown as FormSchema)?.fields?.length || 0;
+              const isCurrent = version.version === currentVersion;
+              const restore = restorePlans.get(version.id);
+
+              return (
+                <Card key={version.id}>
+                  <CardHeader className="pb-2">
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-base">Version {version.version}</CardTitle>
+                      {isCurrent && <Badge>Live</Badge>}
+                    </div>
+                    <CardDescription>
+                      {new Date(version.created_at).toLocaleString()} · {fieldCount} field{fieldCount !== 1 ? 's' : ''}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setToVersion(version.version);
+                        setFromVersion(sorted.find((v) => v.version < version.version)?.version ?? null);
+                      }}
+                    >
+                      View changes
+                    </Button>
+                    {!isCurrent && restore && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" disabled={updateForm.isPending}>
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                            Restore
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Restore version {version.version}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The form will go back to this version's title, description and fields.
+                              It is saved as a new version, so the current one stays in the history.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          {restore.problem ? (
+                            <Alert variant="destructive">
+                              <AlertCircle className="h-4 w-4" />
+                              <AlertTitle>This version can't be restored</AlertTitle>
+                              <AlertDescription>{restore.problem}</AlertDescription>
+                            </Alert>
+                          ) : restore.fixes.length > 0 && (
+                            <Alert>
+                              <Wrench className="h-4 w-4" />
+                              <AlertTitle>
+                                {restore.fixes.length} problem{restore.fixes.length !== 1 ? 's' : ''} will be fixed on restore
+                              </AlertTitle>
+                              <AlertDescription>
+                                <ul className="list-disc pl-4 text-xs space-y-0.5">
+                                  {restore.fixes.map((fix, i) => (
+                                    <li key={i}>{fix.message}</li>
+                                  ))}
+                                </ul>
+                              </AlertDescription>
+                            </Alert>
+                          )}
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction disabled={!restore.schema} onClick={() => handleRestore(version, restore)}>
+                              Restore
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          <Card className="lg:self-start">
+            <CardHeader>
+              <CardTitle>Compare Versions</CardTitle>
+              <div className="flex items-center gap-2 pt-2">
+                <Select
+                  value={fromNumber !== undefined ? String(fromNumber) : undefined}
+                  onValueChange={(value) => setFromVersion(Number(value))}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue placeholder="From" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sorted.map((version) => (
+                      <SelectItem key={version.id} value={String(version.version)}>
+                        Version {version.version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                <Select
+                  value={toNumber !== undefined ? String(toNumber) : undefined}
+                  onValueChange={(value) => setToVersion(Number(value))}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue placeholder="To" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sorted.map((version) => (
+                      <SelectItem key={version.id} value={String(version.version)}>
+                        Version {version.version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {!from || !to ? (
+                <p className="text-muted-foreground">Select two versions to compare.</p>
+              ) : changes.length === 0 ? (
+                <p className="text-muted-foreground">No differences between these versions.</p>
+              ) : (
+                <div className="space-y-3">
+                  {changes.map((change, i) => (
+                    <div key={i} className="border-b pb-3">
+                      <SchemaChangeSummary change={change} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,28 +1,54 @@
-import { useParams, useNavigate } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useForm } from '@/hooks/useForms';
 import { useSubmissions } from '@/hooks/useSubmissions';
+import { useFormDraft, type SavedDraft } from '@/hooks/useFormDrafts';
 import { DynamicFormRenderer } from '@/components/DynamicFormRenderer';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
-import { ArrowLeft, AlertCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowLeft, AlertCircle, Copy } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { getPrefillValues, readFormSettings } from '@/lib/formPrefill';
+import { clearLocalDraft, getLocalDraftKey } from '@/lib/formDrafts';
+import { getDraftExpiryDays } from '@shared/formDrafts';
 import type { FormSchema } from '@/hooks/useForms';
 
 export default function FormView() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { data: form, isLoading, error } = useForm(id);
   const { createSubmission } = useSubmissions(id);
 
-  const handleSubmit = async (data: Record<string, unknown>, imageUrls: string[]) => {
+  // A resume link carries ?draft=<id>; later saves in this visit update the same draft
+  const resumeDraftId = searchParams.get('draft');
+  const { draft, isLoading: isDraftLoading, error: draftError, saveDraft } = useFormDraft(id, resumeDraftId);
+  const [savedDraft, setSavedDraft] = useState<SavedDraft | null>(null);
+  const [showResumeLink, setShowResumeLink] = useState(false);
+  const draftId = savedDraft?.draftId ?? (draft ? resumeDraftId : null);
+  const autosaveKey = id ? getLocalDraftKey(id, draft ? resumeDraftId : null) : '';
+
+  useEffect(() => {
+    if (!draftError) return;
+    toast({
+      variant: 'destructive',
+      title: 'Draft unavailable',
+      description: draftError instanceof Error ? draftError.message : 'Failed to load draft'
+    });
+  }, [draftError]);
+
+  const handleSubmit = async (data: Record<string, unknown>) => {
     if (!id) return;
     
     try {
       await createSubmission.mutateAsync({
         formId: id,
         responses: data,
-        imageUrls
+        draftId: draftId ?? undefined
       });
+      clearLocalDraft(autosaveKey);
     } catch (error) {
       console.error('Submission error:', error);
       toast({
@@ -33,7 +59,37 @@ export default function FormView() {
     }
   };
 
-  if (isLoading) {
+  const handleSaveDraft = async (data: Record<string, unknown>) => {
+    if (!id) return;
+
+    try {
+      setSavedDraft(await saveDraft.mutateAsync({
+        formId: id,
+        responses: data,
+        draftId: draftId ?? undefined
+      }));
+      setShowResumeLink(true);
+    } catch (error) {
+      console.error('Draft error:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Draft not saved',
+        description: error instanceof Error ? error.message : 'Failed to save draft'
+      });
+    }
+  };
+
+  const resumeUrl = savedDraft ? `${window.location.origin}/form/${id}?draft=${savedDraft.draftId}` : '';
+
+  const copyResumeLink = () => {
+    navigator.clipboard.writeText(resumeUrl);
+    toast({
+      title: 'Link copied!',
+      description: 'Open it on any device to pick up where you left off.'
+    });
+  };
+
+  if (isLoading || isDraftLoading) {
     return (
       <div className="min-h-screen bg-background p-4">
         <div className="max-w-2xl mx-auto space-y-6">
@@ -81,6 +137,9 @@ export default function FormView() {
   }
 
   const schema = form.schema as unknown as FormSchema;
+  const settings = readFormSettings(form.settings);
+  const { values: prefilledValues, lockedIds } = getPrefillValues(schema.fields, searchParams.toString(), settings.prefill);
+  const expiryDays = getDraftExpiryDays(settings);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background to-muted py-8 px-4">
@@ -98,8 +157,31 @@ export default function FormView() {
           schema={schema}
           onSubmit={handleSubmit}
           isSubmitting={createSubmission.isPending}
+          initialValues={{ ...draft?.responses, ...prefilledValues }}
+          lockedFieldIds={lockedIds}
+          autosave={{ key: autosaveKey, expiryDays }}
+          onSaveDraft={settings.drafts?.resumeLinks ? handleSaveDraft : undefined}
+          isSavingDraft={saveDraft.isPending}
         />
 
+        <Dialog open={showResumeLink} onOpenChange={setShowResumeLink}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Your progress is saved</DialogTitle>
+              <DialogDescription>
+                Use this link to continue later. It expires on{' '}
+                {savedDraft && new Date(savedDraft.expiresAt).toLocaleDateString()}.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex gap-2">
+              <Input readOnly value={resumeUrl} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={copyResumeLink} aria-label="Copy resume link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         <p className="text-center text-sm text-muted-foreground mt-6">
           Powered by FormBuilder AI
         </p>
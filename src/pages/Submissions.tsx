@@ -1,38 +1,112 @@
-import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useState } from 'react';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { useForm } from '@/hooks/useForms';
-import { useSubmissions } from '@/hooks/useSubmissions';
+import { fetchAllSubmissions, useSubmissionCount, useSubmissions } from '@/hooks/useSubmissions';
+import { useFormVersions } from '@/hooks/useFormVersions';
+import { toast } from '@/hooks/use-toast';
 import { Navbar } from '@/components/Navbar';
+import { SubmissionAnalytics } from '@/components/SubmissionAnalytics';
+import { SubmissionFilters } from '@/components/SubmissionFilters';
+import { HighlightedText } from '@/components/HighlightedText';
+import { SimilarAnswers } from '@/components/SimilarAnswers';
+import { AnswerThemes } from '@/components/AnswerThemes';
+import { ResponseSummaryCard } from '@/components/ResponseSummaryCard';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { ArrowLeft, Eye, Image as ImageIcon, FileText, Download } from 'lucide-react';
+import { Pagination, PaginationContent, PaginationItem, PaginationNext, PaginationPrevious } from '@/components/ui/pagination';
+import { ArrowLeft, Eye, Image as ImageIcon, FileText, Download, BarChart3, Sparkles, Table as TableIcon } from 'lucide-react';
+import {
+  formatFieldAnswer,
+  formatMatrixRows,
+  getExportColumns,
+  getGroupEntries,
+  readSignature,
+  summarizeGroupAnswer,
+  summarizeMatrixAnswer
+} from '@/lib/responseFormat';
+import { hasActiveFilters, parseSubmissionQuery, writeSubmissionQuery, type SubmissionQuery } from '@/lib/submissionQuery';
+import { answerMatches, getSearchTerms } from '@/lib/searchHighlight';
+import { cn } from '@/lib/utils';
+import { formatCurrency, getCurrencyCode } from '@shared/fieldFormats';
+import { formatAddressLines } from '@shared/addressFormats';
+import { EMBEDDED_FIELD_TYPES } from '@shared/answerInsights';
 import type { FormSchema } from '@/hooks/useForms';
 
 export default function Submissions() {
   const { formId } = useParams<{ formId: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { data: form, isLoading: formLoading } = useForm(formId);
-  const { submissions, isLoading: submissionsLoading } = useSubmissions(formId);
+
+  const { versions } = useFormVersions(formId);
 
   const schema = form?.schema as unknown as FormSchema;
   const fields = schema?.fields || [];
 
-  const exportToCSV = () => {
-    if (!submissions || submissions.length === 0) return;
+  // Filters, sort and page live in the URL so a view can be shared or reloaded
+  const query = parseSubmissionQuery(searchParams, fields);
+  const {
+    submissions,
+    hasNextPage,
+    hasPreviousPage,
+    isLoading: submissionsLoading,
+    isFetching
+  } = useSubmissions(formId, form ? query : undefined);
+  const { data: total, isLoading: totalLoading } = useSubmissionCount(formId);
+  const { data: matching } = useSubmissionCount(formId, query);
+  const [isExporting, setIsExporting] = useState(false);
+  const searchTerms = getSearchTerms(query.search);
+  const hasThemeFields = fields.some((field) => EMBEDDED_FIELD_TYPES.includes(field.type));
+  const columnCount = fields.slice(0, 4).length + (searchTerms.length > 0 ? 5 : 4);
+
+  const setQuery = (next: SubmissionQuery) => {
+    setSearchParams(writeSubmissionQuery(searchParams, next));
+  };
+
+  const goToPage = (event: React.MouseEvent, cursor: string | undefined, backward: boolean) => {
+    event.preventDefault();
+    if (cursor) setQuery({ ...query, cursor, backward });
+  };
 
-    const headers = ['Submitted At', ...fields.map(f => f.label)];
+  // Each submission is shown against the schema version it was filled in with
+  const versionFields = new Map(
+    (versions || []).map((version) => [version.version, (version.schema as unknown as FormSchema)?.fields || []])
+  );
+  const fieldsFor = (formVersion: number | null) =>
+    (formVersion !== null && versionFields.get(formVersion)) || fields;
+
+  const exportToCSV = async () => {
+    if (!formId) return;
+
+    // Exports everything matching the current filters, not just the page on screen
+    let submissions;
+    setIsExporting(true);
+    try {
+      submissions = await fetchAllSubmissions(formId, { ...query, cursor: undefined, backward: undefined });
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Could not load submissions',
+        variant: 'destructive'
+      });
+      return;
+    } finally {
+      setIsExporting(false);
+    }
+    if (submissions.length === 0) return;
+
+    const columns = getExportColumns(fields, submissions.map(sub => sub.responses as Record<string, unknown>));
+    const headers = ['Submitted At', ...columns.map(column => column.header)];
     const rows = submissions.map(sub => {
       const responses = sub.responses as Record<string, unknown>;
       return [
         new Date(sub.submitted_at).toLocaleString(),
-        ...fields.map(f => {
-          const value = responses[f.id];
-          if (Array.isArray(value)) return value.join(', ');
-          return String(value || '');
-        })
+        ...columns.map(column => column.getValue(responses))
       ];
     });
 
@@ -50,7 +124,7 @@ export default function Submissions() {
     URL.revokeObjectURL(url);
   };
 
-  if (formLoading || submissionsLoading) {
+  if (formLoading || totalLoading) {
     return (
       <div className="min-h-screen bg-background">
         <Navbar />
@@ -80,7 +154,8 @@ export default function Submissions() {
           <div>
             <h1 className="text-3xl font-bold text-foreground">{form?.title}</h1>
             <p className="text-muted-foreground mt-1">
-              {submissions?.length || 0} submission{submissions?.length !== 1 ? 's' : ''}
+              {hasActiveFilters(query) && matching !== undefined && `${matching} of `}
+              {total || 0} submission{total !== 1 ? 's' : ''}
             </p>
           </div>
           <div className="flex gap-2">
@@ -90,144 +165,308 @@ export default function Submissions() {
                 View Form
               </Button>
             </Link>
-            <Button onClick={exportToCSV} disabled={!submissions?.length}>
+            <Button onClick={exportToCSV} disabled={!matching || isExporting}>
               <Download className="mr-2 h-4 w-4" />
               Export CSV
             </Button>
           </div>
         </div>
 
-        {submissions && submissions.length > 0 ? (
-          <Card>
-            <CardContent className="p-0">
-              <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Submitted</TableHead>
-                      {fields.slice(0, 4).map((field) => (
-                        <TableHead key={field.id}>{field.label}</TableHead>
-                      ))}
-                      <TableHead>Images</TableHead>
-                      <TableHead></TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {submissions.map((submission) => {
-                      const responses = submission.responses as Record<string, unknown>;
-                      const imageUrls = submission.image_urls || [];
+        {total ? (
+          <Tabs defaultValue="responses">
+            <div className="mb-6">
+              <ResponseSummaryCard formId={formId!} submissionCount={total} />
+            </div>
+            <TabsList className="mb-4">
+              <TabsTrigger value="responses">
+                <TableIcon className="mr-2 h-4 w-4" />
+                Responses
+              </TabsTrigger>
+              <TabsTrigger value="analytics">
+                <BarChart3 className="mr-2 h-4 w-4" />
+                Analytics
+              </TabsTrigger>
+              {hasThemeFields && (
+                <TabsTrigger value="themes">
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  Themes
+                </TabsTrigger>
+              )}
+            </TabsList>
+            <TabsContent value="responses" className="space-y-4">
+              <SubmissionFilters fields={fields} query={query} onChange={setQuery} />
+              <Card>
+                <CardContent className="p-0">
+                  <div className={cn('overflow-x-auto', isFetching && !submissionsLoading && 'opacity-60')}>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Submitted</TableHead>
+                          <TableHead>Version</TableHead>
+                          {fields.slice(0, 4).map((field) => (
+                            <TableHead key={field.id}>{field.label}</TableHead>
+                          ))}
+                          {searchTerms.length > 0 && <TableHead>Matched in</TableHead>}
+                          <TableHead>Images</TableHead>
+                          <TableHead></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {submissionsLoading && (
+                          <TableRow>
+                            <TableCell colSpan={columnCount}>
+                              <Skeleton className="h-24 w-full" />
+                            </TableCell>
+                          </TableRow>
+                        )}
+                        {submissions?.length === 0 && (
+                          <TableRow>
+                            <TableCell colSpan={columnCount} className="py-8 text-center text-muted-foreground">
+                              No submissions match these filters
+                            </TableCell>
+                          </TableRow>
+                        )}
+                        {submissions?.map((submission) => {
+                          const responses = submission.responses as Record<string, unknown>;
+                          const imageUrls = submission.image_urls || [];
+                          const matchedFields = fieldsFor(submission.form_version).filter((field) =>
+                            answerMatches(responses[field.id], searchTerms)
+                          );
                       
-                      return (
-                        <TableRow key={submission.id}>
-                          <TableCell className="whitespace-nowrap">
-                            {new Date(submission.submitted_at).toLocaleDateString()}
-                          </TableCell>
-                          {fields.slice(0, 4).map((field) => {
-                            const value = responses[field.id];
-                            let displayValue: string;
+                          return (
+                            <TableRow key={submission.id}>
+                              <TableCell className="whitespace-nowrap">
+                                {new Date(submission.submitted_at).toLocaleDateString()}
+                              </TableCell>
+                              <TableCell>
+                                {submission.form_version ? (
+                                  <Badge variant={submission.form_version === form?.current_version ? 'secondary' : 'outline'}>
+                                    v{submission.form_version}
+                                  </Badge>
+                                ) : (
+                                  '-'
+                                )}
+                              </TableCell>
+                              {fields.slice(0, 4).map((field) => {
+                                const value = responses[field.id];
+                                let displayValue: string;
                             
-                            if (Array.isArray(value)) {
-                              displayValue = value.join(', ');
-                            } else if (typeof value === 'string' && value.startsWith('http')) {
-                              displayValue = 'File uploaded';
-                            } else {
-                              displayValue = String(value || '-');
-                            }
+                                if (field.type === 'matrix') {
+                                  displayValue = summarizeMatrixAnswer(field, value) || '-';
+                                } else if (field.type === 'group') {
+                                  displayValue = summarizeGroupAnswer(value) || '-';
+                                } else if (field.type === 'address') {
+                                  displayValue = formatFieldAnswer(field, value) || '-';
+                                } else if (field.type === 'signature') {
+                                  displayValue = readSignature(value) ? 'Signed' : '-';
+                                } else if (Array.isArray(value)) {
+                                  displayValue = value.join(', ');
+                                } else if ((field.type === 'currency' || field.currency) && typeof value === 'number') {
+                                  displayValue = formatCurrency(value, getCurrencyCode(field));
+                                } else if (typeof value === 'string' && value.startsWith('http')) {
+                                  displayValue = field.type === 'url' ? value : 'File uploaded';
+                                } else {
+                                  displayValue = value === undefined || value === null || value === '' ? '-' : String(value);
+                                }
                             
-                            return (
-                              <TableCell key={field.id} className="max-w-[200px] truncate">
-                                {displayValue}
+                                return (
+                                  <TableCell key={field.id} className="max-w-[200px] truncate">
+                                    <HighlightedText text={displayValue} terms={searchTerms} />
+                                  </TableCell>
+                                );
+                              })}
+                              {searchTerms.length > 0 && (
+                                <TableCell className="max-w-[200px] truncate text-muted-foreground">
+                                  {matchedFields.map((field) => field.label).join(', ') || '-'}
+                                </TableCell>
+                              )}
+                              <TableCell>
+                                {imageUrls.length > 0 ? (
+                                  <Badge variant="secondary">
+                                    <ImageIcon className="mr-1 h-3 w-3" />
+                                    {imageUrls.length}
+                                  </Badge>
+                                ) : (
+                                  '-'
+                                )}
                               </TableCell>
-                            );
-                          })}
-                          <TableCell>
-                            {imageUrls.length > 0 ? (
-                              <Badge variant="secondary">
-                                <ImageIcon className="mr-1 h-3 w-3" />
-                                {imageUrls.length}
-                              </Badge>
-                            ) : (
-                              '-'
-                            )}
-                          </TableCell>
-                          <TableCell>
-                            <Dialog>
-                              <DialogTrigger asChild>
-                                <Button variant="ghost" size="sm">
-                                  <Eye className="h-4 w-4" />
-                                </Button>
-                              </DialogTrigger>
-                              <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
-                                <DialogHeader>
-                                  <DialogTitle>Submission Details</DialogTitle>
-                                </DialogHeader>
-                                <div className="space-y-4 mt-4">
-                                  <div className="text-sm text-muted-foreground">
-                                    Submitted: {new Date(submission.submitted_at).toLocaleString()}
-                                  </div>
+                              <TableCell>
+                                <Dialog>
+                                  <DialogTrigger asChild>
+                                    <Button variant="ghost" size="sm">
+                                      <Eye className="h-4 w-4" />
+                                    </Button>
+                                  </DialogTrigger>
+                                  <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+                                    <DialogHeader>
+                                      <DialogTitle>Submission Details</DialogTitle>
+                                    </DialogHeader>
+                                    <div className="space-y-4 mt-4">
+                                      <div className="text-sm text-muted-foreground">
+                                        Submitted: {new Date(submission.submitted_at).toLocaleString()}
+                                        {submission.form_version && ` · Form version ${submission.form_version}`}
+                                      </div>
                                   
-                                  {fields.map((field) => {
-                                    const value = responses[field.id];
-                                    let content: React.ReactNode;
+                                      {fieldsFor(submission.form_version).map((field) => {
+                                        const value = responses[field.id];
+                                        let content: React.ReactNode;
                                     
-                                    if (typeof value === 'string' && value.startsWith('http')) {
-                                      content = (
-                                        <a
-                                          href={value}
-                                          target="_blank"
-                                          rel="noopener noreferrer"
-                                          className="text-primary hover:underline"
-                                        >
-                                          View file
-                                        </a>
-                                      );
-                                    } else if (Array.isArray(value)) {
-                                      content = value.join(', ');
-                                    } else {
-                                      content = String(value || '-');
-                                    }
+                                        if (field.type === 'matrix') {
+                                          content = (
+                                            <span className="block space-y-1">
+                                              {formatMatrixRows(field, value).map((row, i) => (
+                                                <span key={i} className="flex justify-between gap-4">
+                                                  <span>{row.label}</span>
+                                                  <span className="text-foreground">{row.answer || '-'}</span>
+                                                </span>
+                                              ))}
+                                            </span>
+                                          );
+                                        } else if (field.type === 'signature') {
+                                          const signature = readSignature(value);
+                                          content = signature ? (
+                                            <span className="block space-y-1 pt-1">
+                                              <img
+                                                src={signature.url}
+                                                alt={`${field.label} signature`}
+                                                className="h-24 max-w-full rounded-md border bg-white object-contain p-1"
+                                              />
+                                              <span className="block text-xs">
+                                                Signed {new Date(signature.signedAt).toLocaleString()}
+                                              </span>
+                                            </span>
+                                          ) : '-';
+                                        } else if (field.type === 'address') {
+                                          const lines = formatAddressLines(value);
+                                          content = lines.length === 0 ? '-' : (
+                                            <span className="block">
+                                              {lines.map((line, i) => (
+                                                <span key={i} className="block">{line}</span>
+                                              ))}
+                                            </span>
+                                          );
+                                        } else if (field.type === 'group') {
+                                          const entries = getGroupEntries(value);
+                                          content = entries.length === 0 ? '-' : (
+                                            <span className="block space-y-2 pt-1">
+                                              {entries.map((entry, i) => (
+                                                <span key={i} className="block rounded-md border p-2 space-y-1">
+                                                  <span className="block text-xs font-medium">
+                                                    {field.group?.itemLabel || 'Entry'} {i + 1}
+                                                  </span>
+                                                  {(field.group?.fields || []).map((child) => (
+                                                    <span key={child.id} className="flex justify-between gap-4">
+                                                      <span>{child.label}</span>
+                                                      <span className="text-foreground">{formatFieldAnswer(child, entry[child.id]) || '-'}</span>
+                                                    </span>
+                                                  ))}
+                                                </span>
+                                              ))}
+                                            </span>
+                                          );
+                                        } else if ((field.type === 'currency' || field.currency) && typeof value === 'number') {
+                                          content = formatCurrency(value, getCurrencyCode(field));
+                                        } else if (typeof value === 'string' && value.startsWith('http')) {
+                                          content = (
+                                            <a
+                                              href={value}
+                                              target="_blank"
+                                              rel="noopener noreferrer"
+                                              className="text-primary hover:underline"
+                                            >
+                                              {field.type === 'url' ? value : 'View file'}
+                                            </a>
+                                          );
+                                        } else if (Array.isArray(value)) {
+                                          content = value.join(', ');
+                                        } else {
+                                          content = value === undefined || value === null || value === '' ? '-' : String(value);
+                                        }
                                     
-                                    return (
-                                      <div key={field.id} className="border-b pb-3">
-                                        <p className="font-medium text-sm">{field.label}</p>
-                                        <p className="text-muted-foreground">{content}</p>
-                                      </div>
-                                    );
-                                  })}
-                                  
-                                  {imageUrls.length > 0 && (
-                                    <div>
-                                      <p className="font-medium text-sm mb-2">Uploaded Images</p>
-                                      <div className="grid grid-cols-2 gap-2">
-                                        {imageUrls.map((url, i) => (
-                                          <a
-                                            key={i}
-                                            href={url}
-                                            target="_blank"
-                                            rel="noopener noreferrer"
+                                        return (
+                                          <div
+                                            key={field.id}
+                                            className={cn(
+                                              'border-b pb-3',
+                                              matchedFields.includes(field) && '-mx-2 rounded-md border-l-4 border-l-yellow-300 bg-yellow-50 px-2 pt-2'
+                                            )}
                                           >
-                                            <img
-                                              src={url}
-                                              alt={`Upload ${i + 1}`}
-                                              className="w-full h-32 object-cover rounded-lg border hover:opacity-80 transition-opacity"
-                                            />
-                                          </a>
-                                        ))}
-                                      </div>
+                                            <p className="font-medium text-sm">{field.label}</p>
+                                            <p className="text-muted-foreground">
+                                              {typeof content === 'string' ? <HighlightedText text={content} terms={searchTerms} /> : content}
+                                            </p>
+                                            {EMBEDDED_FIELD_TYPES.includes(field.type) && typeof value === 'string' && value.trim() && (
+                                              <SimilarAnswers formId={formId!} fieldId={field.id} submissionId={submission.id} />
+                                            )}
+                                          </div>
+                                        );
+                                      })}
+                                  
+                                      {imageUrls.length > 0 && (
+                                        <div>
+                                          <p className="font-medium text-sm mb-2">Uploaded Images</p>
+                                          <div className="grid grid-cols-2 gap-2">
+                                            {imageUrls.map((url, i) => (
+                                              <a
+                                                key={i}
+                                                href={url}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                              >
+                                                <img
+                                                  src={url}
+                                                  alt={`Upload ${i + 1}`}
+                                                  className="w-full h-32 object-cover rounded-lg border hover:opacity-80 transition-opacity"
+                                                />
+                                              </a>
+                                            ))}
+                                          </div>
+                                        </div>
+                                      )}
                                     </div>
-                                  )}
-                                </div>
-                              </DialogContent>
-                            </Dialog>
-                          </TableCell>
-                        </TableRow>
-                      );
-                    })}
-                  </TableBody>
-                </Table>
-              </div>
-            </CardContent>
-          </Card>
+                                  </DialogContent>
+                                </Dialog>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+              {(hasPreviousPage || hasNextPage) && (
+                <Pagination>
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        href="#"
+                        aria-disabled={!hasPreviousPage}
+                        className={cn(!hasPreviousPage && 'pointer-events-none opacity-50')}
+                        onClick={(e) => goToPage(e, submissions?.[0]?.id, true)}
+                      />
+                    </PaginationItem>
+                    <PaginationItem>
+                      <PaginationNext
+                        href="#"
+                        aria-disabled={!hasNextPage}
+                        className={cn(!hasNextPage && 'pointer-events-none opacity-50')}
+                        onClick={(e) => goToPage(e, submissions?.[submissions.length - 1]?.id, false)}
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
+            </TabsContent>
+            <TabsContent value="analytics">
+              <SubmissionAnalytics formId={formId!} fields={fields} />
+            </TabsContent>
+            {hasThemeFields && (
+              <TabsContent value="themes">
+                <AnswerThemes formId={formId!} fields={fields} />
+              </TabsContent>
+            )}
+          </Tabs>
         ) : (
           <Card className="text-center py-12">
             <CardContent>
@@ -0,0 +1,93 @@
+import type { AddressPart, AddressValue, FormField } from './formTypes.ts';
+
+export const ADDRESS_PARTS: AddressPart[] = ['street', 'city', 'region', 'postalCode', 'country'];
+
+export const ADDRESS_PART_LABELS: Record<AddressPart, string> = {
+  street: 'Street address',
+  city: 'City',
+  region: 'State / Province',
+  postalCode: 'Postal code',
+  country: 'Country'
+};
+
+// Matches the HTML autocomplete tokens so browsers and address pickers can fill each part
+export const ADDRESS_AUTOCOMPLETE: Record<AddressPart, string> = {
+  street: 'street-address',
+  city: 'address-level2',
+  region: 'address-level1',
+  postalCode: 'postal-code',
+  country: 'country'
+};
+
+const DEFAULT_REQUIRED_PARTS: AddressPart[] = ['street', 'city', 'postalCode', 'country'];
+
+export interface AddressCountry {
+  code: string;
+  name: string;
+  // What the region and postal code are called locally
+  regionLabel?: string;
+  postalLabel?: string;
+  postalPattern?: RegExp;
+}
+
+// Countries without a pattern accept any postal code
+export const ADDRESS_COUNTRIES: AddressCountry[] = [
+  { code: 'US', name: 'United States', regionLabel: 'State', postalLabel: 'ZIP code', postalPattern: /^\d{5}(-\d{4})?$/ },
+  { code: 'CA', name: 'Canada', regionLabel: 'Province', postalPattern: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/ },
+  { code: 'GB', name: 'United Kingdom', regionLabel: 'County', postalLabel: 'Postcode', postalPattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/ },
+  { code: 'IE', name: 'Ireland', regionLabel: 'County', postalLabel: 'Eircode', postalPattern: /^[A-Z\d]{3} ?[A-Z\d]{4}$/ },
+  { code: 'AU', name: 'Australia', regionLabel: 'State', postalLabel: 'Postcode', postalPattern: /^\d{4}$/ },
+  { code: 'NZ', name: 'New Zealand', regionLabel: 'Region', postalLabel: 'Postcode', postalPattern: /^\d{4}$/ },
+  { code: 'DE', name: 'Germany', regionLabel: 'State', postalLabel: 'PLZ', postalPattern: /^\d{5}$/ },
+  { code: 'FR', name: 'France', regionLabel: 'Region', postalPattern: /^\d{5}$/ },
+  { code: 'ES', name: 'Spain', regionLabel: 'Province', postalPattern: /^\d{5}$/ },
+  { code: 'IT', name: 'Italy', regionLabel: 'Province', postalLabel: 'CAP', postalPattern: /^\d{5}$/ },
+  { code: 'NL', name: 'Netherlands', regionLabel: 'Province', postalPattern: /^\d{4} ?[A-Z]{2}$/ },
+  { code: 'BE', name: 'Belgium', regionLabel: 'Province', postalPattern: /^\d{4}$/ },
+  { code: 'CH', name: 'Switzerland', regionLabel: 'Canton', postalPattern: /^\d{4}$/ },
+  { code: 'AT', name: 'Austria', regionLabel: 'State', postalPattern: /^\d{4}$/ },
+  { code: 'SE', name: 'Sweden', regionLabel: 'County', postalPattern: /^\d{3} ?\d{2}$/ },
+  { code: 'NO', name: 'Norway', regionLabel: 'County', postalPattern: /^\d{4}$/ },
+  { code: 'DK', name: 'Denmark', regionLabel: 'Region', postalPattern: /^\d{4}$/ },
+  { code: 'PL', name: 'Poland', regionLabel: 'Voivodeship', postalPattern: /^\d{2}-\d{3}$/ },
+  { code: 'PT', name: 'Portugal', regionLabel: 'District', postalPattern: /^\d{4}-\d{3}$/ },
+  { code: 'BR', name: 'Brazil', regionLabel: 'State', postalLabel: 'CEP', postalPattern: /^\d{5}-?\d{3}$/ },
+  { code: 'MX', name: 'Mexico', regionLabel: 'State', postalPattern: /^\d{5}$/ },
+  { code: 'AR', name: 'Argentina', regionLabel: 'Province' },
+  { code: 'IN', name: 'India', regionLabel: 'State', postalLabel: 'PIN code', postalPattern: /^\d{6}$/ },
+  { code: 'CN', name: 'China', regionLabel: 'Province', postalPattern: /^\d{6}$/ },
+  { code: 'JP', name: 'Japan', regionLabel: 'Prefecture', postalPattern: /^\d{3}-?\d{4}$/ },
+  { code: 'KR', name: 'South Korea', regionLabel: 'Province', postalPattern: /^\d{5}$/ },
+  { code: 'SG', name: 'Singapore', postalPattern: /^\d{6}$/ },
+  { code: 'AE', name: 'United Arab Emirates', regionLabel: 'Emirate' },
+  { code: 'ZA', name: 'South Africa', regionLabel: 'Province', postalPattern: /^\d{4}$/ },
+  { code: 'NG', name: 'Nigeria', regionLabel: 'State', postalPattern: /^\d{6}$/ },
+  { code: 'KE', name: 'Kenya', regionLabel: 'County', postalPattern: /^\d{5}$/ }
+];
+
+export function findAddressCountry(code: string | undefined): AddressCountry | undefined {
+  return code ? ADDRESS_COUNTRIES.find((country) => country.code === code.toUpperCase()) : undefined;
+}
+
+// Parts that must be filled in when an address is given
+export function getRequiredAddressParts(field: Pick<FormField, 'address'>): AddressPart[] {
+  return field.address?.requiredParts ?? DEFAULT_REQUIRED_PARTS;
+}
+
+// Picks the known parts out of a stored answer, trimming each one
+export function readAddress(value: unknown): AddressValue {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {};
+  const raw = value as Record<string, unknown>;
+  const address: AddressValue = {};
+  for (const part of ADDRESS_PARTS) {
+    if (typeof raw[part] === 'string' && raw[part].trim()) address[part] = raw[part].trim();
+  }
+  return address;
+}
+
+// Multi-line postal layout, with the country spelled out
+export function formatAddressLines(value: unknown): string[] {
+  const { street, city, region, postalCode, country } = readAddress(value);
+  const locality = [city, [region, postalCode].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+  return [street, locality, findAddressCountry(country)?.name ?? country].filter((line): line is string => !!line);
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { clusterAnswers, getEmbeddableAnswers } from './answerInsights.ts';
+import { createLocalEmbedder } from './embeddings.ts';
+import type { FormField } from './formTypes.ts';
+
+describe('getEmbeddableAnswers', () => {
+  const fields: FormField[] = [
+    { id: 'name', type: 'text', label: 'Name', required: true },
+    { id: 'feedback', type: 'textarea', label: 'Feedback', required: false },
+    { id: 'ideas', type: 'textarea', label: 'Ideas', required: false },
+    { id: 'notes', type: 'textarea', label: 'Notes', required: false },
+    { id: 'rating', type: 'rating', label: 'Rating', required: false }
+  ];
+
+  it('picks up only non-empty textarea answers', () => {
+    const answers = getEmbeddableAnswers(fields, {
+      name: 'Ada Lovelace',
+      feedback: '  Checkout was confusing  ',
+      ideas: '   ',
+      rating: 4
+    });
+    expect(answers).toEqual([{ fieldId: 'feedback', content: 'Checkout was confusing' }]);
+  });
+});
+
+describe('clusterAnswers', () => {
+  it('groups near-duplicate answers together', async () => {
+    const contents = [
+      'Shipping was slow and the delivery arrived late',
+      'Price is too expensive for what you get',
+      'The delivery arrived late, shipping was slow',
+      'Too expensive, the price should be lower',
+      'Slow shipping, delivery arrived late again',
+      'The price is expensive compared to others'
+    ];
+    const embeddings = await createLocalEmbedder().embed(contents);
+    const answers = contents.map((content, i) => ({ id: String(i), content, embedding: embeddings[i] }));
+
+    const clusters = clusterAnswers(answers, 2);
+    const groups = clusters.map((cluster) => cluster.members.map((member) => member.id).sort());
+
+    expect(groups).toHaveLength(2);
+    expect(groups).toContainEqual(['0', '2', '4']);
+    expect(groups).toContainEqual(['1', '3', '5']);
+  });
+});
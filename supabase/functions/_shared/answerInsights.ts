@@ -0,0 +1,171 @@
+import type { FormField } from "./formTypes.ts";
+
+// Free-text answers worth embedding; short text fields are mostly names and ids
+export const EMBEDDED_FIELD_TYPES: FormField['type'][] = ['textarea'];
+
+// Long answers are cut before embedding; the model only reads the start anyway
+export const MAX_EMBEDDED_CHARS = 2000;
+
+// Fewer answers than this don't form meaningful themes
+export const MIN_THEME_ANSWERS = 5;
+export const MAX_THEMES = 6;
+
+export interface EmbeddableAnswer {
+  fieldId: string;
+  content: string;
+}
+
+export interface EmbeddedAnswer {
+  id: string;
+  content: string;
+  embedding: number[];
+}
+
+export interface AnswerCluster<T extends EmbeddedAnswer> {
+  // Closest to the cluster's centre first
+  members: T[];
+  keywords: string[];
+}
+
+export function getEmbeddableAnswers(fields: FormField[], responses: Record<string, unknown>): EmbeddableAnswer[] {
+  return fields
+    .filter((field) => EMBEDDED_FIELD_TYPES.includes(field.type))
+    .flatMap((field) => {
+      const value = responses[field.id];
+      const content = typeof value === 'string' ? value.trim().slice(0, MAX_EMBEDDED_CHARS) : '';
+      return content ? [{ fieldId: field.id, content }] : [];
+    });
+}
+
+// pgvector columns come back from PostgREST as "[0.1,0.2,...]"
+export function parseVector(value: unknown): number[] | null {
+  if (Array.isArray(value)) return value.map(Number);
+  if (typeof value !== 'string') return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(Number) : null;
+  } catch {
+    return null;
+  }
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+// Roughly one theme per dozen answers, between 2 and MAX_THEMES
+export function getThemeCount(answerCount: number): number {
+  if (answerCount < MIN_THEME_ANSWERS) return 1;
+  return Math.max(2, Math.min(MAX_THEMES, Math.round(Math.sqrt(answerCount / 3))));
+}
+
+/**
+ * Spherical k-means over the answers' embeddings. Seeding is farthest-point from
+ * the first answer rather than random, so the same answers in the same order always
+ * give the same clusters. Clusters come back largest first; empty ones are dropped.
+ */
+export function clusterAnswers<T extends EmbeddedAnswer>(
+  answers: T[],
+  k = getThemeCount(answers.length),
+  maxIterations = 25
+): AnswerCluster<T>[] {
+  if (answers.length === 0) return [];
+
+  const vectors = answers.map((answer) => normalize(answer.embedding));
+  const count = Math.min(k, answers.length);
+
+  // Each new centre is the answer least similar to every centre so far
+  const centroids = [vectors[0]];
+  while (centroids.length < count) {
+    let farthest = 0;
+    let lowest = Infinity;
+    vectors.forEach((vector, i) => {
+      const closest = Math.max(...centroids.map((centroid) => dot(vector, centroid)));
+      if (closest < lowest) {
+        lowest = closest;
+        farthest = i;
+      }
+    });
+    centroids.push(vectors[farthest]);
+  }
+
+  let assignments = new Array<number>(vectors.length).fill(-1);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = vectors.map((vector) => {
+      let best = 0;
+      centroids.forEach((centroid, c) => {
+        if (dot(vector, centroid) > dot(vector, centroids[best])) best = c;
+      });
+      return best;
+    });
+    if (next.every((cluster, i) => cluster === assignments[i])) break;
+    assignments = next;
+
+    centroids.forEach((centroid, c) => {
+      const members = vectors.filter((_, i) => assignments[i] === c);
+      if (members.length === 0) return;
+      const sum = new Array(centroid.length).fill(0);
+      for (const member of members) member.forEach((value, d) => (sum[d] += value));
+      centroids[c] = normalize(sum);
+    });
+  }
+
+  const allContents = answers.map((answer) => answer.content);
+  return centroids
+    .map((centroid, c) => {
+      const members = answers
+        .map((answer, i) => ({ answer, cluster: assignments[i], similarity: dot(vectors[i], centroid) }))
+        .filter((entry) => entry.cluster === c)
+        .sort((a, b) => b.similarity - a.similarity)
+        .map((entry) => entry.answer);
+      return { members, keywords: getClusterKeywords(members.map((member) => member.content), allContents) };
+    })
+    .filter((cluster) => cluster.members.length > 0)
+    .sort((a, b) => b.members.length - a.members.length);
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our',
+  'out', 'has', 'have', 'him', 'his', 'how', 'its', 'may', 'new', 'now', 'old', 'see', 'two', 'way', 'who',
+  'did', 'get', 'got', 'let', 'say', 'she', 'too', 'use', 'that', 'with', 'this', 'they', 'from', 'been',
+  'were', 'what', 'when', 'will', 'would', 'there', 'their', 'them', 'then', 'than', 'very', 'just', 'also',
+  'more', 'some', 'could', 'should', 'about', 'into', 'your', 'which', 'because', 'really', 'much', 'like'
+]);
+
+function getWords(text: string): string[] {
+  return (text.toLowerCase().match(/\p{L}[\p{L}'-]+/gu) || []).filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Words that set a cluster apart: frequent among its answers and comparatively
+ * rare elsewhere. Used as a label when no language model is available.
+ */
+export function getClusterKeywords(contents: string[], allContents: string[], count = 3): string[] {
+  const documentFrequency = (texts: string[]) => {
+    const frequency = new Map<string, number>();
+    for (const text of texts) {
+      for (const word of new Set(getWords(text))) frequency.set(word, (frequency.get(word) ?? 0) + 1);
+    }
+    return frequency;
+  };
+
+  const inCluster = documentFrequency(contents);
+  const overall = documentFrequency(allContents);
+
+  return [...inCluster.entries()]
+    .filter(([, frequency]) => frequency > 1 || contents.length === 1)
+    .map(([word, frequency]) => ({
+      word,
+      score: (frequency / contents.length) * Math.log(1 + allContents.length / (overall.get(word) ?? 1))
+    }))
+    .sort((a, b) => b.score - a.score || a.word.localeCompare(b.word))
+    .slice(0, count)
+    .map((entry) => entry.word);
+}
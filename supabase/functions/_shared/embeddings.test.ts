@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { EMBEDDING_DIMENSIONS, cosineSimilarity, createLocalEmbedder } from './embeddings.ts';
+
+describe('createLocalEmbedder', () => {
+  const embedder = createLocalEmbedder();
+
+  it('gives the same text the same vector', async () => {
+    const [first] = await embedder.embed(['Delivery took three weeks']);
+    const [second] = await embedder.embed(['Delivery took three weeks']);
+    expect(first).toEqual(second);
+  });
+
+  it('produces vectors matching the database column', async () => {
+    const vectors = await embedder.embed(['Short', 'A somewhat longer answer about pricing', '']);
+    expect(embedder.dimensions).toBe(768);
+    for (const vector of vectors) expect(vector).toHaveLength(EMBEDDING_DIMENSIONS);
+  });
+
+  it('ranks similar text above unrelated text', async () => {
+    const [query, similar, unrelated] = await embedder.embed([
+      'The delivery was slow and shipping took weeks',
+      'Shipping was slow, delivery took two weeks',
+      'Friendly support staff answered my questions'
+    ]);
+    expect(cosineSimilarity(query, similar)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+});
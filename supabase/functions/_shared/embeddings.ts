@@ -0,0 +1,133 @@
+export interface Embedder {
+  name: string;
+  dimensions: number;
+  // One vector per text, in the same order
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbedderName = 'gemini' | 'local';
+
+type EnvReader = (key: string) => string | undefined;
+
+// Matches the vector(768) columns in the database
+export const EMBEDDING_DIMENSIONS = 768;
+
+// Gemini accepts at most 100 texts per batch request
+const GEMINI_BATCH_SIZE = 100;
+
+export function createGeminiEmbedder(options: { apiKey: string; model?: string }): Embedder {
+  const model = `models/${options.model || 'text-embedding-004'}`;
+
+  const embedBatch = async (texts: string[]): Promise<number[][]> => {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/${model}:batchEmbedContents?key=${options.apiKey}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          requests: texts.map((text) => ({ model, content: { parts: [{ text }] } }))
+        })
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Embedding error:', response.status, errorText);
+      throw new Error(`Embedding service error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const embeddings = data.embeddings?.map((embedding: { values?: number[] }) => embedding.values);
+    if (!Array.isArray(embeddings) || embeddings.length !== texts.length || !embeddings.every(Array.isArray)) {
+      throw new Error('Invalid embedding response');
+    }
+    return embeddings.map((values: number[]) => values.slice(0, EMBEDDING_DIMENSIONS));
+  };
+
+  return {
+    name: 'gemini',
+    dimensions: EMBEDDING_DIMENSIONS,
+    async embed(texts) {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += GEMINI_BATCH_SIZE) {
+        vectors.push(...await embedBatch(texts.slice(i, i + GEMINI_BATCH_SIZE)));
+      }
+      return vectors;
+    }
+  };
+}
+
+// 32-bit FNV-1a
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Offline stand-in that hashes words and word pairs into a fixed-size vector.
+ * The same text always gets the same vector and texts sharing words land close
+ * together, which is enough to exercise similarity and clustering without an API.
+ */
+export function createLocalEmbedder(dimensions = EMBEDDING_DIMENSIONS): Embedder {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array(dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const tokens = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    for (const token of tokens) {
+      const hash = hashToken(token);
+      // The top bit picks the sign so unrelated tokens tend to cancel out
+      vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  };
+
+  return {
+    name: 'local',
+    dimensions,
+    embed(texts) {
+      return Promise.resolve(texts.map(embedOne));
+    }
+  };
+}
+
+/**
+ * Picks the embedder from EMBEDDING_PROVIDER, defaulting to Gemini. Returns null
+ * when Gemini is selected but no key is set, so callers can skip embedding.
+ */
+export function createEmbedderFromEnv(env: EnvReader = (key) => Deno.env.get(key)): Embedder | null {
+  const name = (env('EMBEDDING_PROVIDER') || 'gemini').toLowerCase() as EmbedderName;
+
+  switch (name) {
+    case 'gemini': {
+      const apiKey = env('EMBEDDING_API_KEY') || env('LLM_API_KEY') || env('GEMINI_API_KEY');
+      return apiKey ? createGeminiEmbedder({ apiKey, model: env('EMBEDDING_MODEL') }) : null;
+    }
+    case 'local':
+      return createLocalEmbedder();
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${name}". Use gemini or local.`);
+  }
+}
+
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
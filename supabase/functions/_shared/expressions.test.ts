@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ExpressionError, evaluateExpression, getExpressionFields, parseExpression } from './expressions.ts';
+
+describe('parseExpression', () => {
+  it('parses field references, literals and function calls', () => {
+    expect(parseExpression('round(price * 2, 1)')).toEqual({
+      kind: 'call',
+      name: 'round',
+      args: [
+        { kind: 'binary', op: '*', left: { kind: 'field', id: 'price' }, right: { kind: 'literal', value: 2 } },
+        { kind: 'literal', value: 1 }
+      ]
+    });
+    expect(getExpressionFields('{1st_choice} + total * if(gift, 5, 0)')).toEqual(['1st_choice', 'total', 'gift']);
+  });
+
+  it.each([
+    ['', 'Expression is empty'],
+    ['price +', 'Unexpected end of expression'],
+    ['(price * 2', 'Expected ")"'],
+    ['"unclosed', 'Unclosed string'],
+    ['price $ 2', 'Unexpected "$"'],
+    ['shout(name)', 'Unknown function "shout"'],
+    ['price 2', 'Unexpected "2"']
+  ])('rejects %j', (source, message) => {
+    expect(() => parseExpression(source)).toThrow(new ExpressionError(message));
+  });
+});
+
+describe('evaluateExpression', () => {
+  it.each([
+    ['2 + 3 * 4', 14],
+    ['(2 + 3) * 4', 20],
+    ['10 - 4 - 3', 3],
+    ['-2 * 3 + 10 % 4', -4],
+    ['1 + 2 > 2 && 3 == 3', true],
+    ['false || 2 < 1', false],
+    ['1 > 2 ? "yes" : 2 > 1 ? "maybe" : "no"', 'maybe']
+  ])('evaluates %j with the usual precedence', (source, expected) => {
+    expect(evaluateExpression(source, {})).toBe(expected);
+  });
+
+  it('reads unknown or unanswered fields as empty', () => {
+    expect(evaluateExpression('missing + 1', {})).toBe(1);
+    expect(evaluateExpression('quantity * 10', { quantity: '' })).toBe(0);
+    expect(evaluateExpression('count(first, second)', { first: 'a' })).toBe(1);
+    expect(evaluateExpression('name + "!"', {})).toBe('!');
+  });
+
+  it('coerces numeric answers and joins text', () => {
+    expect(evaluateExpression('price * quantity', { price: '2.5', quantity: 4 })).toBe(10);
+    expect(evaluateExpression('first + " " + last', { first: 'Ada', last: 'Lovelace' })).toBe('Ada Lovelace');
+    expect(evaluateExpression('topics == "News"', { topics: ['Offers', 'News'] })).toBe(true);
+  });
+
+  it('returns null when dividing by zero', () => {
+    expect(evaluateExpression('total / quantity', { total: 10, quantity: 0 })).toBeNull();
+    expect(evaluateExpression('1 % 0', {})).toBeNull();
+  });
+
+  it('short-circuits so a guard avoids the division', () => {
+    expect(evaluateExpression('quantity > 0 && total / quantity > 10', { total: 10, quantity: 0 })).toBe(false);
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * A small, side-effect free expression language for calculated fields.
+ *
+ *   price * quantity + (gift_wrap == "Yes" ? 5 : 0)
+ *   if(score >= 8, "Promoter", "Other")
+ *   round(sum(q1, q2, q3) / 3, 1)
+ *
+ * Field ids are bare identifiers, or wrapped in braces when they start with a
+ * digit ({1st_choice}). Nothing here evaluates JavaScript, so expressions from
+ * the generator or the editor are safe to run on the client and the server.
+ */
+
+export type ExpressionValue = number | string | boolean | null;
+type Value = ExpressionValue | Value[];
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number; start: number; end: number }
+  | { type: 'string'; value: string; start: number; end: number }
+  | { type: 'identifier'; value: string; start: number; end: number; braced: boolean }
+  | { type: 'operator'; value: string; start: number; end: number };
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: ExpressionValue }
+  | { kind: 'field'; id: string }
+  | { kind: 'unary'; op: '-' | '+' | '!'; operand: ExpressionNode }
+  | { kind: 'binary'; op: string; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'conditional'; test: ExpressionNode; then: ExpressionNode; otherwise: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', ','];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?|^\.\d+/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]), start: i, end: i + number[0].length });
+      i += number[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const close = source.indexOf(char, i + 1);
+      if (close === -1) throw new ExpressionError('Unclosed string');
+      tokens.push({ type: 'string', value: source.slice(i + 1, close), start: i, end: close + 1 });
+      i = close + 1;
+      continue;
+    }
+
+    if (char === '{') {
+      const braced = /^\{\s*([A-Za-z0-9_]+)\s*\}/.exec(source.slice(i));
+      if (!braced) throw new ExpressionError('Expected a field id inside { }');
+      tokens.push({ type: 'identifier', value: braced[1], start: i, end: i + braced[0].length, braced: true });
+      i += braced[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0], start: i, end: i + identifier[0].length, braced: false });
+      i += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (!operator) throw new ExpressionError(`Unexpected "${char}"`);
+    tokens.push({ type: 'operator', value: operator, start: i, end: i + operator.length });
+    i += operator.length;
+  }
+
+  return tokens;
+}
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3,
+  '!=': 3,
+  '<': 4,
+  '<=': 4,
+  '>': 4,
+  '>=': 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  '%': 6
+};
+
+export function parseExpression(source: string): ExpressionNode {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (value: string) => peek()?.type === 'operator' && peek().value === value;
+  const expect = (value: string) => {
+    if (!isOperator(value)) throw new ExpressionError(`Expected "${value}"`);
+    position++;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = tokens[position++];
+    if (!token) throw new ExpressionError('Unexpected end of expression');
+
+    if (token.type === 'number' || token.type === 'string') return { kind: 'literal', value: token.value };
+    if (token.type === 'identifier') {
+      if (!token.braced && (token.value === 'true' || token.value === 'false')) {
+        return { kind: 'literal', value: token.value === 'true' };
+      }
+      if (!token.braced && isOperator('(')) {
+        position++;
+        const args: ExpressionNode[] = [];
+        while (!isOperator(')')) {
+          args.push(parseConditional());
+          if (!isOperator(')')) expect(',');
+        }
+        position++;
+        if (!(token.value in FUNCTIONS)) throw new ExpressionError(`Unknown function "${token.value}"`);
+        return { kind: 'call', name: token.value, args };
+      }
+      return { kind: 'field', id: token.value };
+    }
+    if (token.value === '(') {
+      const inner = parseConditional();
+      expect(')');
+      return inner;
+    }
+    if (token.value === '-' || token.value === '+' || token.value === '!') {
+      return { kind: 'unary', op: token.value, operand: parsePrimary() };
+    }
+    throw new ExpressionError(`Unexpected "${token.value}"`);
+  };
+
+  // Precedence climbing over the binary operators
+  const parseBinary = (minPrecedence: number): ExpressionNode => {
+    let left = parsePrimary();
+    while (peek()?.type === 'operator' && (BINARY_PRECEDENCE[peek().value] ?? 0) >= minPrecedence) {
+      const op = String(tokens[position++].value);
+      const right = parseBinary(BINARY_PRECEDENCE[op] + 1);
+      left = { kind: 'binary', op, left, right };
+    }
+    return left;
+  };
+
+  const parseConditional = (): ExpressionNode => {
+    const test = parseBinary(1);
+    if (!isOperator('?')) return test;
+    position++;
+    const then = parseConditional();
+    expect(':');
+    return { kind: 'conditional', test, then, otherwise: parseConditional() };
+  };
+
+  if (tokens.length === 0) throw new ExpressionError('Expression is empty');
+  const node = parseConditional();
+  if (position < tokens.length) throw new ExpressionError(`Unexpected "${String(tokens[position].value)}"`);
+  return node;
+}
+
+// Field ids an expression reads, in order of first use
+export function getExpressionFields(source: string): string[] {
+  const ids: string[] = [];
+  const visit = (node: ExpressionNode) => {
+    if (node.kind === 'field' && !ids.includes(node.id)) ids.push(node.id);
+    if (node.kind === 'unary') visit(node.operand);
+    if (node.kind === 'binary') [node.left, node.right].forEach(visit);
+    if (node.kind === 'conditional') [node.test, node.then, node.otherwise].forEach(visit);
+    if (node.kind === 'call') node.args.forEach(visit);
+  };
+  visit(parseExpression(source));
+  return ids;
+}
+
+// Rewrites field references, e.g. after ids were renamed; the rest of the text is kept as written
+export function renameExpressionFields(source: string, rename: (id: string) => string): string {
+  const tokens = tokenize(source);
+  let result = '';
+  let cursor = 0;
+  tokens.forEach((token, index) => {
+    const isCall = tokens[index + 1]?.type === 'operator' && tokens[index + 1].value === '(';
+    if (token.type !== 'identifier' || (!token.braced && (isCall || token.value === 'true' || token.value === 'false'))) return;
+    const renamed = rename(token.value);
+    result += source.slice(cursor, token.start) + (token.braced || /^\d/.test(renamed) ? `{${renamed}}` : renamed);
+    cursor = token.end;
+  });
+  return result + source.slice(cursor);
+}
+
+function toNumber(value: Value): number {
+  if (value === null) return 0;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return value.trim() === '' ? 0 : Number(value);
+  return NaN;
+}
+
+function isNumeric(value: Value): boolean {
+  return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value)));
+}
+
+function isTruthy(value: Value): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value !== '' && value !== 'false';
+  return Boolean(value);
+}
+
+function flatten(values: Value[]): Value[] {
+  return values.flatMap((value) => (Array.isArray(value) ? flatten(value) : [value]));
+}
+
+function looselyEqual(left: Value, right: Value): boolean {
+  if (isNumeric(left) && isNumeric(right)) return toNumber(left) === toNumber(right);
+  if (Array.isArray(left)) return left.some((item) => looselyEqual(item, right));
+  return String(left ?? '') === String(right ?? '');
+}
+
+const FUNCTIONS: Record<string, (args: Value[]) => Value> = {
+  if: ([test, then, otherwise]) => (isTruthy(test) ? then ?? null : otherwise ?? null),
+  min: (args) => Math.min(...flatten(args).map(toNumber)),
+  max: (args) => Math.max(...flatten(args).map(toNumber)),
+  sum: (args) => flatten(args).reduce<number>((total, value) => total + toNumber(value), 0),
+  count: (args) => flatten(args).filter((value) => value !== null && value !== '').length,
+  round: ([value, digits]) => {
+    const factor = 10 ** toNumber(digits ?? 0);
+    return Math.round(toNumber(value) * factor) / factor;
+  },
+  floor: ([value]) => Math.floor(toNumber(value)),
+  ceil: ([value]) => Math.ceil(toNumber(value)),
+  abs: ([value]) => Math.abs(toNumber(value))
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+// Response values become numbers, strings, booleans or lists; anything structured reads as empty
+function readField(value: unknown): Value {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+  if (Array.isArray(value)) return value.map(readField);
+  return null;
+}
+
+function evaluate(node: ExpressionNode, values: Record<string, unknown>): Value {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      return readField(values[node.id]);
+    case 'unary': {
+      const operand = evaluate(node.operand, values);
+      if (node.op === '!') return !isTruthy(operand);
+      return node.op === '-' ? -toNumber(operand) : toNumber(operand);
+    }
+    case 'conditional':
+      return isTruthy(evaluate(node.test, values)) ? evaluate(node.then, values) : evaluate(node.otherwise, values);
+    case 'call':
+      return FUNCTIONS[node.name](node.args.map((arg) => evaluate(arg, values)));
+    case 'binary': {
+      // Short-circuit so a guard like `qty > 0 && total / qty > 10` never divides by zero
+      if (node.op === '&&') return isTruthy(evaluate(node.left, values)) && isTruthy(evaluate(node.right, values));
+      if (node.op === '||') return isTruthy(evaluate(node.left, values)) || isTruthy(evaluate(node.right, values));
+
+      const left = evaluate(node.left, values);
+      const right = evaluate(node.right, values);
+      switch (node.op) {
+        case '+':
+          // Text joins, everything else adds
+          if ((typeof left === 'string' && !isNumeric(left)) || (typeof right === 'string' && !isNumeric(right))) {
+            return `${left ?? ''}${right ?? ''}`;
+          }
+          return toNumber(left) + toNumber(right);
+        case '-':
+          return toNumber(left) - toNumber(right);
+        case '*':
+          return toNumber(left) * toNumber(right);
+        case '/':
+          return toNumber(left) / toNumber(right);
+        case '%':
+          return toNumber(left) % toNumber(right);
+        case '==':
+          return looselyEqual(left, right);
+        case '!=':
+          return !looselyEqual(left, right);
+        case '<':
+          return toNumber(left) < toNumber(right);
+        case '<=':
+          return toNumber(left) <= toNumber(right);
+        case '>':
+          return toNumber(left) > toNumber(right);
+        case '>=':
+          return toNumber(left) >= toNumber(right);
+      }
+      throw new ExpressionError(`Unknown operator "${node.op}"`);
+    }
+  }
+}
+
+/**
+ * Evaluates an expression against a set of response values. Results that are
+ * not finite numbers (division by zero, arithmetic on text) come back as null.
+ */
+export function evaluateExpression(source: string | ExpressionNode, values: Record<string, unknown>): ExpressionValue {
+  const result = evaluate(typeof source === 'string' ? parseExpression(source) : source, values);
+  if (Array.isArray(result)) return result.length;
+  if (typeof result === 'number' && !Number.isFinite(result)) return null;
+  return result;
+}
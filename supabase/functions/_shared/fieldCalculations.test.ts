@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { applyCalculations, getCalculationOrder } from './fieldCalculations.ts';
+import { getVisibleFieldIds } from './formConditions.ts';
+import type { FormField } from './formTypes.ts';
+
+// Declared out of dependency order on purpose: total reads subtotal, which is defined after it
+const fields: FormField[] = [
+  { id: 'price', type: 'number', label: 'Price', required: true },
+  { id: 'quantity', type: 'number', label: 'Quantity', required: true },
+  { id: 'total', type: 'calculated', label: 'Total', required: false, calculation: { expression: 'subtotal * 1.2' } },
+  { id: 'subtotal', type: 'calculated', label: 'Subtotal', required: false, calculation: { expression: 'price * quantity', decimals: 0 } },
+  {
+    id: 'invoice_email',
+    type: 'email',
+    label: 'Invoice email',
+    required: true,
+    visibleWhen: { combinator: 'and', conditions: [{ field: 'total', operator: 'greater_than', value: 100 }] }
+  }
+];
+
+describe('applyCalculations', () => {
+  it('evaluates calculated fields after the ones they depend on', () => {
+    expect(getCalculationOrder(fields).order.map((field) => field.id)).toEqual(['subtotal', 'total']);
+    expect(applyCalculations(fields, { price: '9.99', quantity: '3' })).toMatchObject({ subtotal: 30, total: 36 });
+  });
+
+  it('replaces whatever the client sent for a calculated field', () => {
+    expect(applyCalculations(fields, { price: 1, quantity: 1, subtotal: 5000, total: 5000 })).toMatchObject({ subtotal: 1, total: 1.2 });
+  });
+
+  it('gives null for invalid expressions and for division by zero', () => {
+    const broken: FormField[] = [
+      { id: 'bad', type: 'calculated', label: 'Bad', required: false, calculation: { expression: 'price *' } },
+      { id: 'ratio', type: 'calculated', label: 'Ratio', required: false, calculation: { expression: 'price / quantity' } }
+    ];
+    expect(applyCalculations(broken, { price: 4, quantity: 0 })).toEqual({ price: 4, quantity: 0, bad: null, ratio: null });
+  });
+
+  it('reports circular calculations', () => {
+    const circular: FormField[] = [
+      { id: 'a', type: 'calculated', label: 'A', required: false, calculation: { expression: 'b + 1' } },
+      { id: 'b', type: 'calculated', label: 'B', required: false, calculation: { expression: 'a + 1' } }
+    ];
+    expect(getCalculationOrder(circular).cycle).toEqual(['a', 'b', 'a']);
+  });
+
+  it('feeds calculated values into visibility conditions', () => {
+    const visibleFor = (values: Record<string, unknown>) => getVisibleFieldIds(fields, applyCalculations(fields, values));
+
+    expect(visibleFor({ price: 10, quantity: 5 }).has('invoice_email')).toBe(false);
+    expect(visibleFor({ price: 10, quantity: 9 }).has('invoice_email')).toBe(true);
+    // A client claiming a large total can't reveal the field
+    expect(visibleFor({ price: 1, quantity: 1, total: 1000 }).has('invoice_email')).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import type { FormField } from './formTypes.ts';
+import { evaluateExpression, getExpressionFields, parseExpression, type ExpressionValue } from './expressions.ts';
+
+const DEFAULT_DECIMALS = 2;
+
+/**
+ * Calculated fields in the order they must be evaluated so each one sees the
+ * results it depends on. Returns the ids involved in a cycle when there is one.
+ */
+export function getCalculationOrder(fields: FormField[]): { order: FormField[]; cycle: string[] | null } {
+  const calculated = new Map(fields.filter((field) => field.type === 'calculated').map((field) => [field.id, field]));
+  const order: FormField[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  let cycle: string[] | null = null;
+
+  const visit = (field: FormField, path: string[]) => {
+    if (state.get(field.id) === 'done') return;
+    if (state.get(field.id) === 'visiting') {
+      cycle ??= [...path.slice(path.indexOf(field.id)), field.id];
+      return;
+    }
+    state.set(field.id, 'visiting');
+    let dependencies: string[] = [];
+    try {
+      dependencies = getExpressionFields(field.calculation?.expression || '');
+    } catch {
+      // Invalid expressions evaluate to null and have no dependencies
+    }
+    for (const id of dependencies) {
+      const dependency = calculated.get(id);
+      if (dependency) visit(dependency, [...path, field.id]);
+    }
+    state.set(field.id, 'done');
+    order.push(field);
+  };
+
+  calculated.forEach((field) => visit(field, []));
+  return { order, cycle };
+}
+
+export function calculateFieldValue(field: FormField, values: Record<string, unknown>): ExpressionValue {
+  try {
+    const result = evaluateExpression(parseExpression(field.calculation?.expression || ''), values);
+    if (typeof result !== 'number') return result;
+    const factor = 10 ** (field.calculation?.decimals ?? DEFAULT_DECIMALS);
+    return Math.round(result * factor) / factor;
+  } catch {
+    return null;
+  }
+}
+
+// Returns a copy of `values` with every calculated field recomputed from the others
+export function applyCalculations(fields: FormField[], values: Record<string, unknown>): Record<string, unknown> {
+  const result = { ...values };
+  for (const field of getCalculationOrder(fields).order) {
+    result[field.id] = calculateFieldValue(field, result);
+  }
+  return result;
+}
+
+// The query parameter wins over the default; `search` is a location.search string
+export function getHiddenFieldValue(field: FormField, search: string): string {
+  const param = field.hidden?.param || field.id;
+  return new URLSearchParams(search).get(param) ?? field.hidden?.defaultValue ?? '';
+}
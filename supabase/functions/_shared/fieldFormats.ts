@@ -0,0 +1,48 @@
+import type { FormField } from './formTypes.ts';
+
+// Phone answers are stored in E.164 form: a plus, the country code, then the number
+export const E164_PHONE = /^\+[1-9]\d{6,14}$/;
+
+// Values produced by <input type="time"> and <input type="datetime-local">
+export const TIME_VALUE = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+export const DATETIME_LOCAL_VALUE = /^\d{4}-\d{2}-\d{2}T([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Strips spacing and punctuation and turns an international 00 prefix into +
+export function normalizePhone(value: string): string {
+  const compact = value.trim().replace(/[\s().-]/g, '');
+  return compact.startsWith('00') ? `+${compact.slice(2)}` : compact;
+}
+
+export function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.includes('.');
+  } catch {
+    return false;
+  }
+}
+
+export function isCurrencyCode(code: unknown): code is string {
+  if (typeof code !== 'string' || !/^[A-Z]{3}$/.test(code)) return false;
+  try {
+    new Intl.NumberFormat('en', { style: 'currency', currency: code });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getCurrencyCode(field: Pick<FormField, 'currency'>): string {
+  return isCurrencyCode(field.currency) ? field.currency : DEFAULT_CURRENCY;
+}
+
+// Minor units allowed for the currency, e.g. 2 for USD and 0 for JPY
+export function getCurrencyDigits(code: string): number {
+  return new Intl.NumberFormat('en', { style: 'currency', currency: code }).resolvedOptions().maximumFractionDigits;
+}
+
+export function formatCurrency(amount: number, code: string): string {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency: code }).format(amount);
+}
@@ -0,0 +1,49 @@
+import type { FormField, ScaleSettings } from './formTypes.ts';
+
+export const SCALE_FIELD_TYPES: FormField['type'][] = ['rating', 'scale', 'nps'];
+
+export interface ScaleRange {
+  min: number;
+  max: number;
+  minLabel?: string;
+  maxLabel?: string;
+}
+
+// The interval each bound may take per type; nps is pinned to 0-10
+const SCALE_LIMITS: Record<'rating' | 'scale' | 'nps', { min: [number, number]; max: [number, number]; defaults: ScaleRange }> = {
+  rating: { min: [1, 1], max: [3, 10], defaults: { min: 1, max: 5 } },
+  scale: { min: [0, 1], max: [2, 10], defaults: { min: 1, max: 5 } },
+  nps: {
+    min: [0, 0],
+    max: [10, 10],
+    defaults: { min: 0, max: 10, minLabel: 'Not at all likely', maxLabel: 'Extremely likely' }
+  }
+};
+
+function clamp(value: unknown, [low, high]: [number, number], fallback: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value)) return fallback;
+  return Math.min(high, Math.max(low, value));
+}
+
+export function isScaleField(field: Pick<FormField, 'type'>): boolean {
+  return SCALE_FIELD_TYPES.includes(field.type);
+}
+
+/**
+ * Resolves the effective range and labels of a rating, scale or nps field,
+ * clamping configured bounds into what the type supports.
+ */
+export function getScaleRange(field: Pick<FormField, 'type' | 'scale'>): ScaleRange {
+  const limits = SCALE_LIMITS[field.type as keyof typeof SCALE_LIMITS] || SCALE_LIMITS.scale;
+  const settings: ScaleSettings = field.scale || {};
+
+  const range: ScaleRange = {
+    min: clamp(settings.min, limits.min, limits.defaults.min),
+    max: clamp(settings.max, limits.max, limits.defaults.max)
+  };
+  const minLabel = settings.minLabel?.trim() || limits.defaults.minLabel;
+  const maxLabel = settings.maxLabel?.trim() || limits.defaults.maxLabel;
+  if (minLabel) range.minLabel = minLabel;
+  if (maxLabel) range.maxLabel = maxLabel;
+  return range;
+}
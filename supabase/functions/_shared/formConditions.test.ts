@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { getVisibleFieldIds, getVisibleFields } from './formConditions.ts';
+import type { FieldCondition, FormField, VisibilityRule } from './formTypes.ts';
+
+const when = (...conditions: Array<FieldCondition | VisibilityRule>): VisibilityRule => ({ combinator: 'and', conditions });
+
+// attending → dietary → allergy_details, each revealed by the answer before it
+const fields: FormField[] = [
+  { id: 'attending', type: 'radio', label: 'Attending?', required: true, options: ['Yes', 'No'] },
+  {
+    id: 'dietary',
+    type: 'checkbox',
+    label: 'Dietary needs',
+    required: false,
+    options: ['Vegetarian', 'Allergy'],
+    visibleWhen: when({ field: 'attending', operator: 'equals', value: 'Yes' })
+  },
+  {
+    id: 'allergy_details',
+    type: 'textarea',
+    label: 'Allergy details',
+    required: true,
+    visibleWhen: when({ field: 'dietary', operator: 'contains', value: 'Allergy' })
+  },
+  {
+    id: 'reason',
+    type: 'text',
+    label: 'Reason',
+    required: false,
+    visibleWhen: when({ field: 'attending', operator: 'equals', value: 'No' })
+  }
+];
+
+const visible = (values: Record<string, unknown>) => [...getVisibleFieldIds(fields, values)];
+
+describe('getVisibleFieldIds', () => {
+  it('reveals each field in a chain once the one before it is answered', () => {
+    expect(visible({})).toEqual(['attending']);
+    expect(visible({ attending: 'Yes' })).toEqual(['attending', 'dietary']);
+    expect(visible({ attending: 'Yes', dietary: ['Allergy'] })).toEqual(['attending', 'dietary', 'allergy_details']);
+    expect(visible({ attending: 'No' })).toEqual(['attending', 'reason']);
+  });
+
+  it('hides a whole branch when its parent is hidden, whatever its stale answers say', () => {
+    const values = { attending: 'No', dietary: ['Allergy'], allergy_details: 'Peanuts' };
+
+    expect(visible(values)).toEqual(['attending', 'reason']);
+    expect(getVisibleFields(fields, values).map((field) => field.id)).toEqual(['attending', 'reason']);
+  });
+
+  it('lets is_empty conditions see a hidden parent as empty', () => {
+    const withFallback: FormField[] = [
+      ...fields,
+      {
+        id: 'no_needs',
+        type: 'checkbox',
+        label: 'No dietary needs',
+        required: false,
+        options: ['Confirmed'],
+        visibleWhen: when({ field: 'dietary', operator: 'is_empty' })
+      }
+    ];
+
+    expect(getVisibleFieldIds(withFallback, { attending: 'No', dietary: ['Vegetarian'] }).has('no_needs')).toBe(true);
+    expect(getVisibleFieldIds(withFallback, { attending: 'Yes', dietary: ['Vegetarian'] }).has('no_needs')).toBe(false);
+  });
+
+  it('combines nested and/or rules', () => {
+    const rules: FormField[] = [
+      { id: 'age', type: 'number', label: 'Age', required: true },
+      { id: 'country', type: 'text', label: 'Country', required: true },
+      {
+        id: 'consent',
+        type: 'checkbox',
+        label: 'Parental consent',
+        required: true,
+        options: ['Given'],
+        visibleWhen: when(
+          { field: 'age', operator: 'less_than', value: 18 },
+          { combinator: 'or', conditions: [{ field: 'country', operator: 'equals', value: 'UK' }, { field: 'country', operator: 'equals', value: 'IE' }] }
+        )
+      }
+    ];
+
+    expect(getVisibleFieldIds(rules, { age: '16', country: 'IE' }).has('consent')).toBe(true);
+    expect(getVisibleFieldIds(rules, { age: '16', country: 'FR' }).has('consent')).toBe(false);
+    expect(getVisibleFieldIds(rules, { age: '30', country: 'UK' }).has('consent')).toBe(false);
+    expect(getVisibleFieldIds(rules, { age: '', country: 'UK' }).has('consent')).toBe(false);
+  });
+
+  it('shows fields whose conditions depend on each other rather than hiding them forever', () => {
+    const circular: FormField[] = [
+      { id: 'a', type: 'text', label: 'A', required: false, visibleWhen: when({ field: 'b', operator: 'is_empty' }) },
+      { id: 'b', type: 'text', label: 'B', required: false, visibleWhen: when({ field: 'a', operator: 'is_empty' }) }
+    ];
+
+    expect([...getVisibleFieldIds(circular, {})]).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,93 @@
+import type { FieldCondition, FormField, VisibilityRule } from './formTypes.ts';
+
+type FormValues = Record<string, unknown>;
+
+function isRule(condition: FieldCondition | VisibilityRule): condition is VisibilityRule {
+  return 'combinator' in condition && Array.isArray((condition as VisibilityRule).conditions);
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return String(value).trim() === '';
+}
+
+function evaluateCondition(condition: FieldCondition, value: unknown): boolean {
+  const expected = condition.value === undefined ? '' : String(condition.value);
+
+  switch (condition.operator) {
+    case 'equals':
+      // Multi-select values match when the expected option is among the selections
+      if (Array.isArray(value)) return value.map(String).includes(expected);
+      return !isEmptyValue(value) && String(value) === expected;
+    case 'not_equals':
+      if (Array.isArray(value)) return !value.map(String).includes(expected);
+      return isEmptyValue(value) || String(value) !== expected;
+    case 'contains':
+      if (Array.isArray(value)) return value.map(String).includes(expected);
+      return !isEmptyValue(value) && String(value).toLowerCase().includes(expected.toLowerCase());
+    case 'not_contains':
+      if (Array.isArray(value)) return !value.map(String).includes(expected);
+      return isEmptyValue(value) || !String(value).toLowerCase().includes(expected.toLowerCase());
+    case 'greater_than':
+    case 'less_than': {
+      if (isEmptyValue(value) || Array.isArray(value)) return false;
+      const actual = Number(value);
+      const target = Number(condition.value);
+      if (Number.isNaN(actual) || Number.isNaN(target)) return false;
+      return condition.operator === 'greater_than' ? actual > target : actual < target;
+    }
+    case 'is_empty':
+      return isEmptyValue(value);
+    case 'is_not_empty':
+      return !isEmptyValue(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Resolves which fields are currently visible. A field whose controlling field is
+ * itself hidden sees that field as empty, so chained branches collapse together.
+ */
+export function getVisibleFieldIds(fields: FormField[], values: FormValues): Set<string> {
+  const fieldsById = new Map(fields.map((field) => [field.id, field]));
+  const resolved = new Map<string, boolean>();
+  const resolving = new Set<string>();
+
+  const valueOf = (fieldId: string): unknown => {
+    if (!fieldsById.has(fieldId)) return values[fieldId];
+    return isVisible(fieldId) ? values[fieldId] : undefined;
+  };
+
+  const evaluateRule = (rule: VisibilityRule): boolean => {
+    if (!rule.conditions || rule.conditions.length === 0) return true;
+    const results = rule.conditions.map((condition) =>
+      isRule(condition) ? evaluateRule(condition) : evaluateCondition(condition, valueOf(condition.field))
+    );
+    return rule.combinator === 'or' ? results.some(Boolean) : results.every(Boolean);
+  };
+
+  function isVisible(fieldId: string): boolean {
+    const cached = resolved.get(fieldId);
+    if (cached !== undefined) return cached;
+
+    // Circular rules can't be resolved; show the field rather than trap the respondent
+    if (resolving.has(fieldId)) return true;
+
+    const field = fieldsById.get(fieldId);
+    resolving.add(fieldId);
+    const visible = !field?.visibleWhen || evaluateRule(field.visibleWhen);
+    resolving.delete(fieldId);
+
+    resolved.set(fieldId, visible);
+    return visible;
+  }
+
+  return new Set(fields.filter((field) => isVisible(field.id)).map((field) => field.id));
+}
+
+export function getVisibleFields(fields: FormField[], values: FormValues): FormField[] {
+  const visibleIds = getVisibleFieldIds(fields, values);
+  return fields.filter((field) => visibleIds.has(field.id));
+}
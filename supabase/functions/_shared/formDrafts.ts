@@ -0,0 +1,32 @@
+import type { FormField, FormSettings } from './formTypes.ts';
+
+export const DEFAULT_DRAFT_EXPIRY_DAYS = 7;
+export const MAX_DRAFT_EXPIRY_DAYS = 90;
+
+// Serialized size limit for a stored draft, well above any realistic set of answers
+export const MAX_DRAFT_BYTES = 100_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getDraftExpiryDays(settings: FormSettings | null | undefined): number {
+  const days = settings?.drafts?.expiryDays;
+  if (typeof days !== 'number' || !Number.isInteger(days) || days < 1) return DEFAULT_DRAFT_EXPIRY_DAYS;
+  return Math.min(days, MAX_DRAFT_EXPIRY_DAYS);
+}
+
+export function getDraftExpiry(settings: FormSettings | null | undefined, savedAt: Date = new Date()): Date {
+  return new Date(savedAt.getTime() + getDraftExpiryDays(settings) * DAY_MS);
+}
+
+/**
+ * Keeps the answers worth resuming: only keys that are field ids, and never calculated
+ * values, which are recomputed anyway. Drafts are incomplete, so nothing is validated.
+ */
+export function pickDraftResponses(fields: FormField[], responses: Record<string, unknown>): Record<string, unknown> {
+  const draft: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (field.type === 'calculated' || !(field.id in responses)) continue;
+    draft[field.id] = responses[field.id];
+  }
+  return draft;
+}
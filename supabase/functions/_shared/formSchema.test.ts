@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { createUniqueFieldId, findSchemaProblem, parseFormSchema, repairFormSchema, slugifyFieldId } from './formSchema.ts';
+
+describe('field ids', () => {
+  it.each([
+    ['Full Name', 'full_name'],
+    ['  E-mail address? ', 'e_mail_address'],
+    ['Café №1', 'caf_1'],
+    ['!!!', 'field']
+  ])('slugifies %j to %j', (label, id) => {
+    expect(slugifyFieldId(label)).toBe(id);
+  });
+
+  it('adds a numeric suffix until the id is unused', () => {
+    expect(createUniqueFieldId('Email', [])).toBe('email');
+    expect(createUniqueFieldId('Email', ['email', 'email_2'])).toBe('email_3');
+  });
+});
+
+describe('repairFormSchema', () => {
+  it('renames invalid and duplicate ids and keeps conditions pointing at the first field', () => {
+    const { schema, fixes } = repairFormSchema({
+      title: 'Signup',
+      fields: [
+        { id: 'email', type: 'email', label: 'Email' },
+        { id: 'email', type: 'text', label: 'Confirm email' },
+        { id: 'Your Name!', type: 'text', label: 'Your name' },
+        { type: 'text', label: 'Company name' },
+        { id: 'newsletter', type: 'checkbox', label: 'News', options: ['Yes'], visibleWhen: { combinator: 'and', conditions: [{ field: 'email', operator: 'is_not_empty' }] } }
+      ]
+    });
+
+    expect(schema.fields.map((field) => field.id)).toEqual(['email', 'email_2', 'your_name', 'company_name', 'newsletter']);
+    expect(schema.fields[4].visibleWhen).toEqual({ combinator: 'and', conditions: [{ field: 'email', operator: 'is_not_empty' }] });
+    expect(fixes.map((fix) => fix.message)).toEqual([
+      'Renamed duplicate field id "email" to "email_2"',
+      'Renamed field id "Your Name!" to "your_name"',
+      'Added missing field id "company_name"'
+    ]);
+  });
+
+  it('coerces type aliases and falls back to text for unknown types', () => {
+    const { schema, fixes } = repairFormSchema({
+      title: 'Feedback',
+      fields: [
+        { id: 'comments', type: 'Long Text', label: 'Comments' },
+        { id: 'colour', type: 'dropdown', label: 'Colour', options: ['Red'] },
+        { id: 'mood', type: 'emoji-picker', label: 'Mood' },
+        { id: 'age', label: 'Age' }
+      ]
+    });
+
+    expect(schema.fields.map((field) => field.type)).toEqual(['textarea', 'select', 'text', 'text']);
+    expect(fixes.map((fix) => fix.message)).toEqual([
+      'Changed type of "comments" from "Long Text" to "textarea"',
+      'Changed type of "colour" from "dropdown" to "select"',
+      'Changed type of "mood" from "emoji-picker" to "text"',
+      'Changed type of "age" from "missing" to "text"'
+    ]);
+  });
+
+  it('cleans up options and backfills placeholders when none are usable', () => {
+    const { schema, fixes } = repairFormSchema({
+      title: 'Preferences',
+      fields: [
+        { id: 'size', type: 'select', label: 'Size', options: [' S ', 'M', 'M', { label: 'L' }, { value: 42 }, '', null] },
+        { id: 'plan', type: 'radio', label: 'Plan' },
+        { id: 'agree', type: 'checkbox', label: 'Agree', options: [] }
+      ]
+    });
+
+    expect(schema.fields.map((field) => field.options)).toEqual([['S', 'M', 'L', '42'], ['Option 1', 'Option 2'], ['Yes']]);
+    expect(fixes.map((fix) => fix.message)).toEqual(['Added placeholder options to "Plan"', 'Added placeholder options to "Agree"']);
+  });
+
+  it('fills in a missing title and labels and drops malformed field entries', () => {
+    const { schema, fixes } = repairFormSchema({ fields: [{ id: 'firstName', type: 'text' }, 'oops', null] });
+
+    expect(schema.title).toBe('Untitled form');
+    expect(schema.fields).toEqual([{ id: 'firstName', type: 'text', label: 'First Name', required: false }]);
+    expect(fixes.map((fix) => fix.message)).toEqual([
+      'Added a missing form title',
+      'Dropped 2 malformed field entries',
+      'Added a label to "firstName"'
+    ]);
+    expect(findSchemaProblem(schema)).toBeNull();
+  });
+
+  it.each([null, 'a contact form', [], { title: 'No fields' }, { title: 'Bad fields', fields: 'name, email' }])(
+    'rejects %j, which has no fields array to repair',
+    (input) => {
+      expect(() => repairFormSchema(input)).toThrow('Schema must be an object with a fields array');
+      expect(() => parseFormSchema(input)).toThrow('Schema must be an object with a fields array');
+    }
+  );
+});
+
+describe('findSchemaProblem', () => {
+  it('reports what the strict definition rejects in an unrepaired schema', () => {
+    expect(findSchemaProblem({
+      title: 'Signup',
+      description: '',
+      fields: [
+        { id: 'email', type: 'email', label: 'Email', required: true },
+        { id: 'email', type: 'text', label: 'Confirm email', required: true }
+      ]
+    })).toBe('Duplicate field id "email"');
+  });
+});
@@ -0,0 +1,858 @@
+import { z } from 'zod';
+import type {
+  AddressPart,
+  AddressSettings,
+  CalculationSettings,
+  ConditionOperator,
+  FieldCondition,
+  FieldValidation,
+  FormField,
+  FormSchema,
+  FormSection,
+  GroupSettings,
+  HiddenSettings,
+  MatrixRow,
+  MatrixSettings,
+  ScaleSettings,
+  VisibilityRule
+} from './formTypes.ts';
+import { getScaleRange, isScaleField } from './fieldScales.ts';
+import { isCurrencyCode } from './fieldFormats.ts';
+import { ADDRESS_PARTS } from './addressFormats.ts';
+import { getExpressionFields, parseExpression, renameExpressionFields } from './expressions.ts';
+import { getCalculationOrder } from './fieldCalculations.ts';
+
+export const FIELD_TYPES: FormField['type'][] = [
+  'text',
+  'email',
+  'number',
+  'textarea',
+  'select',
+  'checkbox',
+  'radio',
+  'date',
+  'file',
+  'rating',
+  'scale',
+  'nps',
+  'matrix',
+  'group',
+  'phone',
+  'url',
+  'time',
+  'datetime-local',
+  'currency',
+  'address',
+  'signature',
+  'hidden',
+  'calculated'
+];
+
+export const OPTION_FIELD_TYPES: FormField['type'][] = ['select', 'checkbox', 'radio'];
+
+// Groups can't nest, and uploads and signatures are tracked per top-level field
+export const GROUP_CHILD_TYPES: FormField['type'][] = FIELD_TYPES.filter(
+  (type) => !['group', 'file', 'signature', 'hidden', 'calculated'].includes(type)
+);
+
+// Types that are never shown as an input to the respondent
+export const COMPUTED_FIELD_TYPES: FormField['type'][] = ['hidden', 'calculated'];
+
+export const CONDITION_OPERATORS: ConditionOperator[] = [
+  'equals',
+  'not_equals',
+  'contains',
+  'not_contains',
+  'greater_than',
+  'less_than',
+  'is_empty',
+  'is_not_empty'
+];
+
+// Field ids become keys in submission responses and CSV headers
+export const FIELD_ID_PATTERN = /^[A-Za-z0-9_]+$/;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function slugifyFieldId(label: string): string {
+  return label
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'field';
+}
+
+export function createUniqueFieldId(base: string, existingIds: string[]): string {
+  const slug = slugifyFieldId(base);
+  if (!existingIds.includes(slug)) return slug;
+
+  let suffix = 2;
+  while (existingIds.includes(`${slug}_${suffix}`)) suffix++;
+  return `${slug}_${suffix}`;
+}
+
+const fieldConditionDefinition = z.object({
+  field: z.string().min(1),
+  operator: z.enum(CONDITION_OPERATORS as [ConditionOperator, ...ConditionOperator[]]),
+  value: z.union([z.string(), z.number()]).optional()
+}).strict();
+
+// Typed loosely because the recursive rule type is declared in formTypes
+const visibilityRuleDefinition: z.ZodTypeAny = z.lazy(() =>
+  z.object({
+    combinator: z.enum(['and', 'or']),
+    conditions: z.array(z.union([fieldConditionDefinition, visibilityRuleDefinition])).min(1)
+  }).strict()
+);
+
+const fieldValidationDefinition = z.object({
+  min: z.number().finite().optional(),
+  max: z.number().finite().optional(),
+  minDate: z.string().regex(ISO_DATE).optional(),
+  maxDate: z.string().regex(ISO_DATE).optional(),
+  pattern: z.string().min(1).optional(),
+  message: z.string().min(1).optional()
+}).strict();
+
+const scaleSettingsDefinition = z.object({
+  min: z.number().int().optional(),
+  max: z.number().int().optional(),
+  minLabel: z.string().optional(),
+  maxLabel: z.string().optional()
+}).strict();
+
+const matrixSettingsDefinition = z.object({
+  rows: z.array(z.object({
+    id: z.string().regex(FIELD_ID_PATTERN, 'Matrix row ids may only contain letters, numbers and underscores'),
+    label: z.string().min(1),
+    required: z.boolean().optional()
+  }).strict()).min(1),
+  columns: z.array(z.string().min(1)).min(1),
+  multiple: z.boolean().optional()
+}).strict();
+
+const COUNTRY_CODE = /^[A-Z]{2}$/;
+
+const addressSettingsDefinition = z.object({
+  requiredParts: z.array(z.enum(ADDRESS_PARTS as [AddressPart, ...AddressPart[]])).optional(),
+  defaultCountry: z.string().regex(COUNTRY_CODE, 'Default country must be a two-letter ISO code').optional()
+}).strict();
+
+const hiddenSettingsDefinition = z.object({
+  param: z.string().regex(/^[A-Za-z0-9_.-]+$/, 'Query parameter names may only contain letters, numbers, _ . and -').optional(),
+  defaultValue: z.string().optional()
+}).strict();
+
+const calculationSettingsDefinition = z.object({
+  expression: z.string().min(1, 'Calculated fields need an expression'),
+  decimals: z.number().int().min(0).max(6).optional()
+}).strict();
+
+// Typed loosely because group children are themselves fields
+const groupSettingsDefinition: z.ZodTypeAny = z.lazy(() =>
+  z.object({
+    fields: z.array(formFieldDefinition).min(1),
+    minItems: z.number().int().min(0).optional(),
+    maxItems: z.number().int().min(1).optional(),
+    itemLabel: z.string().min(1).optional()
+  }).strict().superRefine((group, ctx) => {
+    const { fields, minItems, maxItems } = group as GroupSettings;
+    if (minItems !== undefined && maxItems !== undefined && minItems > maxItems) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['minItems'], message: 'A group cannot require more entries than it allows' });
+    }
+    const ids = new Set<string>();
+    fields.forEach((child, index) => {
+      if (ids.has(child.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields', index, 'id'], message: `Duplicate field id "${child.id}" in group` });
+      }
+      ids.add(child.id);
+      if (!GROUP_CHILD_TYPES.includes(child.type)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields', index, 'type'], message: `"${child.label}" cannot be a ${child.type} inside a group` });
+      }
+      if (child.visibleWhen) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields', index, 'visibleWhen'], message: `"${child.label}" cannot be conditional inside a group` });
+      }
+    });
+  })
+);
+
+const formFieldDefinition = z.object({
+  id: z.string().regex(FIELD_ID_PATTERN, 'Field ids may only contain letters, numbers and underscores'),
+  type: z.enum(FIELD_TYPES as [FormField['type'], ...FormField['type'][]]),
+  label: z.string().min(1, 'Every field needs a label'),
+  placeholder: z.string().optional(),
+  required: z.boolean(),
+  options: z.array(z.string().min(1)).optional(),
+  validation: fieldValidationDefinition.optional(),
+  scale: scaleSettingsDefinition.optional(),
+  matrix: matrixSettingsDefinition.optional(),
+  group: groupSettingsDefinition.optional(),
+  currency: z.string().refine(isCurrencyCode, 'Currency must be an ISO 4217 code such as USD').optional(),
+  address: addressSettingsDefinition.optional(),
+  hidden: hiddenSettingsDefinition.optional(),
+  calculation: calculationSettingsDefinition.optional(),
+  visibleWhen: visibilityRuleDefinition.optional()
+}).strict().superRefine((parsed, ctx) => {
+  const field = parsed as FormField;
+  if (OPTION_FIELD_TYPES.includes(field.type) && !field.options?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: `"${field.label}" needs at least one option` });
+  }
+  if (field.scale && !isScaleField(field)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['scale'], message: `"${field.label}" is not a rating, scale or nps field` });
+  }
+  if ((field.type === 'matrix') !== !!field.matrix) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['matrix'],
+      message: field.type === 'matrix' ? `"${field.label}" needs matrix rows and columns` : `"${field.label}" is not a matrix field`
+    });
+  }
+  if ((field.type === 'group') !== !!field.group) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['group'],
+      message: field.type === 'group' ? `"${field.label}" needs child fields` : `"${field.label}" is not a group field`
+    });
+  }
+  if (field.currency && field.type !== 'currency' && field.type !== 'calculated') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['currency'], message: `"${field.label}" is not a currency field` });
+  }
+  if (field.hidden && field.type !== 'hidden') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['hidden'], message: `"${field.label}" is not a hidden field` });
+  }
+  if ((field.type === 'calculated') !== !!field.calculation) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['calculation'],
+      message: field.type === 'calculated' ? `"${field.label}" needs an expression` : `"${field.label}" is not a calculated field`
+    });
+  }
+  if (field.calculation?.expression) {
+    try {
+      parseExpression(field.calculation.expression);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['calculation', 'expression'],
+        message: `"${field.label}" has an invalid expression: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+  }
+  if (field.address && field.type !== 'address') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['address'], message: `"${field.label}" is not an address field` });
+  }
+  if (field.matrix && new Set(field.matrix.rows.map((row) => row.id)).size !== field.matrix.rows.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['matrix', 'rows'], message: `"${field.label}" has duplicate row ids` });
+  }
+  if (field.scale && isScaleField(field)) {
+    const { min, max } = getScaleRange(field);
+    if ((field.scale.min !== undefined && field.scale.min !== min) || (field.scale.max !== undefined && field.scale.max !== max)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['scale'], message: `"${field.label}" has an unsupported range` });
+    }
+  }
+});
+
+const formSectionDefinition = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  fields: z.array(z.string())
+}).strict();
+
+function collectConditionFields(rule: VisibilityRule, into: string[] = []): string[] {
+  for (const condition of rule.conditions) {
+    if ('conditions' in condition) collectConditionFields(condition, into);
+    else into.push(condition.field);
+  }
+  return into;
+}
+
+/**
+ * The strict definition of a stored form schema. Beyond the shape, it checks
+ * that field ids are unique and that conditions and sections only reference
+ * fields that exist.
+ */
+export const formSchemaDefinition = z.object({
+  title: z.string().min(1, 'The form needs a title'),
+  description: z.string(),
+  fields: z.array(formFieldDefinition),
+  sections: z.array(formSectionDefinition).optional()
+}).strict().superRefine((schema, ctx) => {
+  const ids = new Set<string>();
+  schema.fields.forEach((field, index) => {
+    if (ids.has(field.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields', index, 'id'], message: `Duplicate field id "${field.id}"` });
+    }
+    ids.add(field.id);
+  });
+
+  schema.fields.forEach((field, index) => {
+    if (!field.visibleWhen) return;
+    for (const id of collectConditionFields(field.visibleWhen)) {
+      if (!ids.has(id) || id === field.id) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['fields', index, 'visibleWhen'],
+          message: `"${field.label}" has a condition on unknown field "${id}"`
+        });
+      }
+    }
+  });
+
+  schema.fields.forEach((field, index) => {
+    if (!field.calculation?.expression) return;
+    let references: string[] = [];
+    try {
+      references = getExpressionFields(field.calculation.expression);
+    } catch {
+      return; // Reported by the field definition
+    }
+    for (const id of references) {
+      if (!ids.has(id) || id === field.id) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['fields', index, 'calculation', 'expression'],
+          message: `"${field.label}" uses unknown field "${id}"`
+        });
+      }
+    }
+  });
+  const { cycle } = getCalculationOrder(schema.fields as FormField[]);
+  if (cycle) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields'], message: `Calculated fields depend on each other: ${cycle.join(' → ')}` });
+  }
+
+  const assigned = new Set<string>();
+  schema.sections?.forEach((section, index) => {
+    for (const id of section.fields) {
+      if (!ids.has(id) || assigned.has(id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['sections', index, 'fields'],
+          message: `Section "${section.title}" lists unknown or repeated field "${id}"`
+        });
+      }
+      assigned.add(id);
+    }
+  });
+});
+
+// A human-readable note about one automatic repair
+export interface SchemaFix {
+  fieldId?: string;
+  message: string;
+}
+
+export interface SchemaRepairResult {
+  schema: FormSchema;
+  fixes: SchemaFix[];
+}
+
+// Common names models use for the supported field types
+const TYPE_ALIASES: Record<string, FormField['type']> = {
+  string: 'text',
+  short_text: 'text',
+  input: 'text',
+  name: 'text',
+  tel: 'phone',
+  telephone: 'phone',
+  phone_number: 'phone',
+  mobile: 'phone',
+  website: 'url',
+  link: 'url',
+  uri: 'url',
+  long_text: 'textarea',
+  paragraph: 'textarea',
+  text_area: 'textarea',
+  comment: 'textarea',
+  integer: 'number',
+  int: 'number',
+  float: 'number',
+  decimal: 'number',
+  stars: 'rating',
+  star_rating: 'rating',
+  range: 'scale',
+  linear_scale: 'scale',
+  likert: 'scale',
+  opinion_scale: 'scale',
+  net_promoter_score: 'nps',
+  grid: 'matrix',
+  likert_grid: 'matrix',
+  matrix_radio: 'matrix',
+  repeater: 'group',
+  repeating_group: 'group',
+  repeatable: 'group',
+  fieldset: 'group',
+  list: 'group',
+  dropdown: 'select',
+  multiple_choice: 'radio',
+  single_choice: 'radio',
+  choice: 'radio',
+  boolean: 'checkbox',
+  checkboxes: 'checkbox',
+  multiselect: 'checkbox',
+  multi_select: 'checkbox',
+  toggle: 'checkbox',
+  datetime: 'datetime-local',
+  datetime_local: 'datetime-local',
+  date_time: 'datetime-local',
+  timestamp: 'datetime-local',
+  clock: 'time',
+  money: 'currency',
+  price: 'currency',
+  amount: 'currency',
+  postal_address: 'address',
+  mailing_address: 'address',
+  shipping_address: 'address',
+  billing_address: 'address',
+  street_address: 'address',
+  computed: 'calculated',
+  calculation: 'calculated',
+  formula: 'calculated',
+  total: 'calculated',
+  tracking: 'hidden',
+  utm: 'hidden',
+  hidden_field: 'hidden',
+  hidden_input: 'hidden',
+  sign: 'signature',
+  e_signature: 'signature',
+  esignature: 'signature',
+  signature_pad: 'signature',
+  upload: 'file',
+  image: 'file',
+  attachment: 'file'
+};
+
+const DEFAULT_MATRIX_COLUMNS = ['Strongly disagree', 'Disagree', 'Neutral', 'Agree', 'Strongly agree'];
+
+const DEFAULT_OPTIONS: Partial<Record<FormField['type'], string[]>> = {
+  select: ['Option 1', 'Option 2'],
+  radio: ['Option 1', 'Option 2'],
+  checkbox: ['Yes']
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function humanizeId(id: string): string {
+  const words = id.replace(/[_-]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').trim();
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : '';
+}
+
+function coerceType(raw: unknown): FormField['type'] | null {
+  if (typeof raw !== 'string') return null;
+  const key = raw.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if ((FIELD_TYPES as string[]).includes(key)) return key as FormField['type'];
+  return TYPE_ALIASES[key] || null;
+}
+
+function coerceRequired(raw: unknown): boolean {
+  if (typeof raw === 'string') return raw.trim().toLowerCase() === 'true';
+  return raw === true;
+}
+
+function repairOptions(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  const options = raw
+    .map((option) => {
+      if (typeof option === 'string' || typeof option === 'number') return String(option).trim();
+      // Tolerate { label, value } objects
+      if (isRecord(option)) return String(option.label ?? option.value ?? '').trim();
+      return '';
+    })
+    .filter(Boolean);
+  return [...new Set(options)];
+}
+
+// Keeps the scale settings that are usable, clamping the range into what the type supports
+function repairScale(raw: unknown, field: FormField, fixes: SchemaFix[]): ScaleSettings | undefined {
+  if (!isRecord(raw)) return undefined;
+
+  const range = getScaleRange({ type: field.type, scale: raw as ScaleSettings });
+  const scale: ScaleSettings = {};
+  if (raw.min !== undefined) scale.min = range.min;
+  if (raw.max !== undefined) scale.max = range.max;
+  if ((raw.min !== undefined && raw.min !== range.min) || (raw.max !== undefined && raw.max !== range.max)) {
+    fixes.push({ fieldId: field.id, message: `Adjusted the range of "${field.label}" to ${range.min}-${range.max}` });
+  }
+  if (typeof raw.minLabel === 'string' && raw.minLabel.trim()) scale.minLabel = raw.minLabel.trim();
+  if (typeof raw.maxLabel === 'string' && raw.maxLabel.trim()) scale.maxLabel = raw.maxLabel.trim();
+
+  return Object.keys(scale).length > 0 ? scale : undefined;
+}
+
+// Accepts rows as strings or { id, label } objects, slugging and de-duplicating their ids
+function repairMatrix(raw: unknown, field: FormField, fixes: SchemaFix[]): MatrixSettings {
+  const settings = isRecord(raw) ? raw : {};
+  const rowIds: string[] = [];
+
+  const rows: MatrixRow[] = (Array.isArray(settings.rows) ? settings.rows : [])
+    .map((row) => {
+      const label = typeof row === 'string' ? row.trim() : isRecord(row) ? String(row.label ?? row.id ?? '').trim() : '';
+      if (!label) return null;
+      const rawId = isRecord(row) && typeof row.id === 'string' ? row.id : '';
+      const id = rawId && FIELD_ID_PATTERN.test(rawId) && !rowIds.includes(rawId) ? rawId : createUniqueFieldId(label, rowIds);
+      rowIds.push(id);
+      const matrixRow: MatrixRow = { id, label };
+      if (isRecord(row) && typeof row.required === 'boolean') matrixRow.required = row.required;
+      return matrixRow;
+    })
+    .filter((row): row is MatrixRow => row !== null);
+
+  if (rows.length === 0) {
+    rows.push({ id: 'statement_1', label: 'Statement 1' });
+    fixes.push({ fieldId: field.id, message: `Added a placeholder row to "${field.label}"` });
+  }
+
+  let columns = repairOptions(settings.columns);
+  if (columns.length === 0) {
+    // Some models put the columns in `options`
+    columns = field.options?.length ? field.options : DEFAULT_MATRIX_COLUMNS;
+    fixes.push({ fieldId: field.id, message: `Added columns to "${field.label}"` });
+  }
+
+  return { rows, columns, ...(settings.multiple === true ? { multiple: true } : {}) };
+}
+
+// Keeps only well-formed constraints so a bad regex or bound can't block submissions
+function repairValidation(raw: unknown, fieldId: string, fixes: SchemaFix[]): FieldValidation | undefined {
+  if (!isRecord(raw)) return undefined;
+
+  const { min, max, minDate, maxDate, pattern, message } = raw;
+  const validation: FieldValidation = {};
+
+  if (typeof min === 'number' && Number.isFinite(min)) validation.min = min;
+  if (typeof max === 'number' && Number.isFinite(max)) validation.max = max;
+  if (validation.min !== undefined && validation.max !== undefined && validation.min > validation.max) {
+    delete validation.min;
+    delete validation.max;
+    fixes.push({ fieldId, message: `Dropped min/max bounds on "${fieldId}" because min was greater than max` });
+  }
+  if (typeof minDate === 'string' && ISO_DATE.test(minDate)) validation.minDate = minDate;
+  if (typeof maxDate === 'string' && ISO_DATE.test(maxDate)) validation.maxDate = maxDate;
+  if (typeof pattern === 'string' && pattern) {
+    try {
+      new RegExp(pattern);
+      validation.pattern = pattern;
+    } catch {
+      fixes.push({ fieldId, message: `Dropped invalid pattern on "${fieldId}"` });
+    }
+  }
+  if (typeof message === 'string' && message) validation.message = message;
+
+  return Object.keys(validation).length > 0 ? validation : undefined;
+}
+
+// Drops conditions that point at unknown fields or use unsupported operators
+function repairRule(
+  raw: unknown,
+  idMap: Map<string, string>,
+  ownId: string,
+  fixes: SchemaFix[]
+): VisibilityRule | null {
+  if (!isRecord(raw) || !Array.isArray(raw.conditions)) return null;
+
+  const conditions = raw.conditions
+    .map((condition): FieldCondition | VisibilityRule | null => {
+      if (isRecord(condition) && 'conditions' in condition) return repairRule(condition, idMap, ownId, fixes);
+      if (!isRecord(condition)) return null;
+
+      const field = idMap.get(String(condition.field));
+      if (!field || field === ownId) {
+        fixes.push({ fieldId: ownId, message: `Removed a condition on "${ownId}" that referenced unknown field "${condition.field}"` });
+        return null;
+      }
+      if (!CONDITION_OPERATORS.includes(condition.operator as ConditionOperator)) {
+        fixes.push({ fieldId: ownId, message: `Removed a condition on "${ownId}" with unsupported operator "${condition.operator}"` });
+        return null;
+      }
+      const value = condition.value;
+      return {
+        field,
+        operator: condition.operator as ConditionOperator,
+        ...(typeof value === 'string' || typeof value === 'number' ? { value } : {})
+      };
+    })
+    .filter((condition): condition is FieldCondition | VisibilityRule => condition !== null);
+
+  if (conditions.length === 0) return null;
+  return { combinator: raw.combinator === 'or' ? 'or' : 'and', conditions };
+}
+
+// Keeps sections pointing only at real fields, each field in at most one section
+function repairSections(raw: unknown, idMap: Map<string, string>, fixes: SchemaFix[]): FormSection[] | undefined {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw)) {
+    fixes.push({ message: 'Removed sections because they were not a list' });
+    return undefined;
+  }
+
+  const assigned = new Set<string>();
+  const sections = raw
+    .filter(isRecord)
+    .map((section, index) => ({
+      id: typeof section.id === 'string' && section.id ? section.id : `section_${index + 1}`,
+      title: typeof section.title === 'string' && section.title ? section.title : `Part ${index + 1}`,
+      ...(typeof section.description === 'string' && section.description ? { description: section.description } : {}),
+      fields: (Array.isArray(section.fields) ? section.fields : [])
+        .map((id) => idMap.get(String(id)))
+        .filter((id): id is string => {
+          if (!id || assigned.has(id)) return false;
+          assigned.add(id);
+          return true;
+        })
+    }))
+    .filter((section) => section.fields.length > 0);
+
+  if (sections.length < 2) {
+    if (raw.length > 0) fixes.push({ message: 'Removed sections because fewer than two had fields' });
+    return undefined;
+  }
+  return sections;
+}
+
+/**
+ * Repairs one field's id, type, label and type-specific settings. `usedIds`
+ * and `idMap` are updated so later fields and conditions see the final id.
+ */
+function repairField(
+  raw: Record<string, unknown>,
+  index: number,
+  usedIds: string[],
+  idMap: Map<string, string>,
+  fixes: SchemaFix[]
+): FormField {
+  const rawId = typeof raw.id === 'string' || typeof raw.id === 'number' ? String(raw.id).trim() : '';
+  const rawLabel = typeof raw.label === 'string' ? raw.label.trim() : '';
+
+  let id = rawId;
+  if (!id || !FIELD_ID_PATTERN.test(id) || usedIds.includes(id)) {
+    id = createUniqueFieldId(rawId || rawLabel || `field_${index + 1}`, usedIds);
+    fixes.push({
+      fieldId: id,
+      message: rawId
+        ? usedIds.includes(rawId)
+          ? `Renamed duplicate field id "${rawId}" to "${id}"`
+          : `Renamed field id "${rawId}" to "${id}"`
+        : `Added missing field id "${id}"`
+    });
+  }
+  usedIds.push(id);
+  if (rawId && !idMap.has(rawId)) idMap.set(rawId, id);
+  idMap.set(id, id);
+
+  let type = coerceType(raw.type);
+  if (!type || type !== raw.type) {
+    const coerced = type || 'text';
+    fixes.push({ fieldId: id, message: `Changed type of "${id}" from "${String(raw.type ?? 'missing')}" to "${coerced}"` });
+    type = coerced;
+  }
+
+  const label = rawLabel || humanizeId(id);
+  if (!rawLabel) fixes.push({ fieldId: id, message: `Added a label to "${id}"` });
+
+  const field: FormField = { id, type, label, required: coerceRequired(raw.required) };
+  if (typeof raw.placeholder === 'string' && raw.placeholder) field.placeholder = raw.placeholder;
+
+  if (OPTION_FIELD_TYPES.includes(type)) {
+    const options = repairOptions(raw.options);
+    if (options.length === 0) {
+      field.options = DEFAULT_OPTIONS[type];
+      fixes.push({ fieldId: id, message: `Added placeholder options to "${label}"` });
+    } else {
+      field.options = options;
+    }
+  }
+
+  const validation = repairValidation(raw.validation, id, fixes);
+  if (validation) field.validation = validation;
+
+  if (isScaleField(field)) {
+    const scale = repairScale(raw.scale, field, fixes);
+    if (scale) field.scale = scale;
+  }
+
+  if (type === 'matrix') {
+    field.matrix = repairMatrix(raw.matrix, { ...field, options: repairOptions(raw.options) }, fixes);
+  }
+
+  if (type === 'group') {
+    field.group = repairGroup(raw, field, fixes);
+  }
+
+  if (type === 'address' && isRecord(raw.address)) {
+    const address = repairAddress(raw.address);
+    if (address) field.address = address;
+  }
+
+  if (type === 'hidden') {
+    const hidden = repairHidden(raw.hidden);
+    if (hidden) field.hidden = hidden;
+  }
+
+  if (type === 'calculated') {
+    const settings = isRecord(raw.calculation) ? raw.calculation : {};
+    const expression = [settings.expression, raw.expression, raw.formula].find((value) => typeof value === 'string' && value.trim());
+    const decimals = Number(settings.decimals);
+    // References are renamed and checked once every id is known
+    field.calculation = {
+      expression: typeof expression === 'string' ? expression.trim() : '',
+      ...(Number.isInteger(decimals) && decimals >= 0 && decimals <= 6 ? { decimals } : {})
+    };
+  }
+
+  if ((type === 'currency' || type === 'calculated') && raw.currency !== undefined) {
+    const code = typeof raw.currency === 'string' ? raw.currency.trim().toUpperCase() : '';
+    if (isCurrencyCode(code)) field.currency = code;
+    else fixes.push({ fieldId: id, message: `Dropped unknown currency "${String(raw.currency)}" on "${label}"` });
+  }
+
+  return field;
+}
+
+function repairHidden(raw: unknown): HiddenSettings | undefined {
+  if (!isRecord(raw)) return undefined;
+  const hidden: HiddenSettings = {};
+  if (typeof raw.param === 'string' && /^[A-Za-z0-9_.-]+$/.test(raw.param.trim())) hidden.param = raw.param.trim();
+  if (typeof raw.defaultValue === 'string' || typeof raw.defaultValue === 'number') hidden.defaultValue = String(raw.defaultValue);
+  return Object.keys(hidden).length > 0 ? hidden : undefined;
+}
+
+// Renames references to repaired ids; expressions that can't be kept are replaced with 0
+function repairCalculations(fields: FormField[], idMap: Map<string, string>, fixes: SchemaFix[]) {
+  const reset = (field: FormField, reason: string) => {
+    field.calculation = { ...field.calculation, expression: '0' };
+    fixes.push({ fieldId: field.id, message: `Replaced the expression of "${field.label}" with 0 because ${reason}` });
+  };
+
+  for (const field of fields) {
+    const calculation = field.calculation as CalculationSettings | undefined;
+    if (!calculation) continue;
+    if (!calculation.expression) {
+      reset(field, 'it was missing');
+      continue;
+    }
+    try {
+      const renamed = renameExpressionFields(calculation.expression, (id) => idMap.get(id) ?? id);
+      const unknown = getExpressionFields(renamed).filter((id) => !idMap.has(id) || idMap.get(id) === field.id);
+      if (unknown.length > 0) reset(field, `it used unknown fields: ${unknown.join(', ')}`);
+      else calculation.expression = renamed;
+    } catch (error) {
+      reset(field, `it could not be parsed (${error instanceof Error ? error.message : String(error)})`);
+    }
+  }
+
+  const { cycle } = getCalculationOrder(fields);
+  if (cycle) {
+    fields.filter((field) => cycle.includes(field.id)).forEach((field) => reset(field, 'calculations depended on each other'));
+  }
+}
+
+function repairAddress(raw: Record<string, unknown>): AddressSettings | undefined {
+  const address: AddressSettings = {};
+  if (Array.isArray(raw.requiredParts)) {
+    address.requiredParts = ADDRESS_PARTS.filter((part) => (raw.requiredParts as unknown[]).includes(part));
+  }
+  const country = typeof raw.defaultCountry === 'string' ? raw.defaultCountry.trim().toUpperCase() : '';
+  if (COUNTRY_CODE.test(country)) address.defaultCountry = country;
+  return Object.keys(address).length > 0 ? address : undefined;
+}
+
+// Children may be nested under `group.fields` or, as models often write them, directly under `fields`
+function repairGroup(raw: Record<string, unknown>, field: FormField, fixes: SchemaFix[]): GroupSettings {
+  const settings = isRecord(raw.group) ? raw.group : {};
+  const rawChildren = (Array.isArray(settings.fields) ? settings.fields : Array.isArray(raw.fields) ? raw.fields : []).filter(isRecord);
+
+  const childIds: string[] = [];
+  const fields = rawChildren.map((child, index) => {
+    const repaired = repairField(child, index, childIds, new Map(), fixes);
+    if (!GROUP_CHILD_TYPES.includes(repaired.type)) {
+      fixes.push({ fieldId: field.id, message: `Changed "${repaired.label}" in "${field.label}" from ${repaired.type} to text` });
+      const { options: _options, validation: _validation, scale: _scale, matrix: _matrix, group: _group, ...rest } = repaired;
+      return { ...rest, type: 'text' as const };
+    }
+    return repaired;
+  });
+  if (fields.length === 0) {
+    fields.push({ id: 'item', type: 'text', label: 'Item', required: true });
+    fixes.push({ fieldId: field.id, message: `Added a placeholder field to "${field.label}"` });
+  }
+
+  const group: GroupSettings = { fields };
+  const minItems = Number(settings.minItems ?? raw.minItems);
+  const maxItems = Number(settings.maxItems ?? raw.maxItems);
+  if (Number.isInteger(minItems) && minItems >= 0) group.minItems = minItems;
+  if (Number.isInteger(maxItems) && maxItems >= 1) group.maxItems = maxItems;
+  if (group.minItems !== undefined && group.maxItems !== undefined && group.minItems > group.maxItems) {
+    delete group.minItems;
+    fixes.push({ fieldId: field.id, message: `Removed the minimum entries of "${field.label}" because it exceeded the maximum` });
+  }
+  const itemLabel = settings.itemLabel ?? raw.itemLabel;
+  if (typeof itemLabel === 'string' && itemLabel.trim()) group.itemLabel = itemLabel.trim();
+  return group;
+}
+
+/**
+ * Turns loosely shaped model output into a schema that passes
+ * `formSchemaDefinition`: ids are slugged and de-duplicated, unknown types are
+ * coerced, option fields get placeholder options, and dangling references are
+ * dropped. Every change is listed in `fixes`. Throws when there is no fields
+ * array to work with.
+ */
+export function repairFormSchema(input: unknown): SchemaRepairResult {
+  if (!isRecord(input) || !Array.isArray(input.fields)) {
+    throw new Error('Schema must be an object with a fields array');
+  }
+
+  const fixes: SchemaFix[] = [];
+  const title = typeof input.title === 'string' && input.title.trim() ? input.title.trim() : '';
+  if (!title) fixes.push({ message: 'Added a missing form title' });
+
+  const usedIds: string[] = [];
+  // Maps each id as the model wrote it to the repaired id; the first field with an id keeps it
+  const idMap = new Map<string, string>();
+  const rawFields = input.fields.filter(isRecord);
+  if (rawFields.length < input.fields.length) {
+    fixes.push({ message: `Dropped ${input.fields.length - rawFields.length} malformed field entr${input.fields.length - rawFields.length === 1 ? 'y' : 'ies'}` });
+  }
+
+  const fields = rawFields.map((raw, index) => repairField(raw, index, usedIds, idMap, fixes));
+
+  // Conditions and sections are resolved once every id is known
+  rawFields.forEach((raw, index) => {
+    if (raw.visibleWhen === undefined) return;
+    const rule = repairRule(raw.visibleWhen, idMap, fields[index].id, fixes);
+    if (rule) fields[index].visibleWhen = rule;
+  });
+
+  repairCalculations(fields, idMap, fixes);
+
+  const schema: FormSchema = {
+    title: title || 'Untitled form',
+    description: typeof input.description === 'string' ? input.description : '',
+    fields
+  };
+  const sections = repairSections(input.sections, idMap, fixes);
+  if (sections) schema.sections = sections;
+
+  return { schema, fixes };
+}
+
+// Returns the first problem with a schema, or null when it passes the strict definition
+export function findSchemaProblem(schema: unknown): string | null {
+  const result = formSchemaDefinition.safeParse(schema);
+  if (result.success) return null;
+  return result.error.issues[0]?.message || 'Invalid form schema';
+}
+
+/**
+ * Repairs then strictly validates a schema, throwing with the first remaining
+ * problem if the repairs were not enough.
+ */
+export function parseFormSchema(input: unknown): SchemaRepairResult {
+  const { schema, fixes } = repairFormSchema(input);
+  const problem = findSchemaProblem(schema);
+  if (problem) throw new Error(`Invalid form schema: ${problem}`);
+  return { schema, fixes };
+}
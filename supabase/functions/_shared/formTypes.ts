@@ -0,0 +1,173 @@
+// Form schema types shared by the web client and the edge functions.
+// Keep this file free of runtime imports so it loads unchanged under Deno and Vite.
+
+export interface FormSchema {
+  title: string;
+  description: string;
+  fields: FormField[];
+  sections?: FormSection[];
+}
+
+// An ordered page of the form; `fields` lists the ids of the fields it contains
+export interface FormSection {
+  id: string;
+  title: string;
+  description?: string;
+  fields: string[];
+}
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export interface FieldCondition {
+  field: string;
+  operator: ConditionOperator;
+  value?: string | number;
+}
+
+// A rule groups conditions (or nested rules) under a single and/or combinator
+export interface VisibilityRule {
+  combinator: 'and' | 'or';
+  conditions: Array<FieldCondition | VisibilityRule>;
+}
+
+// min/max bound text length, number or currency amount, or checkbox selection count depending on type
+export interface FieldValidation {
+  min?: number;
+  max?: number;
+  minDate?: string;
+  maxDate?: string;
+  pattern?: string;
+  message?: string;
+}
+
+// Range and end labels for rating, scale and nps fields; unset values fall back to per-type defaults
+export interface ScaleSettings {
+  min?: number;
+  max?: number;
+  minLabel?: string;
+  maxLabel?: string;
+}
+
+export interface MatrixRow {
+  id: string;
+  label: string;
+  // Defaults to the field's own `required`
+  required?: boolean;
+}
+
+// A grid of statements (rows) answered on shared columns; `multiple` allows several columns per row
+export interface MatrixSettings {
+  rows: MatrixRow[];
+  columns: string[];
+  multiple?: boolean;
+}
+
+// Child fields the respondent can fill in repeatedly, e.g. one entry per attendee.
+// Responses store an array with one object per entry, keyed by child field id.
+export interface GroupSettings {
+  fields: FormField[];
+  minItems?: number;
+  maxItems?: number;
+  // Names a single entry in the add button and headings, e.g. "Attendee"
+  itemLabel?: string;
+}
+
+export type AddressPart = 'street' | 'city' | 'region' | 'postalCode' | 'country';
+
+// Stored in responses as an object of the parts that were filled in; country is an ISO 3166-1 alpha-2 code
+export type AddressValue = Partial<Record<AddressPart, string>>;
+
+export interface AddressSettings {
+  // Defaults to street, city, postal code and country
+  requiredParts?: AddressPart[];
+  defaultCountry?: string;
+}
+
+// A drawn signature uploaded as an image, with the time the respondent saved it (ISO 8601)
+export interface SignatureValue {
+  url: string;
+  signedAt: string;
+}
+
+// Hidden fields take their value from a URL query parameter, falling back to a default
+export interface HiddenSettings {
+  // Defaults to the field id
+  param?: string;
+  defaultValue?: string;
+}
+
+// See expressions.ts for the syntax; numeric results are rounded to `decimals` (default 2)
+export interface CalculationSettings {
+  expression: string;
+  decimals?: number;
+}
+
+export interface FormField {
+  id: string;
+  type:
+    | 'text'
+    | 'email'
+    | 'number'
+    | 'textarea'
+    | 'select'
+    | 'checkbox'
+    | 'radio'
+    | 'date'
+    | 'file'
+    | 'rating'
+    | 'scale'
+    | 'nps'
+    | 'matrix'
+    | 'group'
+    | 'phone'
+    | 'url'
+    | 'time'
+    | 'datetime-local'
+    | 'currency'
+    | 'address'
+    | 'signature'
+    | 'hidden'
+    | 'calculated';
+  label: string;
+  placeholder?: string;
+  required: boolean;
+  options?: string[];
+  validation?: FieldValidation;
+  scale?: ScaleSettings;
+  matrix?: MatrixSettings;
+  group?: GroupSettings;
+  // ISO 4217 code for currency fields and calculated amounts; defaults to USD
+  currency?: string;
+  address?: AddressSettings;
+  hidden?: HiddenSettings;
+  calculation?: CalculationSettings;
+  visibleWhen?: VisibilityRule;
+}
+
+// Prefilling answers from link query parameters (?<field id>=value) is opt-in per field
+export interface PrefillSettings {
+  fields: string[];
+  // Prefilled fields can't be changed by the respondent
+  lock?: boolean;
+}
+
+// Answers always autosave in the respondent's browser; `resumeLinks` also offers server drafts
+export interface DraftSettings {
+  resumeLinks?: boolean;
+  // Days until a draft is discarded, counted from its last save; defaults to 7
+  expiryDays?: number;
+}
+
+// Per-form options stored beside the schema; changing them doesn't create a new version
+export interface FormSettings {
+  prefill?: PrefillSettings;
+  drafts?: DraftSettings;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { buildZodSchema } from './formValidation.ts';
+import type { FormField } from './formTypes.ts';
+
+const fields: FormField[] = [
+  { id: 'name', type: 'text', label: 'Name', required: true },
+  { id: 'email', type: 'email', label: 'Email', required: false },
+  { id: 'phone', type: 'phone', label: 'Phone', required: false },
+  { id: 'start', type: 'date', label: 'Start date', required: false },
+  { id: 'size', type: 'select', label: 'Size', required: false, options: ['S', 'M', 'L'] }
+];
+
+describe('buildZodSchema', () => {
+  it('accepts a submission that leaves out optional fields', () => {
+    const result = buildZodSchema(fields).safeParse({ name: 'Ada' });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('reports a left-out required field as required', () => {
+    const result = buildZodSchema(fields).safeParse({ email: 'ada@example.com' });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => [issue.path[0], issue.message])).toEqual([['name', 'Name is required']]);
+  });
+
+  it('requires a checked option and an uploaded file when those fields are required', () => {
+    const schema = buildZodSchema([
+      { id: 'topics', type: 'checkbox', label: 'Topics', required: true, options: ['News', 'Offers'] },
+      { id: 'photo', type: 'file', label: 'Photo', required: true }
+    ]);
+
+    const empty = schema.safeParse({ topics: [], photo: '' });
+    expect(empty.error?.issues.map((issue) => issue.message)).toEqual(['Topics is required', 'Photo is required']);
+    expect(schema.safeParse({ topics: ['News'], photo: 'https://res.cloudinary.com/demo/image/upload/photo.jpg' }).success).toBe(true);
+  });
+
+  it('only accepts uploaded file URLs as file answers', () => {
+    const schema = buildZodSchema([{ id: 'photo', type: 'file', label: 'Photo', required: false }]);
+
+    expect(schema.safeParse({ photo: 'not a file' }).success).toBe(false);
+    expect(schema.safeParse({ photo: 'javascript:alert(1)' }).success).toBe(false);
+    expect(schema.safeParse({}).success).toBe(true);
+  });
+});
@@ -0,0 +1,508 @@
+import { z } from 'zod';
+import type { FormField } from './formTypes.ts';
+import { getScaleRange } from './fieldScales.ts';
+import {
+  DATETIME_LOCAL_VALUE,
+  E164_PHONE,
+  TIME_VALUE,
+  formatCurrency,
+  getCurrencyCode,
+  getCurrencyDigits,
+  isHttpUrl,
+  normalizePhone
+} from './fieldFormats.ts';
+import { ADDRESS_PART_LABELS, findAddressCountry, getRequiredAddressParts, readAddress } from './addressFormats.ts';
+
+const TEXT_TYPES: FormField['type'][] = ['text', 'email', 'textarea'];
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// Keys a client leaves out of the payload count as unanswered text
+function toText(value: unknown): unknown {
+  return value === undefined || value === null ? '' : value;
+}
+
+function compilePattern(pattern: string | undefined): RegExp | null {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern);
+  } catch {
+    // A malformed pattern from the generator should not make the field unsubmittable
+    return null;
+  }
+}
+
+function formatDate(value: string): string {
+  const date = new Date(`${value}T00:00:00`);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString();
+}
+
+function buildStringSchema(field: FormField): z.ZodTypeAny {
+  const { min, max, pattern, message } = field.validation || {};
+  const regex = compilePattern(pattern);
+  const isText = TEXT_TYPES.includes(field.type);
+
+  return z.preprocess(toText, z.string().superRefine((value, ctx) => {
+    if (value === '') return;
+
+    if (field.type === 'email' && !z.string().email().safeParse(value).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid email address' });
+      return;
+    }
+    if ((field.type === 'select' || field.type === 'radio') && field.options?.length && !field.options.includes(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${field.label} must be one of the listed options` });
+      return;
+    }
+    if (isText && min !== undefined && value.length < min) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: message || `${field.label} must be at least ${min} characters`
+      });
+    }
+    if (isText && max !== undefined && value.length > max) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: message || `${field.label} must be at most ${max} characters`
+      });
+    }
+    if (isText && regex && !regex.test(value)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: message || `${field.label} is not in the expected format`
+      });
+    }
+  }));
+}
+
+function buildNumberSchema(field: FormField): z.ZodTypeAny {
+  const { min, max, message } = field.validation || {};
+
+  return z.preprocess(
+    (value) => (isBlank(value) ? undefined : Number(value)),
+    z.number({ invalid_type_error: `${field.label} must be a number` })
+      .optional()
+      .superRefine((value, ctx) => {
+        if (value === undefined) return;
+        if (min !== undefined && value < min) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: message || `${field.label} must be at least ${min}` });
+        }
+        if (max !== undefined && value > max) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: message || `${field.label} must be at most ${max}` });
+        }
+      })
+  );
+}
+
+// Currency answers are amounts with no more decimals than the currency's minor unit
+function buildCurrencySchema(field: FormField): z.ZodTypeAny {
+  const { min, max, message } = field.validation || {};
+  const code = getCurrencyCode(field);
+  const digits = getCurrencyDigits(code);
+
+  return z.preprocess(
+    (value) => (isBlank(value) ? undefined : Number(value)),
+    z.number({ invalid_type_error: `${field.label} must be an amount` })
+      .optional()
+      .superRefine((value, ctx) => {
+        if (value === undefined) return;
+        const minorUnits = value * 10 ** digits;
+        if (!Number.isFinite(value) || Math.abs(minorUnits - Math.round(minorUnits)) > 1e-6) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: digits === 0 ? `${field.label} must be a whole amount` : `${field.label} can have at most ${digits} decimal places`
+          });
+          return;
+        }
+        if (min !== undefined && value < min) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: message || `${field.label} must be at least ${formatCurrency(min, code)}` });
+        }
+        if (max !== undefined && value > max) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: message || `${field.label} must be at most ${formatCurrency(max, code)}` });
+        }
+      })
+  );
+}
+
+interface StringFormat {
+  normalize?: (value: string) => string;
+  isValid: (value: string) => boolean;
+  message: string;
+}
+
+// Phone, url, time and datetime-local answers are strings in a fixed format
+const STRING_FORMATS: Partial<Record<FormField['type'], StringFormat>> = {
+  phone: {
+    normalize: normalizePhone,
+    isValid: (value) => E164_PHONE.test(value),
+    message: 'Enter a phone number with its country code, e.g. +44 20 7946 0958'
+  },
+  url: {
+    normalize: (value) => value.trim(),
+    isValid: isHttpUrl,
+    message: 'Enter a full web address starting with http:// or https://'
+  },
+  time: {
+    isValid: (value) => TIME_VALUE.test(value),
+    message: 'Enter a valid time'
+  },
+  'datetime-local': {
+    isValid: (value) => DATETIME_LOCAL_VALUE.test(value) && !Number.isNaN(new Date(value).getTime()),
+    message: 'Enter a valid date and time'
+  }
+};
+
+function buildFormattedSchema(field: FormField): z.ZodTypeAny {
+  const format = STRING_FORMATS[field.type];
+
+  return z.preprocess(
+    (value) => (typeof value === 'string' && format?.normalize ? format.normalize(value) : toText(value)),
+    z.string().superRefine((value, ctx) => {
+      if (value === '' || !format) return;
+      if (!format.isValid(value)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: field.validation?.message || format.message });
+      }
+    })
+  );
+}
+
+// Rating, scale and nps answers are whole numbers within the field's range
+function buildScaleSchema(field: FormField): z.ZodTypeAny {
+  const { min, max } = getScaleRange(field);
+
+  return z.preprocess(
+    (value) => (isBlank(value) ? undefined : Number(value)),
+    z.number({ invalid_type_error: `${field.label} must be a number` })
+      .optional()
+      .superRefine((value, ctx) => {
+        if (value === undefined) return;
+        if (!Number.isInteger(value) || value < min || value > max) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${field.label} must be a whole number from ${min} to ${max}` });
+        }
+      })
+  );
+}
+
+export function isMatrixRowRequired(field: FormField, row: { required?: boolean }): boolean {
+  return row.required ?? field.required;
+}
+
+// Matrix answers map row ids to a column (or columns when `multiple`); unknown rows are dropped
+function buildMatrixSchema(field: FormField): z.ZodTypeAny {
+  const rows = field.matrix?.rows || [];
+  const columns = field.matrix?.columns || [];
+  const multiple = !!field.matrix?.multiple;
+
+  return z.preprocess(
+    (value) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return {};
+      const answers = value as Record<string, unknown>;
+      const isAnswered = (answer: unknown) => !isBlank(answer) && !(Array.isArray(answer) && answer.length === 0);
+      return Object.fromEntries(
+        rows.filter((row) => isAnswered(answers[row.id])).map((row) => [row.id, answers[row.id]])
+      );
+    },
+    z.record(z.union([z.string(), z.array(z.string())])).superRefine((answers, ctx) => {
+      for (const [rowId, answer] of Object.entries(answers)) {
+        const label = rows.find((row) => row.id === rowId)?.label || rowId;
+        const picked = Array.isArray(answer) ? answer : [answer];
+        if (!multiple && Array.isArray(answer)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Choose one answer for "${label}"` });
+          continue;
+        }
+        if (picked.some((column) => !columns.includes(column))) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${label}" has an answer that is not listed` });
+        }
+      }
+
+      const missing = rows.filter((row) => isMatrixRowRequired(field, row) && !(row.id in answers));
+      if (missing.length > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: Object.keys(answers).length === 0
+            ? `${field.label} is required`
+            : `Answer every required row: ${missing.map((row) => row.label).join(', ')}`
+        });
+      }
+    })
+  );
+}
+
+// The value an unanswered field holds in the renderer and in a fresh group entry
+export function getEmptyValue(field: FormField): unknown {
+  switch (field.type) {
+    case 'checkbox':
+    case 'group':
+      return [];
+    case 'matrix':
+    case 'address':
+      return {};
+    default:
+      return '';
+  }
+}
+
+export function getEmptyGroupEntry(field: FormField): Record<string, unknown> {
+  return Object.fromEntries((field.group?.fields || []).map((child) => [child.id, getEmptyValue(child)]));
+}
+
+// True for blank values and for arrays or objects that hold nothing but blanks
+export function isEmptyAnswer(value: unknown): boolean {
+  if (Array.isArray(value)) return value.every(isEmptyAnswer);
+  if (typeof value === 'object' && value !== null) return Object.values(value).every(isEmptyAnswer);
+  return isBlank(value);
+}
+
+function countEntries(count: number): string {
+  return `${count} ${count === 1 ? 'entry' : 'entries'}`;
+}
+
+// Required groups need at least one entry unless they set their own minimum
+export function getGroupLimits(field: FormField): { min: number; max: number | undefined } {
+  const { minItems, maxItems } = field.group || {};
+  return { min: minItems ?? (field.required ? 1 : 0), max: maxItems };
+}
+
+function buildGroupSchema(field: FormField): z.ZodTypeAny {
+  const { min, max } = getGroupLimits(field);
+  const children = field.group?.fields || [];
+
+  // Entries left completely empty are dropped rather than failing their required children
+  return z.preprocess(
+    (value) => (Array.isArray(value) ? value : [])
+      .filter((entry) => typeof entry === 'object' && entry !== null && !isEmptyAnswer(entry))
+      .map((entry) => Object.fromEntries(children.map((child) => [child.id, entry[child.id] ?? getEmptyValue(child)]))),
+    z.array(buildZodSchema(children))
+      .min(min, { message: min === 1 ? `${field.label} is required` : `Add at least ${countEntries(min)}` })
+      .max(max ?? Number.MAX_SAFE_INTEGER, { message: `Add no more than ${countEntries(max ?? 0)}` })
+  );
+}
+
+/**
+ * Addresses are stored as an object of trimmed parts. An optional address may
+ * be left empty, but once any part is filled in the required parts must be too.
+ * Postal codes are checked against the country's format when one is known.
+ */
+function buildAddressSchema(field: FormField): z.ZodTypeAny {
+  const requiredParts = getRequiredAddressParts(field);
+
+  return z.preprocess(
+    (value) => {
+      const address = readAddress(value);
+      if (address.country) address.country = address.country.toUpperCase();
+      if (address.postalCode) address.postalCode = address.postalCode.toUpperCase();
+      return address;
+    },
+    z.record(z.string()).superRefine((address, ctx) => {
+      if (Object.keys(address).length === 0) {
+        if (field.required) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${field.label} is required` });
+        return;
+      }
+
+      const missing = requiredParts.filter((part) => !address[part]);
+      if (missing.length > 0) {
+        const country = findAddressCountry(address.country);
+        const labels = missing.map((part) =>
+          part === 'region' && country?.regionLabel ? country.regionLabel
+            : part === 'postalCode' && country?.postalLabel ? country.postalLabel
+            : ADDRESS_PART_LABELS[part]
+        );
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Add the ${labels.join(', ').toLowerCase()} for ${field.label}` });
+        return;
+      }
+
+      if (address.country && !/^[A-Z]{2}$/.test(address.country)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Choose a country from the list' });
+        return;
+      }
+      const country = findAddressCountry(address.country);
+      if (address.postalCode && country?.postalPattern && !country.postalPattern.test(address.postalCode)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Enter a valid ${country.postalLabel || 'postal code'} for ${country.name}`
+        });
+      }
+    })
+  );
+}
+
+// Signatures are uploaded by the pad before submit, so only a hosted image and timestamp are accepted
+function buildSignatureSchema(field: FormField): z.ZodTypeAny {
+  return z.union([
+    z.literal(''),
+    z.object({
+      url: z.string().refine(isHttpUrl),
+      signedAt: z.string().datetime()
+    }).strip()
+  ], { errorMap: () => ({ message: `${field.label} must be signed on the pad` }) }).optional();
+}
+
+function buildDateSchema(field: FormField): z.ZodTypeAny {
+  const { minDate, maxDate, message } = field.validation || {};
+
+  // Date inputs yield YYYY-MM-DD, which compares correctly as a plain string
+  return z.preprocess(toText, z.string().superRefine((value, ctx) => {
+    if (value === '') return;
+    if (minDate && value < minDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: message || `${field.label} must be on or after ${formatDate(minDate)}` });
+    }
+    if (maxDate && value > maxDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: message || `${field.label} must be on or before ${formatDate(maxDate)}` });
+    }
+  }));
+}
+
+function buildCheckboxSchema(field: FormField): z.ZodTypeAny {
+  const { min, max, message } = field.validation || {};
+
+  return z.array(z.string()).optional().superRefine((value, ctx) => {
+    const count = value?.length || 0;
+    if (count === 0) {
+      if (field.required) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${field.label} is required` });
+      return;
+    }
+    if (field.options?.length && value.some(option => !field.options.includes(option))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${field.label} contains an option that is not listed` });
+      return;
+    }
+    if (min !== undefined && count < min) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: message || `Select at least ${min} options` });
+    }
+    if (max !== undefined && count > max) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: message || `Select at most ${max} options` });
+    }
+  });
+}
+
+// Files are uploaded before submit, so only the hosted URL is accepted
+function buildFileSchema(field: FormField): z.ZodTypeAny {
+  return z.preprocess(
+    toText,
+    z.string().refine((value) => value === '' || isHttpUrl(value), { message: `${field.label} must be an uploaded file` })
+  );
+}
+
+export function buildFieldSchema(field: FormField): z.ZodTypeAny {
+  let fieldSchema: z.ZodTypeAny;
+
+  switch (field.type) {
+    case 'number':
+      fieldSchema = buildNumberSchema(field);
+      break;
+    case 'date':
+      fieldSchema = buildDateSchema(field);
+      break;
+    case 'rating':
+    case 'scale':
+    case 'nps':
+      fieldSchema = buildScaleSchema(field);
+      break;
+    case 'matrix':
+      fieldSchema = buildMatrixSchema(field);
+      break;
+    case 'group':
+      fieldSchema = buildGroupSchema(field);
+      break;
+    case 'currency':
+      fieldSchema = buildCurrencySchema(field);
+      break;
+    case 'address':
+      fieldSchema = buildAddressSchema(field);
+      break;
+    case 'signature':
+      fieldSchema = buildSignatureSchema(field);
+      break;
+    case 'hidden':
+      // Comes from the URL, so it is only bounded, never rejected for content
+      fieldSchema = z.preprocess(
+        (value) => (typeof value === 'number' || typeof value === 'boolean' ? String(value) : value),
+        z.string().max(1000).optional()
+      );
+      break;
+    case 'calculated':
+      // Whatever the client sent is replaced by applyCalculations before storing
+      fieldSchema = z.unknown();
+      break;
+    case 'phone':
+    case 'url':
+    case 'time':
+    case 'datetime-local':
+      fieldSchema = buildFormattedSchema(field);
+      break;
+    case 'checkbox':
+      fieldSchema = buildCheckboxSchema(field);
+      break;
+    case 'file':
+      fieldSchema = buildFileSchema(field);
+      break;
+    default:
+      fieldSchema = buildStringSchema(field);
+  }
+
+  // Checkbox, matrix, group and address fields check required options, rows, entries and parts themselves
+  if (field.required && !['checkbox', 'matrix', 'group', 'address', 'hidden', 'calculated'].includes(field.type)) {
+    fieldSchema = fieldSchema.refine(val => !isBlank(val), {
+      message: `${field.label} is required`
+    });
+  }
+
+  return fieldSchema;
+}
+
+export function buildZodSchema(fields: FormField[]) {
+  const schemaObj: Record<string, z.ZodTypeAny> = {};
+
+  fields.forEach(field => {
+    schemaObj[field.id] = buildFieldSchema(field);
+  });
+
+  return z.object(schemaObj);
+}
+
+// Short human-readable summary of a field's constraints, shown under the input
+export function getValidationHint(field: FormField): string | null {
+  const { min, max, minDate, maxDate, pattern, message } = field.validation || {};
+
+  switch (field.type) {
+    case 'text':
+    case 'email':
+    case 'textarea':
+      if (min !== undefined && max !== undefined) return `Between ${min} and ${max} characters`;
+      if (min !== undefined) return `At least ${min} characters`;
+      if (max !== undefined) return `Up to ${max} characters`;
+      if (pattern && message) return message;
+      return null;
+    case 'currency': {
+      const code = getCurrencyCode(field);
+      if (min !== undefined && max !== undefined) return `Between ${formatCurrency(min, code)} and ${formatCurrency(max, code)}`;
+      if (min !== undefined) return `Minimum ${formatCurrency(min, code)}`;
+      if (max !== undefined) return `Maximum ${formatCurrency(max, code)}`;
+      return null;
+    }
+    case 'number':
+      if (min !== undefined && max !== undefined) return `Between ${min} and ${max}`;
+      if (min !== undefined) return `Minimum ${min}`;
+      if (max !== undefined) return `Maximum ${max}`;
+      return null;
+    case 'date':
+      if (minDate && maxDate) return `Between ${formatDate(minDate)} and ${formatDate(maxDate)}`;
+      if (minDate) return `On or after ${formatDate(minDate)}`;
+      if (maxDate) return `On or before ${formatDate(maxDate)}`;
+      return null;
+    case 'checkbox':
+      if (min !== undefined && max !== undefined) return `Select ${min} to ${max} options`;
+      if (min !== undefined) return `Select at least ${min}`;
+      if (max !== undefined) return `Select up to ${max}`;
+      return null;
+    case 'group': {
+      const limits = getGroupLimits(field);
+      if (limits.min > 1 && limits.max !== undefined) return `Add ${limits.min} to ${countEntries(limits.max)}`;
+      if (limits.min > 1) return `Add at least ${countEntries(limits.min)}`;
+      if (limits.max !== undefined) return `Add up to ${countEntries(limits.max)}`;
+      return null;
+    }
+    default:
+      return null;
+  }
+}
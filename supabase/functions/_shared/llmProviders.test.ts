@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { parseJSONSafe } from './llmProviders.ts';
+
+describe('parseJSONSafe', () => {
+  it('parses JSON inside a ```json fence', () => {
+    const output = 'Here is the form:\n```json\n{ "title": "Contact", "fields": [] }\n```\nEnjoy!';
+    expect(parseJSONSafe(output)).toEqual({ title: 'Contact', fields: [] });
+  });
+
+  it('repairs trailing commas', () => {
+    const output = '{ "title": "Contact", "fields": [{ "id": "name", }, ], }';
+    expect(parseJSONSafe(output)).toEqual({ title: 'Contact', fields: [{ id: 'name' }] });
+  });
+
+  it('returns null for plain text without JSON', () => {
+    expect(parseJSONSafe('Sorry, I cannot help with that.')).toBeNull();
+  });
+});
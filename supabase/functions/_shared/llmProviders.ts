@@ -0,0 +1,385 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  maxTokens?: number;
+  // Ask the model for a bare JSON object where the provider supports it
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: CompletionRequest): Promise<string>;
+  // Yields the reply as text deltas; providers without it only support complete()
+  stream?(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export type LLMProviderName = 'lovable' | 'openai' | 'gemini' | 'ollama' | 'mock';
+
+type EnvReader = (key: string) => string | undefined;
+
+async function throwForStatus(provider: string, response: Response): Promise<never> {
+  const errorText = await response.text();
+  console.error(`${provider} error:`, response.status, errorText);
+
+  if (response.status === 429) {
+    throw new Error('Rate limit exceeded. Please try again later.');
+  }
+  if (response.status === 402) {
+    throw new Error('AI credits exhausted. Please add funds to continue.');
+  }
+  throw new Error(`AI service error: ${response.status}`);
+}
+
+function extractJSON(text: string): string {
+  const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (jsonMatch) return jsonMatch[1].trim();
+  const objectMatch = text.match(/\{[\s\S]*\}/);
+  if (objectMatch) return objectMatch[0];
+  return text.trim();
+}
+
+// Pulls a JSON object out of model output, tolerating code fences and trailing commas
+export function parseJSONSafe<T = unknown>(text: string): T | null {
+  const jsonString = extractJSON(text);
+  try {
+    return JSON.parse(jsonString);
+  } catch (e) {
+    try {
+      const cleaned = jsonString
+        .replace(/,\s*}/g, '}')
+        .replace(/,\s*]/g, ']')
+        .replace(/[\x00-\x1F\x7F]/g, '');
+      return JSON.parse(cleaned);
+    } catch {
+      return null;
+    }
+  }
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) yield line.replace(/\r$/, '');
+  }
+  if (buffer) yield buffer;
+}
+
+// Yields the payload of each `data:` line of a server-sent event stream
+async function* readEventData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  for await (const line of readLines(body)) {
+    if (!line.startsWith('data:')) continue;
+    const data = line.slice(5).trim();
+    if (data && data !== '[DONE]') yield data;
+  }
+}
+
+export function createOpenAICompatibleProvider(options: {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  // Not every compatible gateway accepts response_format, so it is opt-in
+  jsonMode?: boolean;
+}): LLMProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  const request = async ({ messages, maxTokens, json, signal }: CompletionRequest, stream: boolean) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${options.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: options.model,
+        messages,
+        max_tokens: maxTokens,
+        ...(stream ? { stream: true } : {}),
+        ...(json && options.jsonMode ? { response_format: { type: 'json_object' } } : {})
+      }),
+      signal
+    });
+
+    if (!response.ok) await throwForStatus(options.name, response);
+    return response;
+  };
+
+  return {
+    name: options.name,
+    async complete(completion) {
+      const response = await request(completion, false);
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) throw new Error('No response from AI');
+      return content;
+    },
+    async *stream(completion) {
+      const response = await request(completion, true);
+      if (!response.body) throw new Error('No response from AI');
+      for await (const data of readEventData(response.body)) {
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  };
+}
+
+export function createGeminiProvider(options: { apiKey: string; model: string }): LLMProvider {
+  const request = async ({ messages, maxTokens, json, signal }: CompletionRequest, stream: boolean) => {
+    const system = messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n');
+    const contents = messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+    const method = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${options.model}:${method}key=${options.apiKey}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+          contents,
+          generationConfig: {
+            maxOutputTokens: maxTokens,
+            ...(json ? { responseMimeType: 'application/json' } : {})
+          }
+        }),
+        signal
+      }
+    );
+
+    if (!response.ok) await throwForStatus('gemini', response);
+    return response;
+  };
+
+  const textOf = (data: { candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }> }): string =>
+    data.candidates?.[0]?.content?.parts?.map((part) => part.text || '').join('') || '';
+
+  return {
+    name: 'gemini',
+    async complete(completion) {
+      const response = await request(completion, false);
+      const content = textOf(await response.json());
+      if (!content) throw new Error('No response from AI');
+      return content;
+    },
+    async *stream(completion) {
+      const response = await request(completion, true);
+      if (!response.body) throw new Error('No response from AI');
+      for await (const data of readEventData(response.body)) {
+        const delta = textOf(JSON.parse(data));
+        if (delta) yield delta;
+      }
+    }
+  };
+}
+
+export function createOllamaProvider(options: { baseUrl: string; model: string }): LLMProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  const request = async ({ messages, maxTokens, json, signal }: CompletionRequest, stream: boolean) => {
+    const response = await fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: options.model,
+        messages,
+        stream,
+        ...(json ? { format: 'json' } : {}),
+        ...(maxTokens ? { options: { num_predict: maxTokens } } : {})
+      }),
+      signal
+    });
+
+    if (!response.ok) await throwForStatus('ollama', response);
+    return response;
+  };
+
+  return {
+    name: 'ollama',
+    async complete(completion) {
+      const response = await request(completion, false);
+      const data = await response.json();
+      const content = data.message?.content;
+      if (!content) throw new Error('No response from AI');
+      return content;
+    },
+    // Ollama streams newline-delimited JSON rather than server-sent events
+    async *stream(completion) {
+      const response = await request(completion, true);
+      if (!response.body) throw new Error('No response from AI');
+      for await (const line of readLines(response.body)) {
+        if (!line.trim()) continue;
+        const delta = JSON.parse(line).message?.content;
+        if (delta) yield delta;
+      }
+    }
+  };
+}
+
+export interface MockFixture {
+  // Matched against the last user message; the first hit wins
+  match: RegExp;
+  response: string;
+}
+
+const DEFAULT_MOCK_FIXTURES: MockFixture[] = [
+  {
+    // summarize-responses; checked first since response digests mention feedback and ratings too
+    match: /^Form responses to summarize/,
+    response: JSON.stringify({
+      summary: 'Respondents were broadly satisfied, with most answers rating the experience positively (mock provider).',
+      keyFindings: ['Most ratings are in the upper half of the scale.'],
+      sentiment: { overall: 'positive', explanation: 'Positive answers outnumber negative ones.' },
+      outliers: []
+    })
+  },
+  {
+    match: /feedback|review|rating/i,
+    response: JSON.stringify({
+      title: 'Customer Feedback',
+      description: 'Tell us about your experience.',
+      fields: [
+        { id: 'name', type: 'text', label: 'Name', required: false },
+        { id: 'satisfaction', type: 'rating', label: 'How satisfied are you?', required: true },
+        { id: 'recommend', type: 'nps', label: 'How likely are you to recommend us to a friend?', required: true },
+        { id: 'comments', type: 'textarea', label: 'Comments', required: false, validation: { max: 1000 } },
+        { id: 'contact_ok', type: 'checkbox', label: 'Can we contact you?', required: false, options: ['Yes, by email'] },
+        {
+          id: 'email',
+          type: 'email',
+          label: 'Email',
+          required: true,
+          visibleWhen: { combinator: 'and', conditions: [{ field: 'contact_ok', operator: 'equals', value: 'Yes, by email' }] }
+        }
+      ]
+    })
+  },
+  {
+    match: /event|registration|register/i,
+    response: JSON.stringify({
+      title: 'Event Registration',
+      description: 'Reserve your place at the event.',
+      fields: [
+        { id: 'full_name', type: 'text', label: 'Full Name', required: true },
+        { id: 'email', type: 'email', label: 'Email', required: true },
+        { id: 'guests', type: 'number', label: 'Number of Guests', required: true, validation: { min: 0, max: 5 } },
+        { id: 'dietary', type: 'select', label: 'Dietary Preference', required: false, options: ['None', 'Vegetarian', 'Vegan', 'Gluten-free'] }
+      ]
+    })
+  }
+];
+
+const DEFAULT_MOCK_RESPONSE = JSON.stringify({
+  title: 'Contact Form',
+  description: 'Send us a message.',
+  fields: [
+    { id: 'name', type: 'text', label: 'Name', required: true },
+    { id: 'email', type: 'email', label: 'Email', required: true },
+    { id: 'message', type: 'textarea', label: 'Message', required: true, validation: { min: 10 } }
+  ]
+});
+
+/**
+ * Offline provider with canned answers. A response queue is returned in order
+ * (the last entry repeats), which makes retry paths reproducible; without one,
+ * the last user message is matched against the fixtures. Refinement requests
+ * echo the current schema back unchanged.
+ */
+export function createMockProvider(options: { responses?: string[]; fixtures?: MockFixture[] } = {}): LLMProvider {
+  const queue = [...(options.responses || [])];
+  const fixtures = options.fixtures || DEFAULT_MOCK_FIXTURES;
+
+  const respond = (messages: ChatMessage[]): string => {
+    if (queue.length > 0) {
+      return queue.length > 1 ? queue.shift()! : queue[0];
+    }
+
+    const prompt = [...messages].reverse().find((m) => m.role === 'user')?.content || '';
+    const current = prompt.match(/Current schema:\n(.*)\n/);
+    if (current) {
+      return JSON.stringify({ summary: 'No changes (mock provider).', schema: JSON.parse(current[1]) });
+    }
+
+    const fixture = fixtures.find((f) => f.match.test(prompt));
+    return fixture ? fixture.response : DEFAULT_MOCK_RESPONSE;
+  };
+
+  return {
+    name: 'mock',
+    complete({ messages }) {
+      return Promise.resolve(respond(messages));
+    },
+    // Fixed-size chunks keep streamed output reproducible
+    async *stream({ messages, signal }) {
+      const response = respond(messages);
+      for (let i = 0; i < response.length; i += 24) {
+        if (signal?.aborted) return;
+        yield response.slice(i, i + 24);
+      }
+    }
+  };
+}
+
+/**
+ * Picks the provider from LLM_PROVIDER, defaulting to the Lovable gateway.
+ * LLM_MODEL, LLM_BASE_URL and LLM_API_KEY override each provider's defaults.
+ * Throws when the selected provider is missing its credentials.
+ */
+export function createProviderFromEnv(env: EnvReader = (key) => Deno.env.get(key)): LLMProvider {
+  const name = (env('LLM_PROVIDER') || 'lovable').toLowerCase() as LLMProviderName;
+  const model = env('LLM_MODEL');
+  const baseUrl = env('LLM_BASE_URL');
+
+  switch (name) {
+    case 'lovable': {
+      const apiKey = env('LOVABLE_API_KEY');
+      if (!apiKey) throw new Error('AI service not configured. LOVABLE_API_KEY is missing.');
+      return createOpenAICompatibleProvider({
+        name: 'lovable',
+        baseUrl: baseUrl || 'https://ai.gateway.lovable.dev/v1',
+        apiKey,
+        model: model || 'google/gemini-2.5-flash'
+      });
+    }
+    case 'openai': {
+      const apiKey = env('LLM_API_KEY') || env('OPENAI_API_KEY');
+      if (!apiKey) throw new Error('AI service not configured. LLM_API_KEY is missing.');
+      return createOpenAICompatibleProvider({
+        name: 'openai',
+        baseUrl: baseUrl || 'https://api.openai.com/v1',
+        apiKey,
+        model: model || 'gpt-4o-mini',
+        jsonMode: true
+      });
+    }
+    case 'gemini': {
+      const apiKey = env('LLM_API_KEY') || env('GEMINI_API_KEY');
+      if (!apiKey) throw new Error('AI service not configured. LLM_API_KEY is missing.');
+      return createGeminiProvider({ apiKey, model: model || 'gemini-2.5-flash' });
+    }
+    case 'ollama':
+      return createOllamaProvider({
+        baseUrl: baseUrl || 'http://localhost:11434',
+        model: model || 'llama3.1'
+      });
+    case 'mock': {
+      const responses = env('LLM_MOCK_RESPONSES');
+      return createMockProvider({ responses: responses ? JSON.parse(responses) : undefined });
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Use lovable, openai, gemini, ollama or mock.`);
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { applySchemaChanges, diffSchemas } from './schemaDiff.ts';
+import type { FormField, FormSchema } from './formTypes.ts';
+
+const base: FormSchema = {
+  title: 'Order',
+  description: '',
+  fields: [
+    { id: 'quantity', type: 'number', label: 'Quantity', required: true },
+    { id: 'total', type: 'calculated', label: 'Total', required: false, calculation: { expression: 'quantity * 10' } }
+  ]
+};
+
+describe('diffSchemas', () => {
+  it('reports a change to a calculation expression alone', () => {
+    const proposed: FormSchema = {
+      ...base,
+      fields: [base.fields[0], { ...base.fields[1], calculation: { expression: 'quantity * 12' } }]
+    };
+
+    const changes = diffSchemas(base, proposed);
+
+    expect(changes).toEqual([
+      { kind: 'modified', target: 'field', fieldId: 'total', label: 'Total', details: ['Calculation changed'] }
+    ]);
+    expect(applySchemaChanges(base, proposed, changes)).toEqual(proposed);
+  });
+
+  // One row per field property, so a property the diff ignores shows up as a failing case
+  const propertyChanges: Record<Exclude<keyof FormField, 'id'>, [Partial<FormField>, Partial<FormField>, string[]]> = {
+    type: [{ type: 'text' }, { type: 'textarea' }, ['Type: text → textarea']],
+    label: [{ label: 'Name' }, { label: 'Full name' }, ['Label: "Name" → "Full name"']],
+    placeholder: [{}, { placeholder: 'Jane Doe' }, ['Placeholder changed']],
+    required: [{ required: false }, { required: true }, ['Now required']],
+    options: [{ options: ['A', 'B'] }, { options: ['B', 'C'] }, ['Options added: C', 'Options removed: A']],
+    validation: [{ validation: { max: 10 } }, { validation: { max: 20 } }, ['Validation rules changed']],
+    scale: [{ scale: { max: 5 } }, { scale: { max: 10 } }, ['Scale settings changed']],
+    matrix: [
+      { matrix: { rows: [{ id: 'speed', label: 'Speed' }], columns: ['Good'] } },
+      { matrix: { rows: [{ id: 'speed', label: 'Speed' }], columns: ['Good', 'Bad'] } },
+      ['Matrix rows or columns changed']
+    ],
+    group: [{ group: { fields: [] } }, { group: { fields: [], maxItems: 3 } }, ['Group fields or limits changed']],
+    currency: [{ currency: 'USD' }, { currency: 'EUR' }, ['Currency: USD → EUR']],
+    address: [{}, { address: { defaultCountry: 'GB' } }, ['Address settings changed']],
+    hidden: [{ hidden: { param: 'utm_source' } }, { hidden: { param: 'ref' } }, ['Hidden value settings changed']],
+    calculation: [{ calculation: { expression: '1' } }, { calculation: { expression: '1', decimals: 0 } }, ['Calculation changed']],
+    visibleWhen: [
+      {},
+      { visibleWhen: { combinator: 'and', conditions: [{ field: 'quantity', operator: 'is_not_empty' }] } },
+      ['Visibility conditions changed']
+    ]
+  };
+
+  it.each(Object.entries(propertyChanges))('reports a change to %s', (_property, [before, after, details]) => {
+    const field: FormField = { id: 'subject', type: 'text', label: 'Subject', required: false };
+    const withField = (patch: Partial<FormField>): FormSchema => ({ ...base, fields: [...base.fields, { ...field, ...patch }] });
+
+    const changes = diffSchemas(withField(before), withField(after));
+
+    expect(changes).toEqual([
+      { kind: 'modified', target: 'field', fieldId: 'subject', label: after.label ?? 'Subject', details }
+    ]);
+    expect(diffSchemas(withField(before), withField(before))).toEqual([]);
+  });
+
+  it('reports reordered options on their own', () => {
+    const field: FormField = { id: 'size', type: 'select', label: 'Size', required: false, options: ['S', 'M'] };
+    const changes = diffSchemas(
+      { ...base, fields: [field] },
+      { ...base, fields: [{ ...field, options: ['M', 'S'] }] }
+    );
+
+    expect(changes.map((change) => change.details)).toEqual([['Options reordered']]);
+  });
+
+  it('reports added, removed and reordered fields, the title and the sections', () => {
+    const email: FormField = { id: 'email', type: 'email', label: 'Email', required: true };
+    const proposed: FormSchema = {
+      title: 'Checkout',
+      description: 'Place an order',
+      fields: [base.fields[0], email],
+      sections: [{ id: 'one', title: 'One', fields: ['quantity'] }, { id: 'two', title: 'Two', fields: ['email'] }]
+    };
+
+    expect(diffSchemas(base, proposed).map(({ kind, target, fieldId }) => [kind, target, fieldId])).toEqual([
+      ['modified', 'title', undefined],
+      ['modified', 'description', undefined],
+      ['removed', 'field', 'total'],
+      ['added', 'field', 'email'],
+      ['modified', 'sections', undefined]
+    ]);
+    expect(diffSchemas(base, { ...base, fields: [...base.fields].reverse() }).map((change) => change.kind)).toEqual(['reordered']);
+  });
+});
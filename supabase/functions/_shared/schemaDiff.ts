@@ -0,0 +1,187 @@
+import type { FieldCondition, FormField, FormSchema, VisibilityRule } from './formTypes.ts';
+
+export type SchemaChangeKind = 'added' | 'removed' | 'modified' | 'reordered';
+
+export type SchemaChangeTarget = 'title' | 'description' | 'field' | 'order' | 'sections';
+
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  target: SchemaChangeTarget;
+  fieldId?: string;
+  label: string;
+  details: string[];
+}
+
+function sameJSON(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function diffField(before: FormField, after: FormField): string[] {
+  const details: string[] = [];
+
+  if (before.label !== after.label) details.push(`Label: "${before.label}" → "${after.label}"`);
+  if (before.type !== after.type) details.push(`Type: ${before.type} → ${after.type}`);
+  if (before.required !== after.required) details.push(after.required ? 'Now required' : 'No longer required');
+  if ((before.placeholder || '') !== (after.placeholder || '')) details.push('Placeholder changed');
+
+  const beforeOptions = before.options || [];
+  const afterOptions = after.options || [];
+  const addedOptions = afterOptions.filter((option) => !beforeOptions.includes(option));
+  const removedOptions = beforeOptions.filter((option) => !afterOptions.includes(option));
+  if (addedOptions.length > 0) details.push(`Options added: ${addedOptions.join(', ')}`);
+  if (removedOptions.length > 0) details.push(`Options removed: ${removedOptions.join(', ')}`);
+  if (addedOptions.length === 0 && removedOptions.length === 0 && !sameJSON(beforeOptions, afterOptions)) {
+    details.push('Options reordered');
+  }
+
+  if (!sameJSON(before.validation, after.validation)) details.push('Validation rules changed');
+  if (!sameJSON(before.scale, after.scale)) details.push('Scale settings changed');
+  if (!sameJSON(before.matrix, after.matrix)) details.push('Matrix rows or columns changed');
+  if (!sameJSON(before.group, after.group)) details.push('Group fields or limits changed');
+  if ((before.currency || '') !== (after.currency || '')) {
+    details.push(`Currency: ${before.currency || 'default'} → ${after.currency || 'default'}`);
+  }
+  if (!sameJSON(before.address, after.address)) details.push('Address settings changed');
+  if (!sameJSON(before.hidden, after.hidden)) details.push('Hidden value settings changed');
+  if (!sameJSON(before.calculation, after.calculation)) details.push('Calculation changed');
+  if (!sameJSON(before.visibleWhen, after.visibleWhen)) details.push('Visibility conditions changed');
+
+  return details;
+}
+
+// Field-level changes needed to turn `before` into `after`
+export function diffSchemas(before: FormSchema, after: FormSchema): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+
+  if (before.title !== after.title) {
+    changes.push({ kind: 'modified', target: 'title', label: 'Form title', details: [`"${before.title}" → "${after.title}"`] });
+  }
+  if ((before.description || '') !== (after.description || '')) {
+    changes.push({ kind: 'modified', target: 'description', label: 'Form description', details: ['Description changed'] });
+  }
+
+  const beforeFields = new Map(before.fields.map((field) => [field.id, field]));
+  const afterFields = new Map(after.fields.map((field) => [field.id, field]));
+
+  before.fields.forEach((field) => {
+    if (!afterFields.has(field.id)) {
+      changes.push({ kind: 'removed', target: 'field', fieldId: field.id, label: field.label, details: [] });
+    }
+  });
+
+  after.fields.forEach((field) => {
+    const previous = beforeFields.get(field.id);
+    if (!previous) {
+      changes.push({ kind: 'added', target: 'field', fieldId: field.id, label: field.label, details: [`Type: ${field.type}`] });
+      return;
+    }
+    const details = diffField(previous, field);
+    if (details.length > 0) {
+      changes.push({ kind: 'modified', target: 'field', fieldId: field.id, label: field.label, details });
+    }
+  });
+
+  const beforeOrder = before.fields.filter((field) => afterFields.has(field.id)).map((field) => field.id);
+  const afterOrder = after.fields.filter((field) => beforeFields.has(field.id)).map((field) => field.id);
+  if (!sameJSON(beforeOrder, afterOrder)) {
+    changes.push({ kind: 'reordered', target: 'order', label: 'Field order', details: ['Fields were reordered'] });
+  }
+
+  if (!sameJSON(before.sections, after.sections)) {
+    changes.push({ kind: 'modified', target: 'sections', label: 'Pages', details: ['Page sections changed'] });
+  }
+
+  return changes;
+}
+
+function pruneRule(rule: VisibilityRule, fieldIds: Set<string>): VisibilityRule | null {
+  const conditions = rule.conditions
+    .map((condition) =>
+      'conditions' in condition ? pruneRule(condition, fieldIds) : (condition as FieldCondition)
+    )
+    .filter((condition): condition is FieldCondition | VisibilityRule =>
+      condition !== null && ('conditions' in condition || fieldIds.has(condition.field))
+    );
+  return conditions.length > 0 ? { ...rule, conditions } : null;
+}
+
+// Drops conditions and section entries that point at fields no longer in the schema
+function pruneDanglingReferences(schema: FormSchema): FormSchema {
+  const fieldIds = new Set(schema.fields.map((field) => field.id));
+  const fields = schema.fields.map((field) => {
+    if (!field.visibleWhen) return field;
+    const { visibleWhen, ...rest } = field;
+    const rule = pruneRule(visibleWhen, fieldIds);
+    return rule ? { ...rest, visibleWhen: rule } : rest;
+  });
+  const sections = schema.sections?.map((section) => ({
+    ...section,
+    fields: section.fields.filter((id) => fieldIds.has(id))
+  }));
+  return { ...schema, fields, ...(sections ? { sections } : {}) };
+}
+
+/**
+ * Applies only the accepted changes from a `diffSchemas(base, proposed)` result to `base`,
+ * so a proposed revision can be taken piecemeal.
+ */
+export function applySchemaChanges(base: FormSchema, proposed: FormSchema, accepted: SchemaChange[]): FormSchema {
+  const proposedFields = new Map(proposed.fields.map((field) => [field.id, field]));
+  const byKind = (kind: SchemaChangeKind, target: SchemaChangeTarget) =>
+    accepted.filter((change) => change.kind === kind && change.target === target);
+
+  let result: FormSchema = { ...base, fields: [...base.fields] };
+
+  if (byKind('modified', 'title').length > 0) result.title = proposed.title;
+  if (byKind('modified', 'description').length > 0) result.description = proposed.description;
+
+  const removedIds = new Set(byKind('removed', 'field').map((change) => change.fieldId));
+  result.fields = result.fields.filter((field) => !removedIds.has(field.id));
+
+  byKind('modified', 'field').forEach((change) => {
+    const next = proposedFields.get(change.fieldId!);
+    if (next) result.fields = result.fields.map((field) => (field.id === next.id ? next : field));
+  });
+
+  // New fields go right after the nearest preceding field they follow in the proposal
+  byKind('added', 'field').forEach((change) => {
+    const next = proposedFields.get(change.fieldId!);
+    if (!next || result.fields.some((field) => field.id === next.id)) return;
+    const proposedIndex = proposed.fields.indexOf(next);
+    let insertAt = 0;
+    for (let i = proposedIndex - 1; i >= 0; i--) {
+      const existing = result.fields.findIndex((field) => field.id === proposed.fields[i].id);
+      if (existing !== -1) {
+        insertAt = existing + 1;
+        break;
+      }
+    }
+    result.fields.splice(insertAt, 0, next);
+  });
+
+  if (byKind('reordered', 'order').length > 0) {
+    const order = new Map(proposed.fields.map((field, index) => [field.id, index]));
+    const slots = result.fields
+      .map((field, index) => (order.has(field.id) ? index : -1))
+      .filter((index) => index !== -1);
+    const sorted = slots
+      .map((index) => result.fields[index])
+      .sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+    const fields = [...result.fields];
+    slots.forEach((slot, i) => {
+      fields[slot] = sorted[i];
+    });
+    result.fields = fields;
+  }
+
+  if (byKind('modified', 'sections').length > 0) {
+    if (proposed.sections) {
+      result.sections = proposed.sections;
+    } else {
+      const { sections: _sections, ...rest } = result;
+      result = rest;
+    }
+  }
+
+  return pruneDanglingReferences(result);
+}
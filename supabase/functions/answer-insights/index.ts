@@ -0,0 +1,217 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { FormField, FormSchema } from "../_shared/formTypes.ts";
+import { createProviderFromEnv } from "../_shared/llmProviders.ts";
+import { createEmbedderFromEnv, toVectorLiteral, type Embedder } from "../_shared/embeddings.ts";
+import {
+  EMBEDDED_FIELD_TYPES,
+  MAX_EMBEDDED_CHARS,
+  MIN_THEME_ANSWERS,
+  clusterAnswers,
+  parseVector,
+  type EmbeddedAnswer
+} from "../_shared/answerInsights.ts";
+import { labelThemes } from "./themeLabels.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Older answers are embedded on demand, a bounded batch per request
+const INDEX_BATCH_SIZE = 200;
+// Themes are drawn from the most recent answers
+const MAX_THEME_ANSWERS = 2000;
+const THEME_EXAMPLES = 3;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * Embeds answers to `field` that were submitted before embedding was set up (or
+ * whose embedding failed at submit time). Returns how many are still left.
+ */
+async function indexMissingAnswers(
+  supabase: SupabaseClient,
+  embedder: Embedder,
+  formId: string,
+  field: FormField
+): Promise<number> {
+  const { data: submissions, error: submissionsError } = await supabase
+    .from('submissions')
+    .select('id, responses')
+    .eq('form_id', formId)
+    .not(`responses->>${field.id}`, 'is', null)
+    .order('submitted_at', { ascending: false })
+    .limit(MAX_THEME_ANSWERS);
+  if (submissionsError) throw submissionsError;
+
+  const { data: embedded, error: embeddedError } = await supabase
+    .from('answer_embeddings')
+    .select('submission_id')
+    .eq('form_id', formId)
+    .eq('field_id', field.id);
+  if (embeddedError) throw embeddedError;
+
+  const done = new Set((embedded || []).map((row) => row.submission_id));
+  const missing = (submissions || []).flatMap((submission) => {
+    const value = (submission.responses as Record<string, unknown>)[field.id];
+    const content = typeof value === 'string' ? value.trim().slice(0, MAX_EMBEDDED_CHARS) : '';
+    return content && !done.has(submission.id) ? [{ submissionId: submission.id as string, content }] : [];
+  });
+  if (missing.length === 0) return 0;
+
+  const batch = missing.slice(0, INDEX_BATCH_SIZE);
+  const embeddings = await embedder.embed(batch.map((answer) => answer.content));
+  const { error: upsertError } = await supabase.from('answer_embeddings').upsert(
+    batch.map((answer, i) => ({
+      submission_id: answer.submissionId,
+      form_id: formId,
+      field_id: field.id,
+      content: answer.content,
+      embedding: toVectorLiteral(embeddings[i])
+    })),
+    { onConflict: 'submission_id,field_id' }
+  );
+  if (upsertError) throw upsertError;
+
+  console.log('Indexed', batch.length, 'answers for', formId, field.id);
+  return missing.length - batch.length;
+}
+
+// Finds answers similar to one submission's answer ("similar"), or groups a field's
+// answers into labelled themes ("themes"). Only the form's owner may call it.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, formId, fieldId, submissionId } = await req.json();
+
+    if (!formId || !fieldId || (action !== 'similar' && action !== 'themes')) {
+      return jsonResponse({ error: 'formId, fieldId and an action of "similar" or "themes" are required' }, 400);
+    }
+
+    if (action === 'similar' && (typeof submissionId !== 'string' || !UUID_PATTERN.test(submissionId))) {
+      return jsonResponse({ error: 'submissionId is required' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!user) {
+      return jsonResponse({ error: 'Sign in to analyze answers' }, 401);
+    }
+
+    const { data: form, error: formError } = await supabase
+      .from('forms')
+      .select('id, user_id, schema')
+      .eq('id', formId)
+      .maybeSingle();
+
+    if (formError) {
+      console.error('Form lookup error:', formError);
+      return jsonResponse({ error: 'Failed to load form' }, 500);
+    }
+
+    // Someone else's form is reported as missing rather than forbidden
+    if (!form || form.user_id !== user.id) {
+      return jsonResponse({ error: 'Form not found' }, 404);
+    }
+
+    const schema = form.schema as FormSchema;
+    const field = (Array.isArray(schema?.fields) ? schema.fields : []).find((f) => f.id === fieldId);
+    if (!field || !EMBEDDED_FIELD_TYPES.includes(field.type)) {
+      return jsonResponse({ error: 'Only long-text fields can be analyzed' }, 400);
+    }
+
+    const embedder = createEmbedderFromEnv();
+    if (!embedder) {
+      return jsonResponse({ error: 'Embedding service not configured. Set EMBEDDING_API_KEY, LLM_API_KEY, or GEMINI_API_KEY.' }, 500);
+    }
+
+    const remaining = await indexMissingAnswers(supabase, embedder, formId, field);
+
+    if (action === 'similar') {
+      const { data: matches, error: matchError } = await supabase.rpc('find_similar_answers', {
+        p_submission_id: submissionId,
+        p_field_id: fieldId,
+        match_threshold: 0.3,
+        match_count: 10
+      });
+
+      if (matchError) {
+        console.error('Similar answers error:', matchError);
+        return jsonResponse({ error: 'Failed to find similar answers' }, 500);
+      }
+
+      return jsonResponse({
+        matches: (matches || []).map((match: { submission_id: string; content: string; similarity: number; submitted_at: string }) => ({
+          submissionId: match.submission_id,
+          content: match.content,
+          similarity: match.similarity,
+          submittedAt: match.submitted_at
+        })),
+        remaining
+      });
+    }
+
+    const { data: rows, error: rowsError } = await supabase
+      .from('answer_embeddings')
+      .select('submission_id, content, embedding')
+      .eq('form_id', formId)
+      .eq('field_id', fieldId)
+      .order('submission_id')
+      .limit(MAX_THEME_ANSWERS);
+
+    if (rowsError) {
+      console.error('Answer embeddings error:', rowsError);
+      return jsonResponse({ error: 'Failed to load answers' }, 500);
+    }
+
+    const answers: EmbeddedAnswer[] = (rows || []).flatMap((row) => {
+      const embedding = parseVector(row.embedding);
+      return embedding ? [{ id: row.submission_id as string, content: row.content as string, embedding }] : [];
+    });
+
+    if (answers.length < MIN_THEME_ANSWERS) {
+      return jsonResponse({ themes: [], answerCount: answers.length, remaining });
+    }
+
+    const clusters = clusterAnswers(answers);
+
+    // Keyword labels stand in whenever the model can't be reached or answers badly
+    let labels = null;
+    try {
+      labels = await labelThemes(createProviderFromEnv(), field.label, clusters.map((cluster) => cluster.members.map((m) => m.content)));
+    } catch (providerError) {
+      console.error('Provider error:', providerError);
+    }
+
+    const themes = clusters.map((cluster, i) => ({
+      label: labels?.[i].label || cluster.keywords.join(', ') || 'Other answers',
+      description: labels?.[i].description || '',
+      keywords: cluster.keywords,
+      count: cluster.members.length,
+      submissionIds: cluster.members.map((member) => member.id),
+      examples: cluster.members.slice(0, THEME_EXAMPLES).map((member) => ({ submissionId: member.id, content: member.content }))
+    }));
+
+    console.log('Found', themes.length, 'themes in', answers.length, 'answers for', formId, fieldId);
+    return jsonResponse({ themes, answerCount: answers.length, labelled: !!labels, remaining });
+
+  } catch (error) {
+    console.error('Error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
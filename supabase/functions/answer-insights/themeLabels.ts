@@ -0,0 +1,67 @@
+import { parseJSONSafe, type ChatMessage, type LLMProvider } from "../_shared/llmProviders.ts";
+
+export interface ThemeLabel {
+  label: string;
+  description: string;
+}
+
+// Per cluster, the answers closest to its centre are enough to name it
+const SAMPLE_ANSWERS = 8;
+const SAMPLE_CHARS = 300;
+
+function truncateText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return text.substring(0, maxChars) + '...';
+}
+
+export function buildThemeMessages(question: string, clusters: string[][]): ChatMessage[] {
+  const groups = clusters
+    .map((contents, i) => {
+      const samples = contents.slice(0, SAMPLE_ANSWERS).map((content) => `- ${truncateText(content.replace(/\s+/g, ' '), SAMPLE_CHARS)}`);
+      return `Group ${i + 1} (${contents.length} answers):\n${samples.join('\n')}`;
+    })
+    .join('\n\n');
+
+  return [
+    {
+      role: 'system',
+      content: `You name themes in survey answers. Each group below holds answers that were clustered together by meaning.
+For every group, in the same order, write a short label (2-5 words) and one sentence describing what those respondents say.
+Respond with a JSON object of this shape:
+{ "themes": [{ "label": "Slow delivery", "description": "Orders arrived later than promised." }] }
+Return ONLY valid JSON, no markdown or explanation.`
+    },
+    { role: 'user', content: `Question: ${truncateText(question, 200)}\n\n${groups}` }
+  ];
+}
+
+export function parseThemeLabels(output: string, count: number): ThemeLabel[] | null {
+  const parsed = parseJSONSafe<{ themes?: unknown }>(output);
+  if (!Array.isArray(parsed?.themes) || parsed.themes.length !== count) return null;
+
+  const labels = parsed.themes.map((theme) => ({
+    label: typeof theme?.label === 'string' ? theme.label.trim().slice(0, 80) : '',
+    description: typeof theme?.description === 'string' ? theme.description.trim().slice(0, 300) : ''
+  }));
+  return labels.every((theme) => theme.label) ? labels : null;
+}
+
+/**
+ * Asks the model to name each cluster. Returns null rather than throwing when the
+ * model is unavailable or answers in the wrong shape, so callers can fall back.
+ */
+export async function labelThemes(
+  provider: LLMProvider,
+  question: string,
+  clusters: string[][]
+): Promise<ThemeLabel[] | null> {
+  try {
+    const output = await provider.complete({ messages: buildThemeMessages(question, clusters), maxTokens: 1000, json: true });
+    const labels = parseThemeLabels(output, clusters.length);
+    if (!labels) console.error('Unusable theme labels from', provider.name);
+    return labels;
+  } catch (error) {
+    console.error('Theme labelling error:', error);
+    return null;
+  }
+}
@@ -0,0 +1,142 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { FormSchema, FormSettings } from "../_shared/formTypes.ts";
+import { MAX_DRAFT_BYTES, getDraftExpiry, pickDraftResponses } from "../_shared/formDrafts.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+// Saves ("save") or loads ("load") a respondent's draft. The draft id is the resume token,
+// so a draft is only ever returned to someone who holds the link.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, formId, draftId, responses } = await req.json();
+
+    if (!formId || (action !== 'save' && action !== 'load')) {
+      return jsonResponse({ error: 'formId and an action of "save" or "load" are required' }, 400);
+    }
+
+    if (draftId !== undefined && draftId !== null && (typeof draftId !== 'string' || !UUID_PATTERN.test(draftId))) {
+      return jsonResponse({ error: 'Draft not found' }, 404);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: form, error: formError } = await supabase
+      .from('forms')
+      .select('id, schema, settings, is_published')
+      .eq('id', formId)
+      .maybeSingle();
+
+    if (formError) {
+      console.error('Form lookup error:', formError);
+      return jsonResponse({ error: 'Failed to load form' }, 500);
+    }
+
+    if (!form) {
+      return jsonResponse({ error: 'Form not found' }, 404);
+    }
+
+    if (!form.is_published) {
+      return jsonResponse({ error: 'This form is not currently accepting submissions' }, 403);
+    }
+
+    const settings = (form.settings || {}) as FormSettings;
+    const now = new Date();
+
+    if (action === 'load') {
+      if (!draftId) return jsonResponse({ error: 'draftId is required' }, 400);
+
+      const { data: draft, error: draftError } = await supabase
+        .from('form_drafts')
+        .select('id, responses, expires_at')
+        .eq('id', draftId)
+        .eq('form_id', formId)
+        .maybeSingle();
+
+      if (draftError) {
+        console.error('Draft lookup error:', draftError);
+        return jsonResponse({ error: 'Failed to load draft' }, 500);
+      }
+
+      if (!draft || new Date(draft.expires_at) <= now) {
+        if (draft) await supabase.from('form_drafts').delete().eq('id', draft.id);
+        return jsonResponse({ error: 'This draft has expired or no longer exists' }, 404);
+      }
+
+      return jsonResponse({ draftId: draft.id, responses: draft.responses, expiresAt: draft.expires_at });
+    }
+
+    if (!settings.drafts?.resumeLinks) {
+      return jsonResponse({ error: 'This form does not allow saving drafts' }, 403);
+    }
+
+    if (!responses || typeof responses !== 'object' || Array.isArray(responses)) {
+      return jsonResponse({ error: 'responses must be an object' }, 400);
+    }
+
+    const schema = form.schema as FormSchema;
+    const fields = Array.isArray(schema?.fields) ? schema.fields : [];
+    const draftResponses = pickDraftResponses(fields, responses);
+
+    if (JSON.stringify(draftResponses).length > MAX_DRAFT_BYTES) {
+      return jsonResponse({ error: 'This draft is too large to save' }, 413);
+    }
+
+    // Each save extends the draft's lifetime
+    const expiresAt = getDraftExpiry(settings, now).toISOString();
+    const row = { form_id: formId, responses: draftResponses, updated_at: now.toISOString(), expires_at: expiresAt };
+
+    // Expired drafts are cleared lazily whenever someone saves to the same form
+    await supabase.from('form_drafts').delete().eq('form_id', formId).lte('expires_at', now.toISOString());
+
+    const { data: updated, error: updateError } = draftId
+      ? await supabase.from('form_drafts').update(row).eq('id', draftId).eq('form_id', formId).select('id').maybeSingle()
+      : { data: null, error: null };
+
+    if (updateError) {
+      console.error('Draft update error:', updateError);
+      return jsonResponse({ error: 'Failed to save draft' }, 500);
+    }
+
+    // An unknown or expired draft id starts a fresh draft rather than failing the save
+    let savedId = updated?.id as string | undefined;
+    if (!savedId) {
+      const { data: inserted, error: insertError } = await supabase
+        .from('form_drafts')
+        .insert(row)
+        .select('id')
+        .single();
+
+      if (insertError) {
+        console.error('Draft insert error:', insertError);
+        return jsonResponse({ error: 'Failed to save draft', details: insertError.message }, 500);
+      }
+      savedId = inserted.id;
+    }
+
+    console.log('Draft saved:', savedId);
+    return jsonResponse({ draftId: savedId, expiresAt });
+
+  } catch (error) {
+    console.error('Error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -1,15 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createEmbedderFromEnv, toVectorLiteral } from "../_shared/embeddings.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-function getEmbeddingApiKey(): string | undefined {
-  return Deno.env.get('EMBEDDING_API_KEY') || Deno.env.get('LLM_API_KEY') || Deno.env.get('GEMINI_API_KEY');
-}
-
 async function upsertToPinecone(
   formId: string, 
   embedding: number[], 
@@ -59,8 +56,8 @@ serve(async (req) => {
       );
     }
 
-    const EMBEDDING_API_KEY = getEmbeddingApiKey();
-    if (!EMBEDDING_API_KEY) {
+    const embedder = createEmbedderFromEnv();
+    if (!embedder) {
       return new Response(
         JSON.stringify({ error: 'Embedding service not configured. Set EMBEDDING_API_KEY, LLM_API_KEY, or GEMINI_API_KEY.' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -69,38 +66,19 @@ serve(async (req) => {
 
     console.log('Generating embedding for form:', formId);
 
-    const embeddingResponse = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${EMBEDDING_API_KEY}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: 'models/text-embedding-004',
-          content: { parts: [{ text }] }
-        })
-      }
-    );
-
-    if (!embeddingResponse.ok) {
-      const errorText = await embeddingResponse.text();
-      console.error('Embedding error:', embeddingResponse.status, errorText);
-      return new Response(
-        JSON.stringify({ error: 'Failed to generate embedding', details: errorText }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const embeddingData = await embeddingResponse.json();
-    const embedding = embeddingData.embedding?.values;
-
-    if (!embedding || !Array.isArray(embedding)) {
+    let finalEmbedding: number[];
+    try {
+      [finalEmbedding] = await embedder.embed([text]);
+    } catch (embeddingError) {
       return new Response(
-        JSON.stringify({ error: 'Invalid embedding response' }),
+        JSON.stringify({
+          error: 'Failed to generate embedding',
+          details: embeddingError instanceof Error ? embeddingError.message : String(embeddingError)
+        }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const finalEmbedding = embedding.slice(0, 768);
     console.log('Embedding:', finalEmbedding.length, 'dimensions');
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -111,7 +89,7 @@ serve(async (req) => {
 
     const { error: updateError } = await supabase
       .from('forms')
-      .update({ embedding: `[${finalEmbedding.join(',')}]`, summary })
+      .update({ embedding: toVectorLiteral(finalEmbedding), summary })
       .eq('id', formId);
 
     if (updateError) {
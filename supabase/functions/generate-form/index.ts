@@ -1,24 +1,134 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createProviderFromEnv, type LLMProvider } from "../_shared/llmProviders.ts";
+import { diffSchemas } from "../_shared/schemaDiff.ts";
+import { buildGenerationMessages, generateWithRetry, parseGenerationOutput, type GenerationRequest } from "./schemaGeneration.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface FormField {
-  id: string;
-  type: 'text' | 'email' | 'number' | 'textarea' | 'select' | 'checkbox' | 'radio' | 'date' | 'file';
-  label: string;
-  placeholder?: string;
-  required: boolean;
-  options?: string[];
+const SCHEMA_GUIDE = `Schema structure:
+{
+  "title": "Form Title",
+  "description": "Brief description",
+  "fields": [
+    {
+      "id": "unique_id",
+      "type": "text|email|number|textarea|select|checkbox|radio|date|file|rating|scale|nps|matrix|group|phone|url|time|datetime-local|currency|address|signature|hidden|calculated",
+      "label": "Field Label",
+      "placeholder": "Optional placeholder",
+      "required": true|false,
+      "options": ["Option 1", "Option 2"],
+      "validation": {
+        "min": 2,
+        "max": 100,
+        "minDate": "YYYY-MM-DD",
+        "maxDate": "YYYY-MM-DD",
+        "pattern": "^[A-Z]{2}\\\\d{4}$",
+        "message": "Custom error message"
+      },
+      "scale": {
+        "min": 1,
+        "max": 5,
+        "minLabel": "Poor",
+        "maxLabel": "Excellent"
+      },
+      "matrix": {
+        "rows": [{ "id": "row_id", "label": "Row statement", "required": true }],
+        "columns": ["Column 1", "Column 2"],
+        "multiple": false
+      },
+      "group": {
+        "fields": [{ "id": "child_id", "type": "text", "label": "Child Field", "required": true }],
+        "minItems": 1,
+        "maxItems": 5,
+        "itemLabel": "Attendee"
+      },
+      "currency": "USD",
+      "hidden": { "param": "utm_source", "defaultValue": "direct" },
+      "calculation": { "expression": "price * quantity", "decimals": 2 },
+      "address": { "requiredParts": ["street", "city", "postalCode", "country"], "defaultCountry": "US" },
+      "visibleWhen": {
+        "combinator": "and|or",
+        "conditions": [
+          { "field": "other_field_id", "operator": "equals", "value": "Option 1" }
+        ]
+      }
+    }
+  ],
+  "sections": [
+    {
+      "id": "section_id",
+      "title": "Section Title",
+      "description": "Optional section description",
+      "fields": ["unique_id"]
+    }
+  ]
 }
 
-interface FormSchema {
-  title: string;
-  description: string;
-  fields: FormField[];
+Field types: text, email, number, textarea, select, checkbox, radio, date, file, rating, scale, nps, matrix, group, phone, url, time, datetime-local, currency, address, signature, hidden, calculated
+
+Choose the most specific type:
+- phone: phone numbers; respondents pick a country code, so don't add a pattern.
+- url: websites, portfolios and profile links.
+- time: a time of day without a date (e.g. preferred call time).
+- datetime-local: a date plus a time (e.g. appointment or arrival); use "date" when no time is needed.
+- currency: money amounts such as budgets, prices or salaries. Set "currency" to an ISO 4217 code (default USD) and use "min"/"max" for the amount.
+- address: a full postal address (shipping, billing, home). Use one address field instead of separate street/city/zip fields.
+  "address.requiredParts" lists which of street, city, region, postalCode and country must be filled (default: all but region);
+  "address.defaultCountry" is a two-letter ISO code when the audience is clearly in one country. Omit "address" for the defaults.
+- signature: a drawn signature for consent forms, waivers and agreements; place it last and usually make it required.
+- email: email addresses; number: plain quantities that are not money.
+
+Hidden and calculated fields (never typed by the respondent):
+- hidden: tracking values such as a campaign or referrer. "hidden.param" is the URL query parameter to read (default: the field id) and "hidden.defaultValue" is used when it is missing.
+- calculated: a value computed from other fields, e.g. an order total, a score or a discount. "calculation.expression" uses field ids with + - * / %, comparisons (== != < <= > >=), && || !, "cond ? a : b" and the functions if, min, max, sum, count, round, floor, ceil, abs.
+  Example: "price * quantity + (gift_wrap == 'Yes' ? 5 : 0)". Set "currency" when the result is money. Only reference fields that exist, and never the field itself.
+
+Rating, scale and NPS fields (feedback and satisfaction questions):
+- rating: star rating from 1 to "scale.max" (3-10, default 5).
+- scale: linear scale from "scale.min" (0 or 1) to "scale.max" (2-10), e.g. agreement or effort questions.
+- nps: "How likely are you to recommend..." questions; always 0-10, so omit min/max.
+- "minLabel"/"maxLabel" describe the ends of the scale (e.g. "Strongly disagree"/"Strongly agree").
+- Only include "scale" on these three types, and omit it entirely to use the defaults.
+
+Matrix fields (several statements rated on the same columns, e.g. "rate each of the following"):
+- "matrix.rows" are the statements, each with a unique snake_case "id" and a "label".
+- "matrix.columns" are the shared answer choices; use "matrix" instead of "options".
+- Set "multiple": true only when more than one column may be picked per row.
+- Rows follow the field's "required" unless a row sets its own "required".
+- Prefer one matrix over many radio fields with identical options.
+
+Group fields (a set of fields the respondent repeats, e.g. "list your previous employers" or "add each attendee"):
+- "group.fields" are ordinary field objects; their ids only need to be unique within the group.
+- Children cannot be "group" or "file" fields and cannot have "visibleWhen".
+- "minItems"/"maxItems" bound the number of entries; omit them for no limit.
+- "itemLabel" names one entry (e.g. "Employer") and is used for the add button.
+
+Sections:
+- Only add "sections" for long forms (roughly 8+ fields) or when the request describes distinct steps or parts.
+- Each section becomes one page; list field ids in display order and put every field in exactly one section.
+- Omit "sections" entirely for short forms.
+
+Validation (include only the keys that apply, and only when the request implies a constraint):
+- text, email, textarea: "min"/"max" are character lengths; "pattern" is a JavaScript regex for codes, IDs or formats.
+- number, currency: "min"/"max" bound the value (e.g. age 18-120, budget 100-5000).
+- date: "minDate"/"maxDate" as YYYY-MM-DD.
+- checkbox: "min"/"max" bound how many options may be selected.
+- Add "message" whenever you set "pattern", explaining the expected format to the respondent.
+
+Conditional fields:
+- Only add "visibleWhen" when the request implies branching (e.g. "if they answer Yes, ask for details").
+- Conditions reference the id of an earlier field in the form.
+- Operators: equals, not_equals, contains, not_contains, greater_than, less_than, is_empty, is_not_empty.
+- For select/radio/checkbox fields, "value" must be one of that field's options.
+- Conditions may nest another { "combinator", "conditions" } group for mixed and/or logic.`;
+
+interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
 }
 
 interface SimilarForm {
@@ -43,31 +153,6 @@ function summarizeForm(form: any): string {
   return truncateText(JSON.stringify(summary), 800);
 }
 
-function extractJSON(text: string): string {
-  const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-  if (jsonMatch) return jsonMatch[1].trim();
-  const objectMatch = text.match(/\{[\s\S]*\}/);
-  if (objectMatch) return objectMatch[0];
-  return text.trim();
-}
-
-function parseJSONSafe(text: string): FormSchema | null {
-  const jsonString = extractJSON(text);
-  try {
-    return JSON.parse(jsonString);
-  } catch (e) {
-    try {
-      const cleaned = jsonString
-        .replace(/,\s*}/g, '}')
-        .replace(/,\s*]/g, ']')
-        .replace(/[\x00-\x1F\x7F]/g, '');
-      return JSON.parse(cleaned);
-    } catch {
-      return null;
-    }
-  }
-}
-
 async function getEmbedding(text: string): Promise<number[] | null> {
   const EMBEDDING_API_KEY = Deno.env.get('EMBEDDING_API_KEY') || Deno.env.get('LLM_API_KEY');
   if (!EMBEDDING_API_KEY) return null;
@@ -130,13 +215,66 @@ async function queryPinecone(embedding: number[], userId: string, topK: number =
   }
 }
 
+/**
+ * Streams generation as server-sent events: `delta` events carry raw model
+ * text for previews, then a single `done` (the repaired schema) or `error`.
+ */
+function streamGeneration(
+  provider: LLMProvider,
+  generation: GenerationRequest,
+  contextUsed: boolean,
+  signal: AbortSignal
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+      try {
+        console.log(`Streaming from ${provider.name} provider...`);
+        let text = '';
+        for await (const delta of provider.stream!({
+          messages: buildGenerationMessages(generation),
+          maxTokens: 2048,
+          json: true,
+          signal
+        })) {
+          text += delta;
+          send('delta', { text: delta });
+        }
+
+        // Unusable streamed output gets the same stricter retry, without streaming
+        const result = parseGenerationOutput(text, false) ?? await generateWithRetry(provider, generation, true, signal);
+        console.log('Generated:', result.schema.title, 'with', result.schema.fields.length, 'fields');
+        send('done', { schema: result.schema, fixes: result.fixes, contextUsed });
+      } catch (error) {
+        if (signal.aborted) {
+          console.log('Client cancelled generation');
+        } else {
+          console.error('Streaming error:', error);
+          send('error', { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed because the client went away
+        }
+      }
+    }
+  });
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { prompt, userId } = await req.json();
+    const { prompt, userId, currentSchema, conversation, stream } = await req.json();
+    const isRefinement = !!currentSchema && Array.isArray(currentSchema.fields);
     
     if (!prompt) {
       return new Response(
@@ -145,10 +283,12 @@ serve(async (req) => {
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
+    let provider: LLMProvider;
+    try {
+      provider = createProviderFromEnv();
+    } catch (error) {
       return new Response(
-        JSON.stringify({ error: 'AI service not configured. LOVABLE_API_KEY is missing.' }),
+        JSON.stringify({ error: error instanceof Error ? error.message : 'AI service not configured' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -156,8 +296,8 @@ serve(async (req) => {
     let relevantFormsContext = '';
     let contextUsed = false;
     
-    // Memory retrieval using embeddings
-    if (userId) {
+    // Memory retrieval using embeddings (refinements already have the form as context)
+    if (userId && !isRefinement) {
       console.log('Generating embedding for context retrieval...');
       const promptEmbedding = await getEmbedding(prompt);
 
@@ -222,99 +362,64 @@ Use these patterns for field ordering, naming, and structure.
       }
     }
 
-    const systemPrompt = `You are an intelligent form schema generator.
-${relevantFormsContext}
-Generate a JSON schema for the requested form.
+    const systemPrompt = isRefinement
+      ? `You are an intelligent form schema editor.
+You receive the current form schema and an instruction describing changes to make.
+Apply ONLY the requested changes and keep everything else exactly as it is.
+Keep the "id" of every existing field unchanged; give new fields new unique snake_case ids.
+
+${SCHEMA_GUIDE}
 
-Schema structure:
+Respond with a JSON object of this shape:
 {
-  "title": "Form Title",
-  "description": "Brief description",
-  "fields": [
-    {
-      "id": "unique_id",
-      "type": "text|email|number|textarea|select|checkbox|radio|date|file",
-      "label": "Field Label",
-      "placeholder": "Optional placeholder",
-      "required": true|false,
-      "options": ["Option 1", "Option 2"]
-    }
-  ]
+  "summary": "One or two sentences describing what you changed",
+  "schema": { ...the complete updated schema... }
 }
+Return ONLY valid JSON, no markdown or explanation.`
+      : `You are an intelligent form schema generator.
+${relevantFormsContext}
+Generate a JSON schema for the requested form.
 
-Field types: text, email, number, textarea, select, checkbox, radio, date, file
+${SCHEMA_GUIDE}
 Return ONLY valid JSON, no markdown or explanation.`;
 
-    const truncatedPrompt = truncateText(prompt, 1000);
-
-    const generateWithRetry = async (isRetry: boolean = false): Promise<FormSchema> => {
-      const userMessage = isRetry 
-        ? `RETURN ONLY JSON, no markdown.\n\nGenerate form schema for: ${truncatedPrompt}`
-        : `Generate form schema for: ${truncatedPrompt}`;
+    // Last few turns of the refinement chat, trimmed to keep the request small
+    const history: ConversationTurn[] = isRefinement && Array.isArray(conversation)
+      ? conversation
+          .filter((turn: ConversationTurn) => turn && (turn.role === 'user' || turn.role === 'assistant'))
+          .slice(-6)
+          .map((turn: ConversationTurn) => ({ role: turn.role, content: truncateText(String(turn.content || ''), 500) }))
+      : [];
 
-      console.log('Calling Lovable AI Gateway...');
-      
-      const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'google/gemini-2.5-flash',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userMessage }
-          ],
-          max_tokens: 2048
-        })
-      });
+    const truncatedPrompt = truncateText(prompt, 1000);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Lovable AI error:', response.status, errorText);
-        
-        if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please try again later.');
-        }
-        if (response.status === 402) {
-          throw new Error('AI credits exhausted. Please add funds to continue.');
-        }
-        throw new Error(`AI service error: ${response.status}`);
-      }
+    const request = isRefinement
+      ? `Current schema:\n${JSON.stringify(currentSchema)}\n\nInstruction: ${truncatedPrompt}`
+      : `Generate form schema for: ${truncatedPrompt}`;
 
-      const data = await response.json();
-      const textContent = data.choices?.[0]?.message?.content;
-      
-      if (!textContent) throw new Error('No response from AI');
-
-      console.log('AI response received, parsing JSON...');
-      const schema = parseJSONSafe(textContent);
-      
-      if (!schema) {
-        if (!isRetry) {
-          console.log('JSON parsing failed, retrying with stricter prompt...');
-          return generateWithRetry(true);
-        }
-        throw new Error('Failed to parse AI response as valid JSON');
-      }
+    const generation: GenerationRequest = { systemPrompt, history, request, isRefinement };
 
-      if (!schema.title || !schema.fields || !Array.isArray(schema.fields)) {
-        if (!isRetry) {
-          console.log('Invalid schema structure, retrying...');
-          return generateWithRetry(true);
-        }
-        throw new Error('Invalid schema structure');
-      }
-
-      return schema;
-    };
+    // New forms can stream; refinements need the whole schema to diff, so they don't
+    if (stream && !isRefinement && provider.stream) {
+      return new Response(streamGeneration(provider, generation, contextUsed, req.signal), {
+        headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
+      });
+    }
 
-    const schema = await generateWithRetry();
+    const { schema, summary, fixes } = await generateWithRetry(provider, generation, false, req.signal);
     console.log('Generated:', schema.title, 'with', schema.fields.length, 'fields');
 
+    if (isRefinement) {
+      const changes = diffSchemas(currentSchema, schema);
+      console.log('Refinement produced', changes.length, 'changes');
+      return new Response(
+        JSON.stringify({ schema, changes, summary: summary || '', fixes, contextUsed }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     return new Response(
-      JSON.stringify({ schema, contextUsed }),
+      JSON.stringify({ schema, fixes, contextUsed }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createMockProvider, type CompletionRequest, type LLMProvider } from '../_shared/llmProviders.ts';
+import { generateWithRetry, type GenerationRequest } from './schemaGeneration.ts';
+
+const VALID_SCHEMA = JSON.stringify({
+  title: 'Contact Form',
+  description: 'Send us a message.',
+  fields: [
+    { id: 'name', type: 'text', label: 'Name', required: true },
+    { id: 'email', type: 'email', label: 'Email', required: true }
+  ]
+});
+
+const generation: GenerationRequest = {
+  systemPrompt: 'You are a form schema generator.',
+  history: [],
+  request: 'Generate form schema for: a contact form',
+  isRefinement: false
+};
+
+// Wraps the mock so each request's messages can be inspected
+function recordRequests(provider: LLMProvider): { provider: LLMProvider; requests: CompletionRequest[] } {
+  const requests: CompletionRequest[] = [];
+  return {
+    requests,
+    provider: {
+      name: provider.name,
+      complete(request) {
+        requests.push(request);
+        return provider.complete(request);
+      }
+    }
+  };
+}
+
+const lastUserMessage = (request: CompletionRequest) =>
+  [...request.messages].reverse().find((m) => m.role === 'user')?.content;
+
+describe('generateWithRetry', () => {
+  it('succeeds on the stricter retry after an unparseable reply', async () => {
+    const { provider, requests } = recordRequests(createMockProvider({ responses: ['Sure! Your form is ready.', VALID_SCHEMA] }));
+
+    const result = await generateWithRetry(provider, generation);
+
+    expect(result.schema.title).toBe('Contact Form');
+    expect(result.schema.fields.map((field) => field.id)).toEqual(['name', 'email']);
+    expect(requests).toHaveLength(2);
+    expect(lastUserMessage(requests[0])).not.toContain('RETURN ONLY JSON');
+    expect(lastUserMessage(requests[1])).toMatch(/^RETURN ONLY JSON/);
+  });
+
+  it('throws when the retry cannot be parsed either', async () => {
+    const { provider, requests } = recordRequests(createMockProvider({ responses: ['not json', 'still not json'] }));
+
+    await expect(generateWithRetry(provider, generation)).rejects.toThrow(
+      'Failed to parse AI response as a valid form schema'
+    );
+    expect(requests).toHaveLength(2);
+  });
+
+  it('passes the abort signal to both attempts', async () => {
+    const { provider, requests } = recordRequests(createMockProvider({ responses: ['not json', VALID_SCHEMA] }));
+    const controller = new AbortController();
+
+    await generateWithRetry(provider, generation, false, controller.signal);
+
+    expect(requests.map((request) => request.signal)).toEqual([controller.signal, controller.signal]);
+  });
+});
@@ -0,0 +1,95 @@
+import type { FormSchema } from "../_shared/formTypes.ts";
+import { parseFormSchema, type SchemaFix, type SchemaRepairResult } from "../_shared/formSchema.ts";
+import { parseJSONSafe, type ChatMessage, type LLMProvider } from "../_shared/llmProviders.ts";
+
+export interface GenerationRequest {
+  systemPrompt: string;
+  history: ChatMessage[];
+  // The user message for this turn, without any retry preamble
+  request: string;
+  isRefinement: boolean;
+}
+
+export interface GenerationResult {
+  schema: FormSchema;
+  summary?: string;
+  fixes: SchemaFix[];
+}
+
+interface RefinementResult {
+  summary?: string;
+  schema?: FormSchema;
+}
+
+export function buildGenerationMessages(
+  { systemPrompt, history, request }: GenerationRequest,
+  isRetry: boolean = false
+): ChatMessage[] {
+  const userMessage = isRetry ? `RETURN ONLY JSON, no markdown.\n\n${request}` : request;
+  return [
+    { role: 'system', content: systemPrompt },
+    ...history,
+    { role: 'user', content: userMessage }
+  ];
+}
+
+/**
+ * Parses, repairs and strictly validates raw model output. Returns null when
+ * the output can't be turned into a form, so the caller can retry.
+ */
+export function parseGenerationOutput(textContent: string, isRefinement: boolean): GenerationResult | null {
+  const parsed = parseJSONSafe<FormSchema & RefinementResult>(textContent);
+  // Refinements come wrapped with a summary; tolerate a bare schema as well
+  const schema = isRefinement && parsed?.schema ? parsed.schema : parsed;
+
+  if (!schema) {
+    console.log('JSON parsing failed');
+    return null;
+  }
+
+  let repaired: SchemaRepairResult;
+  try {
+    repaired = parseFormSchema(schema);
+  } catch (error) {
+    console.log('Invalid schema structure:', error instanceof Error ? error.message : error);
+    return null;
+  }
+
+  if (repaired.fixes.length > 0) {
+    console.log(`Repaired ${repaired.fixes.length} problems in AI output`);
+  }
+
+  return {
+    ...repaired,
+    summary: isRefinement ? parsed?.summary : undefined
+  };
+}
+
+/**
+ * Asks the provider for a schema and parses it, retrying once with a stricter
+ * prompt when the reply can't be turned into a form. `signal` cancels the call.
+ */
+export async function generateWithRetry(
+  provider: LLMProvider,
+  generation: GenerationRequest,
+  isRetry: boolean = false,
+  signal?: AbortSignal
+): Promise<GenerationResult> {
+  console.log(`Calling ${provider.name} provider...`);
+  const textContent = await provider.complete({
+    messages: buildGenerationMessages(generation, isRetry),
+    maxTokens: generation.isRefinement ? 4096 : 2048,
+    json: true,
+    signal
+  });
+
+  console.log('AI response received, parsing JSON...');
+  const result = parseGenerationOutput(textContent, generation.isRefinement);
+  if (result) return result;
+
+  if (!isRetry) {
+    console.log('Retrying with stricter prompt...');
+    return generateWithRetry(provider, generation, true, signal);
+  }
+  throw new Error('Failed to parse AI response as a valid form schema');
+}
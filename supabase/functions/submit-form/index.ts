@@ -0,0 +1,164 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { FormSchema } from "../_shared/formTypes.ts";
+import { getVisibleFields } from "../_shared/formConditions.ts";
+import { buildZodSchema } from "../_shared/formValidation.ts";
+import { applyCalculations } from "../_shared/fieldCalculations.ts";
+import { getEmbeddableAnswers } from "../_shared/answerInsights.ts";
+import { createEmbedderFromEnv, toVectorLiteral } from "../_shared/embeddings.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function collectFieldErrors(issues: { path: (string | number)[]; message: string }[]): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+  for (const issue of issues) {
+    const fieldId = String(issue.path[0] ?? '');
+    if (fieldId && !fieldErrors[fieldId]) fieldErrors[fieldId] = issue.message;
+  }
+  return fieldErrors;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { formId, responses, draftId } = await req.json();
+
+    if (!formId || !responses || typeof responses !== 'object' || Array.isArray(responses)) {
+      return new Response(
+        JSON.stringify({ error: 'formId and responses are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: form, error: formError } = await supabase
+      .from('forms')
+      .select('id, schema, is_published, current_version')
+      .eq('id', formId)
+      .maybeSingle();
+
+    if (formError) {
+      console.error('Form lookup error:', formError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to load form' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!form) {
+      return new Response(
+        JSON.stringify({ error: 'Form not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!form.is_published) {
+      return new Response(
+        JSON.stringify({ error: 'This form is not currently accepting submissions' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const schema = form.schema as FormSchema;
+    const fields = Array.isArray(schema?.fields) ? schema.fields : [];
+
+    // Same rules as DynamicFormRenderer: hidden fields are skipped and unknown keys stripped.
+    // Calculated values are never trusted from the client; conditions may depend on them.
+    const visibleFields = getVisibleFields(fields, applyCalculations(fields, responses));
+    const result = buildZodSchema(visibleFields).safeParse(responses);
+
+    if (!result.success) {
+      const fieldErrors = collectFieldErrors(result.error.issues);
+      console.log('Submission rejected for form:', formId, Object.keys(fieldErrors));
+      return new Response(
+        JSON.stringify({ error: 'Some answers are invalid', fieldErrors }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Recomputed from the validated answers so stored totals always match the stored inputs
+    const validResponses = applyCalculations(visibleFields, result.data as Record<string, unknown>);
+
+    // Image URLs come from the validated file fields rather than the client payload
+    const imageUrls = visibleFields
+      .filter((field) => field.type === 'file')
+      .map((field) => validResponses[field.id])
+      .filter((value): value is string => typeof value === 'string' && value.startsWith('http'));
+
+    const { data: submission, error: insertError } = await supabase
+      .from('submissions')
+      .insert({
+        form_id: formId,
+        form_version: form.current_version,
+        responses: validResponses,
+        image_urls: imageUrls
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Insert error:', insertError);
+      return new Response(
+        JSON.stringify({ error: 'Failed to save submission', details: insertError.message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log('Submission saved:', submission.id);
+
+    // A resumed draft has served its purpose; failing to remove it shouldn't fail the submission
+    if (typeof draftId === 'string' && draftId) {
+      const { error: draftError } = await supabase
+        .from('form_drafts')
+        .delete()
+        .eq('id', draftId)
+        .eq('form_id', formId);
+      if (draftError) console.error('Draft cleanup error:', draftError);
+    }
+
+    // Free-text answers are embedded for similar-answer search and themes. Anything
+    // missed here is picked up later by answer-insights, so failures are only logged.
+    const answers = getEmbeddableAnswers(visibleFields, validResponses);
+    if (answers.length > 0) {
+      try {
+        const embedder = createEmbedderFromEnv();
+        if (embedder) {
+          const embeddings = await embedder.embed(answers.map((answer) => answer.content));
+          const { error: embeddingError } = await supabase.from('answer_embeddings').insert(
+            answers.map((answer, i) => ({
+              submission_id: submission.id,
+              form_id: formId,
+              field_id: answer.fieldId,
+              content: answer.content,
+              embedding: toVectorLiteral(embeddings[i])
+            }))
+          );
+          if (embeddingError) console.error('Answer embedding save error:', embeddingError);
+        }
+      } catch (embeddingError) {
+        console.error('Answer embedding error:', embeddingError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ submission }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
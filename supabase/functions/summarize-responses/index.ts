@@ -0,0 +1,125 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { FormSchema } from "../_shared/formTypes.ts";
+import { createProviderFromEnv } from "../_shared/llmProviders.ts";
+import {
+  buildResponseContext,
+  buildSummaryMessages,
+  parseSummaryOutput,
+  type DigestSubmission
+} from "./responseDigest.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Aggregates cover the newest submissions; the total is still reported to the model
+const MAX_SUBMISSIONS = 1000;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+// Regenerates the cached digest of a form's responses. Owners read the cache directly;
+// this only runs when they ask for a fresh one.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { formId } = await req.json();
+
+    if (!formId) {
+      return jsonResponse({ error: 'formId is required' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!user) {
+      return jsonResponse({ error: 'Sign in to summarize responses' }, 401);
+    }
+
+    const { data: form, error: formError } = await supabase
+      .from('forms')
+      .select('id, user_id, title, schema')
+      .eq('id', formId)
+      .maybeSingle();
+
+    if (formError) {
+      console.error('Form lookup error:', formError);
+      return jsonResponse({ error: 'Failed to load form' }, 500);
+    }
+
+    // Someone else's form is reported as missing rather than forbidden
+    if (!form || form.user_id !== user.id) {
+      return jsonResponse({ error: 'Form not found' }, 404);
+    }
+
+    const { data: submissions, count, error: submissionsError } = await supabase
+      .from('submissions')
+      .select('submitted_at, responses', { count: 'exact' })
+      .eq('form_id', formId)
+      .order('submitted_at', { ascending: false })
+      .limit(MAX_SUBMISSIONS);
+
+    if (submissionsError) {
+      console.error('Submissions error:', submissionsError);
+      return jsonResponse({ error: 'Failed to load submissions' }, 500);
+    }
+
+    const total = count ?? submissions?.length ?? 0;
+    if (total === 0) {
+      return jsonResponse({ error: 'There are no responses to summarize yet' }, 400);
+    }
+
+    const schema = form.schema as FormSchema;
+    const fields = Array.isArray(schema?.fields) ? schema.fields : [];
+    const context = buildResponseContext(fields, (submissions || []) as DigestSubmission[], total);
+
+    const provider = createProviderFromEnv();
+    console.log('Summarizing', total, 'responses for', formId, 'with', provider.name);
+
+    const output = await provider.complete({
+      messages: buildSummaryMessages(form.title, context),
+      maxTokens: 1200,
+      json: true
+    });
+
+    const summary = parseSummaryOutput(output);
+    if (!summary) {
+      console.error('Unusable summary output:', output.slice(0, 500));
+      return jsonResponse({ error: 'The AI returned an unreadable summary. Please try again.' }, 502);
+    }
+
+    const { data: cached, error: cacheError } = await supabase
+      .from('response_summaries')
+      .upsert({
+        form_id: formId,
+        summary,
+        submission_count: total,
+        generated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (cacheError) {
+      console.error('Summary save error:', cacheError);
+      return jsonResponse({ error: 'Failed to save summary', details: cacheError.message }, 500);
+    }
+
+    return jsonResponse({ summary: cached });
+
+  } catch (error) {
+    console.error('Error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,155 @@
+import type { FormField } from "../_shared/formTypes.ts";
+import { isScaleField } from "../_shared/fieldScales.ts";
+import { isEmptyAnswer } from "../_shared/formValidation.ts";
+import { parseJSONSafe, type ChatMessage } from "../_shared/llmProviders.ts";
+
+export interface DigestSubmission {
+  submitted_at: string;
+  responses: Record<string, unknown>;
+}
+
+export type Sentiment = 'positive' | 'mixed' | 'negative' | 'neutral';
+
+export interface ResponseSummary {
+  summary: string;
+  keyFindings: string[];
+  sentiment: { overall: Sentiment; explanation: string };
+  outliers: string[];
+}
+
+// Keeps the prompt well inside every provider's context window
+const MAX_CONTEXT_CHARS = 6000;
+const MAX_FIELD_CHARS = 1200;
+const TEXT_SAMPLES_PER_FIELD = 12;
+const TEXT_SAMPLE_CHARS = 200;
+const SENTIMENTS: Sentiment[] = ['positive', 'mixed', 'negative', 'neutral'];
+
+// Prompt marker the mock provider recognises
+export const SUMMARY_REQUEST_PREFIX = 'Form responses to summarize';
+
+function truncateText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return text.substring(0, maxChars) + '...';
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Evenly spaced picks so the samples span the whole period rather than the latest day
+function spreadSample<T>(items: T[], count: number): T[] {
+  if (items.length <= count) return items;
+  const step = items.length / count;
+  return Array.from({ length: count }, (_, i) => items[Math.floor(i * step)]);
+}
+
+/**
+ * Condenses one field's answers: counts for options, statistics for numbers and
+ * scales, and a spread of samples for free text. Returns null for fields that say
+ * little on their own (files, signatures, hidden values) or have no answers.
+ */
+export function describeField(field: FormField, answers: unknown[]): Record<string, unknown> | null {
+  const given = answers.filter((answer) => !isEmptyAnswer(answer));
+  if (given.length === 0) return null;
+  const base = { question: truncateText(field.label, 120), answered: given.length };
+
+  if (field.type === 'select' || field.type === 'radio' || field.type === 'checkbox') {
+    const counts: Record<string, number> = {};
+    for (const answer of given) {
+      for (const option of Array.isArray(answer) ? answer : [answer]) {
+        const key = truncateText(String(option), 60);
+        counts[key] = (counts[key] ?? 0) + 1;
+      }
+    }
+    return { ...base, counts };
+  }
+
+  if (isScaleField(field) || field.type === 'number' || field.type === 'currency' || field.type === 'calculated') {
+    const numbers = given.map(Number).filter(Number.isFinite).sort((a, b) => a - b);
+    if (numbers.length === 0) return null;
+    return {
+      ...base,
+      average: round(numbers.reduce((sum, n) => sum + n, 0) / numbers.length),
+      median: numbers[Math.floor(numbers.length / 2)],
+      min: numbers[0],
+      max: numbers[numbers.length - 1]
+    };
+  }
+
+  if (field.type === 'text' || field.type === 'textarea') {
+    const texts = given.filter((answer): answer is string => typeof answer === 'string');
+    return {
+      ...base,
+      samples: spreadSample(texts, TEXT_SAMPLES_PER_FIELD).map((text) => truncateText(text.replace(/\s+/g, ' ').trim(), TEXT_SAMPLE_CHARS))
+    };
+  }
+
+  return null;
+}
+
+/**
+ * The model's view of the responses. Field digests are added in form order until
+ * the character budget runs out, the way generate-form limits its form history.
+ */
+export function buildResponseContext(fields: FormField[], submissions: DigestSubmission[], total: number): string {
+  const dates = submissions.map((submission) => submission.submitted_at).sort();
+  const header = [
+    `Total responses: ${total}`,
+    submissions.length < total ? `Aggregated over the most recent ${submissions.length}` : '',
+    dates.length > 0 ? `Submitted between ${dates[0].slice(0, 10)} and ${dates[dates.length - 1].slice(0, 10)}` : ''
+  ].filter(Boolean).join('\n');
+
+  let context = `${header}\n\n`;
+  for (const field of fields) {
+    const digest = describeField(field, submissions.map((submission) => submission.responses[field.id]));
+    if (!digest) continue;
+    const line = truncateText(JSON.stringify(digest), MAX_FIELD_CHARS);
+    if (context.length + line.length > MAX_CONTEXT_CHARS) break;
+    context += line + '\n';
+  }
+  return context;
+}
+
+export function buildSummaryMessages(title: string, context: string): ChatMessage[] {
+  return [
+    {
+      role: 'system',
+      content: `You analyze survey and form responses for a busy manager.
+You receive aggregated answers per question: option counts, number statistics and samples of free-text answers.
+Write a one-paragraph digest of what respondents said, then list the key findings, the overall sentiment and any notable outliers (unusual answers or values far from the rest).
+Only state what the data supports; mention when there are too few responses to draw conclusions.
+Respond with a JSON object of this shape:
+{
+  "summary": "One paragraph",
+  "keyFindings": ["Finding"],
+  "sentiment": { "overall": "positive|mixed|negative|neutral", "explanation": "One sentence" },
+  "outliers": ["Outlier"]
+}
+Return ONLY valid JSON, no markdown or explanation.`
+    },
+    { role: 'user', content: `${SUMMARY_REQUEST_PREFIX} for the form "${truncateText(title, 100)}":\n\n${context}` }
+  ];
+}
+
+const toStrings = (value: unknown, limit: number): string[] =>
+  (Array.isArray(value) ? value : [])
+    .filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+    .slice(0, limit)
+    .map((item) => truncateText(item.trim(), 300));
+
+// Null when the output has no usable summary, so the caller can report it
+export function parseSummaryOutput(output: string): ResponseSummary | null {
+  const parsed = parseJSONSafe<Record<string, unknown>>(output);
+  if (!parsed || typeof parsed.summary !== 'string' || !parsed.summary.trim()) return null;
+
+  const sentiment = (parsed.sentiment || {}) as { overall?: unknown; explanation?: unknown };
+  return {
+    summary: truncateText(parsed.summary.trim(), 2000),
+    keyFindings: toStrings(parsed.keyFindings, 8),
+    sentiment: {
+      overall: SENTIMENTS.includes(sentiment.overall as Sentiment) ? sentiment.overall as Sentiment : 'neutral',
+      explanation: typeof sentiment.explanation === 'string' ? truncateText(sentiment.explanation.trim(), 300) : ''
+    },
+    outliers: toStrings(parsed.outliers, 5)
+  };
+}
@@ -0,0 +1,5 @@
+-- Route all submissions through the submit-form edge function
+
+-- The function validates responses against the form schema and inserts with the
+-- service role, so direct inserts from the client are no longer allowed
+DROP POLICY IF EXISTS "Anyone can submit to forms" ON public.submissions;
@@ -0,0 +1,76 @@
+-- Form schema versioning with submission pinning
+
+-- Every published schema of a form, numbered per form
+CREATE TABLE public.form_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES public.forms(id) ON DELETE CASCADE,
+  version INT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  schema JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (form_id, version)
+);
+
+CREATE INDEX form_versions_form_id_idx ON public.form_versions(form_id);
+
+ALTER TABLE public.forms ADD COLUMN current_version INT NOT NULL DEFAULT 1;
+
+-- The form version a submission was filled against
+ALTER TABLE public.submissions ADD COLUMN form_version INT;
+
+-- Backfill: existing forms become version 1 and existing submissions are pinned to it
+INSERT INTO public.form_versions (form_id, version, title, description, schema, created_at)
+SELECT id, 1, title, description, schema, created_at FROM public.forms;
+
+UPDATE public.submissions SET form_version = 1 WHERE form_version IS NULL;
+
+ALTER TABLE public.form_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Form owners can view versions" ON public.form_versions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.forms WHERE id = form_id AND user_id = auth.uid())
+  );
+
+-- Bump the version whenever the content of a form changes
+CREATE OR REPLACE FUNCTION public.bump_form_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.schema IS DISTINCT FROM OLD.schema
+    OR NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.description IS DISTINCT FROM OLD.description THEN
+    NEW.current_version = OLD.current_version + 1;
+  ELSE
+    NEW.current_version = OLD.current_version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Snapshot the form into form_versions on create and on every version bump
+CREATE OR REPLACE FUNCTION public.record_form_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.current_version <> OLD.current_version THEN
+    INSERT INTO public.form_versions (form_id, version, title, description, schema)
+    VALUES (NEW.id, NEW.current_version, NEW.title, NEW.description, NEW.schema);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_forms_version
+  BEFORE UPDATE ON public.forms
+  FOR EACH ROW EXECUTE FUNCTION public.bump_form_version();
+
+CREATE TRIGGER record_forms_version
+  AFTER INSERT OR UPDATE ON public.forms
+  FOR EACH ROW EXECUTE FUNCTION public.record_form_version();
@@ -0,0 +1,3 @@
+-- Per-form options such as the URL prefill allowlist; kept out of the schema so they don't bump the version
+ALTER TABLE public.forms
+  ADD COLUMN settings jsonb NOT NULL DEFAULT '{}'::jsonb;
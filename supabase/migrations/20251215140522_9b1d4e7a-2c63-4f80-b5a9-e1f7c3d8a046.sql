@@ -0,0 +1,18 @@
+-- Server-side drafts for "save and continue later"
+
+-- Respondents are anonymous, so the draft id in the resume link is the only credential.
+-- Drafts are read and written by the form-drafts edge function with the service role.
+CREATE TABLE public.form_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES public.forms(id) ON DELETE CASCADE,
+  responses JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX form_drafts_form_id_idx ON public.form_drafts(form_id);
+CREATE INDEX form_drafts_expires_at_idx ON public.form_drafts(expires_at);
+
+-- No policies: clients never touch drafts directly
+ALTER TABLE public.form_drafts ENABLE ROW LEVEL SECURITY;
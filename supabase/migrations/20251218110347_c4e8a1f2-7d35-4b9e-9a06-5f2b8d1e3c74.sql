@@ -0,0 +1,203 @@
+-- Server-side paging, sorting and filtering of submissions
+
+-- Default listing: a form's newest submissions first
+CREATE INDEX IF NOT EXISTS submissions_form_id_submitted_at_idx
+  ON public.submissions(form_id, submitted_at DESC, id DESC);
+
+-- The sort key for a field answer. Numbers compare numerically, anything else
+-- case-insensitively as text (dates and times are stored as ISO strings, so they sort too).
+-- NULL p_field sorts by submission time.
+CREATE OR REPLACE FUNCTION public.submission_sort_sql(p_field TEXT, p_kind TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_field IS NULL THEN
+    RETURN 'submitted_at';
+  END IF;
+  IF p_field !~ '^[A-Za-z0-9_]+$' THEN
+    RAISE EXCEPTION 'Invalid sort field: %', p_field;
+  END IF;
+  IF p_kind = 'number' THEN
+    RETURN format('(CASE WHEN jsonb_typeof(responses->%1$L) = ''number'' THEN (responses->>%1$L)::numeric END)', p_field);
+  END IF;
+  RETURN format('lower(responses->>%L)', p_field);
+END;
+$$;
+
+-- ANDs together filters of the form {"field", "op", "kind", "value"}:
+--   text:   eq / contains (case-insensitive), gte / lte (string order, for dates and times)
+--   number: eq / gte / lte
+--   option: in, true when the answer (or any checkbox selection) is one of the listed options
+CREATE OR REPLACE FUNCTION public.submission_filter_sql(p_filters JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  item JSONB;
+  field TEXT;
+  op TEXT;
+  kind TEXT;
+  val TEXT;
+  clauses TEXT[] := ARRAY['true'];
+BEGIN
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(p_filters, '[]'::jsonb)) LOOP
+    field := item->>'field';
+    op := item->>'op';
+    kind := COALESCE(item->>'kind', 'text');
+
+    IF field IS NULL OR field !~ '^[A-Za-z0-9_]+$' THEN
+      RAISE EXCEPTION 'Invalid filter field: %', field;
+    END IF;
+
+    IF kind = 'option' AND op = 'in' THEN
+      IF jsonb_typeof(item->'value') IS DISTINCT FROM 'array' THEN
+        RAISE EXCEPTION 'Filter on % needs a list of options', field;
+      END IF;
+      clauses := clauses || format(
+        '(responses->%L) ?| %L::text[]',
+        field,
+        ARRAY(SELECT jsonb_array_elements_text(item->'value'))
+      );
+      CONTINUE;
+    END IF;
+
+    val := item->>'value';
+    IF val IS NULL OR op NOT IN ('eq', 'contains', 'gte', 'lte') THEN
+      RAISE EXCEPTION 'Invalid filter on %', field;
+    END IF;
+
+    IF kind = 'number' THEN
+      IF op = 'contains' OR val !~ '^-?\d+(\.\d+)?$' THEN
+        RAISE EXCEPTION 'Filter on % needs a number', field;
+      END IF;
+      clauses := clauses || format(
+        '%s %s %L::numeric',
+        public.submission_sort_sql(field, 'number'),
+        CASE op WHEN 'eq' THEN '=' WHEN 'gte' THEN '>=' ELSE '<=' END,
+        val
+      );
+    ELSIF op = 'eq' THEN
+      clauses := clauses || format('lower(responses->>%L) = lower(%L)', field, val);
+    ELSIF op = 'contains' THEN
+      clauses := clauses || format('strpos(lower(responses->>%L), lower(%L)) > 0', field, val);
+    ELSE
+      clauses := clauses || format('(responses->>%L) %s %L', field, CASE op WHEN 'gte' THEN '>=' ELSE '<=' END, val);
+    END IF;
+  END LOOP;
+
+  RETURN array_to_string(clauses, ' AND ');
+END;
+$$;
+
+-- One page of a form's submissions. Paging is keyset-based: p_cursor is the id of the
+-- last row already shown (or the first, with p_backward to page back, in which case rows
+-- come back in reverse order). Empty answers sort last in either direction.
+-- Runs as the caller, so the usual row-level security applies.
+CREATE OR REPLACE FUNCTION public.list_submissions(
+  p_form_id UUID,
+  p_filters JSONB DEFAULT '[]'::jsonb,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_sort_field TEXT DEFAULT NULL,
+  p_sort_kind TEXT DEFAULT 'text',
+  p_descending BOOLEAN DEFAULT true,
+  p_cursor UUID DEFAULT NULL,
+  p_backward BOOLEAN DEFAULT false,
+  p_limit INT DEFAULT 25
+)
+RETURNS SETOF public.submissions
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  sort_key TEXT := public.submission_sort_sql(p_sort_field, p_sort_kind);
+  sort_value TEXT;
+  null_flag TEXT;
+  walk_descending BOOLEAN := p_descending <> p_backward;
+  dir TEXT;
+  cursor_sql TEXT := '';
+BEGIN
+  sort_value := format('COALESCE(%s, %s)', sort_key, CASE
+    WHEN p_sort_field IS NULL THEN '''epoch''::timestamptz'
+    WHEN p_sort_kind = 'number' THEN '0'
+    ELSE ''''''
+  END);
+  -- Orders empty answers after all others; flipped together with the rest when paging back
+  null_flag := format(CASE WHEN p_descending THEN '(%s IS NOT NULL)' ELSE '(%s IS NULL)' END, sort_key);
+  dir := CASE WHEN walk_descending THEN 'DESC' ELSE 'ASC' END;
+
+  IF p_cursor IS NOT NULL THEN
+    cursor_sql := format(
+      'AND (%1$s, %2$s, id) %3$s (SELECT %1$s, %2$s, id FROM public.submissions WHERE id = %4$L)',
+      null_flag, sort_value, CASE WHEN walk_descending THEN '<' ELSE '>' END, p_cursor
+    );
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT * FROM public.submissions
+      WHERE form_id = $1
+        AND ($2::timestamptz IS NULL OR submitted_at >= $2)
+        AND ($3::timestamptz IS NULL OR submitted_at <= $3)
+        AND %s %s
+      ORDER BY %s %s, %s %s, id %s
+      LIMIT %s',
+    public.submission_filter_sql(p_filters), cursor_sql,
+    null_flag, dir, sort_value, dir, dir,
+    LEAST(GREATEST(COALESCE(p_limit, 25), 1), 1000)
+  )
+  USING p_form_id, p_from, p_to;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_submissions(
+  p_form_id UUID,
+  p_filters JSONB DEFAULT '[]'::jsonb,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  total BIGINT;
+BEGIN
+  EXECUTE format(
+    'SELECT count(*) FROM public.submissions
+      WHERE form_id = $1
+        AND ($2::timestamptz IS NULL OR submitted_at >= $2)
+        AND ($3::timestamptz IS NULL OR submitted_at <= $3)
+        AND %s',
+    public.submission_filter_sql(p_filters)
+  )
+  INTO total
+  USING p_form_id, p_from, p_to;
+  RETURN total;
+END;
+$$;
+
+-- How many submissions hold a non-empty answer for each of the given fields
+CREATE OR REPLACE FUNCTION public.count_field_answers(p_form_id UUID, p_field_ids TEXT[])
+RETURNS TABLE (field_id TEXT, answer_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT f.field_id, count(s.id)
+  FROM unnest(p_field_ids) AS f(field_id)
+  LEFT JOIN public.submissions s
+    ON s.form_id = p_form_id
+    AND s.responses ? f.field_id
+    AND s.responses->>f.field_id NOT IN ('', '[]', '{}')
+  GROUP BY f.field_id;
+$$;
@@ -0,0 +1,118 @@
+-- Full-text search over submission answers
+
+-- Indexes every string and number in the answers (nested groups, addresses and matrices
+-- included) but not the field ids. An expression index rather than a stored column, so
+-- rows read through list_submissions don't carry the vector along.
+CREATE INDEX IF NOT EXISTS submissions_responses_search_idx
+  ON public.submissions
+  USING gin (jsonb_to_tsvector('english'::regconfig, responses, '["string", "numeric"]'::jsonb));
+
+-- True when the answers match a web-style search ("quoted phrases", or, -excluded).
+-- A blank search matches everything.
+CREATE OR REPLACE FUNCTION public.submission_search_sql(p_search TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN NULLIF(trim(p_search), '') IS NULL THEN 'true'
+    ELSE format(
+      'jsonb_to_tsvector(''english''::regconfig, responses, ''["string", "numeric"]''::jsonb) @@ websearch_to_tsquery(''english'', %L)',
+      p_search
+    )
+  END;
+$$;
+
+-- Adding p_search changes the signatures, so the old versions are dropped rather than overloaded
+DROP FUNCTION IF EXISTS public.list_submissions(UUID, JSONB, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT, BOOLEAN, UUID, BOOLEAN, INT);
+DROP FUNCTION IF EXISTS public.count_submissions(UUID, JSONB, TIMESTAMPTZ, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION public.list_submissions(
+  p_form_id UUID,
+  p_filters JSONB DEFAULT '[]'::jsonb,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_sort_field TEXT DEFAULT NULL,
+  p_sort_kind TEXT DEFAULT 'text',
+  p_descending BOOLEAN DEFAULT true,
+  p_cursor UUID DEFAULT NULL,
+  p_backward BOOLEAN DEFAULT false,
+  p_limit INT DEFAULT 25
+)
+RETURNS SETOF public.submissions
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  sort_key TEXT := public.submission_sort_sql(p_sort_field, p_sort_kind);
+  sort_value TEXT;
+  null_flag TEXT;
+  walk_descending BOOLEAN := p_descending <> p_backward;
+  dir TEXT;
+  cursor_sql TEXT := '';
+BEGIN
+  sort_value := format('COALESCE(%s, %s)', sort_key, CASE
+    WHEN p_sort_field IS NULL THEN '''epoch''::timestamptz'
+    WHEN p_sort_kind = 'number' THEN '0'
+    ELSE ''''''
+  END);
+  -- Orders empty answers after all others; flipped together with the rest when paging back
+  null_flag := format(CASE WHEN p_descending THEN '(%s IS NOT NULL)' ELSE '(%s IS NULL)' END, sort_key);
+  dir := CASE WHEN walk_descending THEN 'DESC' ELSE 'ASC' END;
+
+  IF p_cursor IS NOT NULL THEN
+    cursor_sql := format(
+      'AND (%1$s, %2$s, id) %3$s (SELECT %1$s, %2$s, id FROM public.submissions WHERE id = %4$L)',
+      null_flag, sort_value, CASE WHEN walk_descending THEN '<' ELSE '>' END, p_cursor
+    );
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT * FROM public.submissions
+      WHERE form_id = $1
+        AND ($2::timestamptz IS NULL OR submitted_at >= $2)
+        AND ($3::timestamptz IS NULL OR submitted_at <= $3)
+        AND %s AND %s %s
+      ORDER BY %s %s, %s %s, id %s
+      LIMIT %s',
+    public.submission_filter_sql(p_filters), public.submission_search_sql(p_search), cursor_sql,
+    null_flag, dir, sort_value, dir, dir,
+    LEAST(GREATEST(COALESCE(p_limit, 25), 1), 1000)
+  )
+  USING p_form_id, p_from, p_to;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_submissions(
+  p_form_id UUID,
+  p_filters JSONB DEFAULT '[]'::jsonb,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  total BIGINT;
+BEGIN
+  EXECUTE format(
+    'SELECT count(*) FROM public.submissions
+      WHERE form_id = $1
+        AND ($2::timestamptz IS NULL OR submitted_at >= $2)
+        AND ($3::timestamptz IS NULL OR submitted_at <= $3)
+        AND %s AND %s',
+    public.submission_filter_sql(p_filters), public.submission_search_sql(p_search)
+  )
+  INTO total
+  USING p_form_id, p_from, p_to;
+  RETURN total;
+END;
+$$;
@@ -0,0 +1,60 @@
+-- Embeddings of free-text answers, for similar-answer search and theme clustering.
+-- Written by edge functions with the service role; form owners can read their own.
+CREATE TABLE public.answer_embeddings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id UUID NOT NULL REFERENCES public.submissions(id) ON DELETE CASCADE,
+  form_id UUID NOT NULL REFERENCES public.forms(id) ON DELETE CASCADE,
+  field_id TEXT NOT NULL,
+  -- The embedded text, kept so results can be shown without re-reading submissions
+  content TEXT NOT NULL,
+  embedding vector(768) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (submission_id, field_id)
+);
+
+-- Searches stay within one form's field, which is small enough to scan exactly;
+-- an approximate vector index could drop matches once the form filter applies
+CREATE INDEX answer_embeddings_form_field_idx ON public.answer_embeddings(form_id, field_id);
+
+ALTER TABLE public.answer_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Form owners can view answer embeddings" ON public.answer_embeddings
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.forms WHERE id = form_id AND user_id = auth.uid())
+  );
+
+-- Answers to the same field closest in meaning to one submission's answer
+CREATE OR REPLACE FUNCTION public.find_similar_answers(
+  p_submission_id UUID,
+  p_field_id TEXT,
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 10
+)
+RETURNS TABLE (
+  submission_id UUID,
+  content TEXT,
+  similarity float,
+  submitted_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    e.submission_id,
+    e.content,
+    1 - (e.embedding <=> source.embedding) AS similarity,
+    s.submitted_at
+  FROM public.answer_embeddings source
+  JOIN public.answer_embeddings e
+    ON e.form_id = source.form_id
+    AND e.field_id = source.field_id
+    AND e.submission_id <> source.submission_id
+  JOIN public.submissions s ON s.id = e.submission_id
+  WHERE source.submission_id = p_submission_id
+    AND source.field_id = p_field_id
+    AND 1 - (e.embedding <=> source.embedding) > match_threshold
+  ORDER BY e.embedding <=> source.embedding
+  LIMIT match_count;
+$$;
@@ -0,0 +1,17 @@
+-- Cached AI digest of a form's responses, one per form. Written by the
+-- summarize-responses edge function; form owners can read their own.
+CREATE TABLE public.response_summaries (
+  form_id UUID PRIMARY KEY REFERENCES public.forms(id) ON DELETE CASCADE,
+  -- { summary, keyFindings, sentiment: { overall, explanation }, outliers }
+  summary JSONB NOT NULL,
+  -- How many submissions existed when it was generated, to tell when it's out of date
+  submission_count INTEGER NOT NULL,
+  generated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.response_summaries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Form owners can view response summaries" ON public.response_summaries
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.forms WHERE id = form_id AND user_id = auth.uid())
+  );
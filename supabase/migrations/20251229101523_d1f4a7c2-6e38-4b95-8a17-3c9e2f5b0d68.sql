@@ -0,0 +1,21 @@
+-- Text answers left blank are stored as empty strings; sort them with the missing
+-- ones, after all others, instead of ahead of every answer when sorting A to Z.
+CREATE OR REPLACE FUNCTION public.submission_sort_sql(p_field TEXT, p_kind TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_field IS NULL THEN
+    RETURN 'submitted_at';
+  END IF;
+  IF p_field !~ '^[A-Za-z0-9_]+$' THEN
+    RAISE EXCEPTION 'Invalid sort field: %', p_field;
+  END IF;
+  IF p_kind = 'number' THEN
+    RETURN format('(CASE WHEN jsonb_typeof(responses->%1$L) = ''number'' THEN (responses->>%1$L)::numeric END)', p_field);
+  END IF;
+  RETURN format('NULLIF(lower(responses->>%L), '''')', p_field);
+END;
+$$;